@@ -16,6 +16,11 @@ const config: StorybookConfig = {
   "framework": {
     "name": "@storybook/react-vite",
     "options": {}
-  }
+  },
+  // Stories run against the local fixture storage, no Supabase needed
+  "env": (config) => ({
+    ...config,
+    "VITE_STORAGE_BACKEND": "local"
+  })
 };
 export default config;
\ No newline at end of file
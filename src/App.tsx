@@ -6,11 +6,24 @@ import { ThemeContextProvider } from "./providers/ThemeContext";
 import { useThemeContext } from "./providers/useThemeContext";
 import { StorageProvider } from "./providers/StorageProvider";
 import { StatsProvider } from "./providers/StatsProvider";
+import { AuthProvider } from "./providers/AuthProvider";
 import { HomePage } from "./pages/HomePage";
 import { PrivacyPage } from "./pages/PrivacyPage";
 import { AboutPage } from "./pages/AboutPage";
+import { ArchivePage } from "./pages/ArchivePage";
+import { PuzzlePage } from "./pages/PuzzlePage";
+import { SignInPage } from "./pages/SignInPage";
+import { AccountPage } from "./pages/AccountPage";
+import { AdminPuzzlesPage } from "./pages/admin/AdminPuzzlesPage";
+import { AdminGroupsPage } from "./pages/admin/AdminGroupsPage";
+import { AdminPuzzleBuilderPage } from "./pages/admin/AdminPuzzleBuilderPage";
+import { AdminSchedulePage } from "./pages/admin/AdminSchedulePage";
+import { AdminCalibrationPage } from "./pages/admin/AdminCalibrationPage";
 import { ThemeToggle } from "./components/ThemeToggle";
+import { AuthButton } from "./components/AuthButton";
 import { Footer } from "./components/Footer";
+import { StatsMigrationNotice } from "./components/StatsMigrationNotice";
+import { AdminRoute } from "./components/admin/AdminRoute";
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -27,6 +40,7 @@ function ThemedApp() {
   return (
     <ThemeProvider colorScheme={theme}>
       <ToastProvider>
+        <StatsMigrationNotice />
         <BrowserRouter>
           <div
             style={{
@@ -35,11 +49,56 @@ function ThemedApp() {
               minHeight: "100vh",
             }}
           >
-            <Box display="flex" justifyContent="flex-end" padding="1">
+            <Box display="flex" justifyContent="flex-end" alignItems="center" gap="xs" padding="1">
+              <AuthButton />
               <ThemeToggle />
             </Box>
             <Routes>
               <Route path="/" element={<HomePage />} />
+              <Route path="/archive" element={<ArchivePage />} />
+              <Route path="/puzzle/:date" element={<PuzzlePage />} />
+              <Route path="/signin" element={<SignInPage />} />
+              <Route path="/account" element={<AccountPage />} />
+              <Route
+                path="/admin/puzzles"
+                element={
+                  <AdminRoute>
+                    <AdminPuzzlesPage />
+                  </AdminRoute>
+                }
+              />
+              <Route
+                path="/admin/groups"
+                element={
+                  <AdminRoute>
+                    <AdminGroupsPage />
+                  </AdminRoute>
+                }
+              />
+              <Route
+                path="/admin/builder"
+                element={
+                  <AdminRoute>
+                    <AdminPuzzleBuilderPage />
+                  </AdminRoute>
+                }
+              />
+              <Route
+                path="/admin/schedule"
+                element={
+                  <AdminRoute>
+                    <AdminSchedulePage />
+                  </AdminRoute>
+                }
+              />
+              <Route
+                path="/admin/calibration"
+                element={
+                  <AdminRoute>
+                    <AdminCalibrationPage />
+                  </AdminRoute>
+                }
+              />
               <Route path="/privacy" element={<PrivacyPage />} />
               <Route path="/about" element={<AboutPage />} />
             </Routes>
@@ -55,11 +114,13 @@ function App() {
   return (
     <QueryClientProvider client={queryClient}>
       <StorageProvider>
-        <StatsProvider>
-          <ThemeContextProvider>
-            <ThemedApp />
-          </ThemeContextProvider>
-        </StatsProvider>
+        <AuthProvider>
+          <StatsProvider>
+            <ThemeContextProvider>
+              <ThemedApp />
+            </ThemeContextProvider>
+          </StatsProvider>
+        </AuthProvider>
       </StorageProvider>
     </QueryClientProvider>
   );
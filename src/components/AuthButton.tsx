@@ -0,0 +1,29 @@
+import { Button } from '@mond-design-system/theme';
+import { useNavigate } from 'react-router-dom';
+import { useAuth } from '../providers/useAuth';
+
+/**
+ * AuthButton Component
+ *
+ * Header control that links to sign-in for anonymous players
+ * and to the account page for signed-in players.
+ */
+export function AuthButton() {
+  const { user, isLoading } = useAuth();
+  const navigate = useNavigate();
+
+  // Avoid flashing "Sign in" while the session is being restored
+  if (isLoading) {
+    return null;
+  }
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      onClick={() => navigate(user ? '/account' : '/signin')}
+    >
+      {user ? 'Account' : 'Sign in'}
+    </Button>
+  );
+}
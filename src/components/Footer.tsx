@@ -14,6 +14,14 @@ export function Footer() {
         <Text size="2xs" semantic="secondary">
           |
         </Text>
+        <Link href="/archive">
+          <Text size="2xs" semantic="secondary">
+            Archive
+          </Text>
+        </Link>
+        <Text size="2xs" semantic="secondary">
+          |
+        </Text>
         <Link href="/about" target="_blank" rel="noopener noreferrer">
           <Text size="2xs" semantic="secondary">
             About
@@ -0,0 +1,45 @@
+import { useEffect } from 'react';
+import { useStatsMigration } from '../providers/useStatsMigration';
+import { useToast } from '../providers/useToast';
+import { formatDate } from '../utils/index';
+
+/**
+ * StatsMigrationNotice Component
+ *
+ * Tells the player what happened when their local stats were merged
+ * into their account on first sign-in. Renders nothing itself.
+ */
+export function StatsMigrationNotice() {
+  const migrationResult = useStatsMigration();
+  const { showSuccess, showWarning } = useToast();
+
+  useEffect(() => {
+    if (!migrationResult) return;
+
+    const { uploaded, conflicts, unresolved } = migrationResult;
+
+    if (uploaded.length > 0) {
+      showSuccess(
+        'Stats merged',
+        `Added ${uploaded.length} game${uploaded.length !== 1 ? 's' : ''} from this device to your account.`
+      );
+    }
+
+    if (conflicts.length > 0) {
+      const dates = conflicts.map((conflict) => formatDate(conflict.date)).join(', ');
+      showWarning(
+        'Some games did not match',
+        `Your account has a different result for ${dates}. The account result was kept.`
+      );
+    }
+
+    if (unresolved.length > 0) {
+      showWarning(
+        'Some games were not merged',
+        `${unresolved.length} game${unresolved.length !== 1 ? 's' : ''} from this device could not be matched to a puzzle.`
+      );
+    }
+  }, [migrationResult, showSuccess, showWarning]);
+
+  return null;
+}
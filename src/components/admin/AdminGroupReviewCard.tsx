@@ -0,0 +1,156 @@
+import { useState } from "react";
+import { Badge, Box, Button, Card, CardBody, Text } from "@mond-design-system/theme";
+import { Input, Select, Textarea } from "@mond-design-system/theme/client";
+import {
+  DIFFICULTY_COLORS,
+  DIFFICULTY_LABELS,
+  DIFFICULTY_TO_COLOR,
+} from "../../constants/difficulty";
+import type { DifficultyLevel, StoredGroup } from "../../lib/supabase/storage";
+
+const DIFFICULTY_OPTIONS = (Object.keys(DIFFICULTY_TO_COLOR) as DifficultyLevel[]).map(
+  (level) => ({
+    value: level,
+    label: `${DIFFICULTY_LABELS[DIFFICULTY_TO_COLOR[level]]} (${DIFFICULTY_TO_COLOR[level]})`,
+  }),
+);
+
+/**
+ * Admin edits made while reviewing a group
+ */
+export interface GroupReviewEdits {
+  connection: string;
+  difficulty: DifficultyLevel;
+}
+
+interface AdminGroupReviewCardProps {
+  group: StoredGroup;
+  isUpdating: boolean;
+  onApprove: (edits: GroupReviewEdits) => void;
+  onReject: (edits: GroupReviewEdits, reason: string) => void;
+}
+
+/**
+ * AdminGroupReviewCard Component
+ *
+ * One connection group in the review queue. The connection and difficulty
+ * can be corrected before approving; rejecting asks for a reason. Both
+ * need a connection, since it is saved with the feedback.
+ * Generated groups show why their films fit, when metadata explains it.
+ */
+export function AdminGroupReviewCard({
+  group,
+  isUpdating,
+  onApprove,
+  onReject,
+}: AdminGroupReviewCardProps) {
+  const [connection, setConnection] = useState(group.connection);
+  const [difficulty, setDifficulty] = useState<DifficultyLevel>(
+    group.difficulty ?? "medium",
+  );
+  const [isRejecting, setIsRejecting] = useState(false);
+  const [reason, setReason] = useState("");
+
+  const edits: GroupReviewEdits = { connection: connection.trim(), difficulty };
+  const rejectionReason = reason.trim();
+  const explanation =
+    typeof group.metadata?.explanation === "string" ? group.metadata.explanation : null;
+
+  return (
+    <Card variant="elevated">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="sm">
+          <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm">
+            <Box display="flex" alignItems="center" gap="xs">
+              <span
+                aria-hidden="true"
+                style={{
+                  display: "inline-block",
+                  width: "12px",
+                  height: "12px",
+                  borderRadius: "50%",
+                  backgroundColor: DIFFICULTY_COLORS[DIFFICULTY_TO_COLOR[difficulty]],
+                }}
+              />
+              <Text size="sm" semantic="secondary">
+                {group.connectionType} · score {group.difficultyScore} · used{" "}
+                {group.usageCount}×
+              </Text>
+            </Box>
+            <Badge variant="warning">{group.status}</Badge>
+          </Box>
+
+          <Input
+            label="Connection"
+            inputSize="sm"
+            value={connection}
+            onChange={(event) => setConnection(event.target.value)}
+          />
+          <Select
+            label="Difficulty"
+            size="sm"
+            options={DIFFICULTY_OPTIONS}
+            value={difficulty}
+            onChange={(value) => setDifficulty(value as DifficultyLevel)}
+          />
+
+          <Text size="sm">
+            {group.films.map((film) => `${film.title} (${film.year})`).join(", ")}
+          </Text>
+          {explanation && (
+            <Text size="sm" semantic="secondary">
+              {explanation}
+            </Text>
+          )}
+
+          {isRejecting && (
+            <Textarea
+              label="Rejection reason"
+              textareaSize="sm"
+              rows={2}
+              placeholder="e.g. connection too obscure, film doesn't fit"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+          )}
+
+          <Box display="flex" flexWrap="wrap" gap="xs">
+            {isRejecting ? (
+              <>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={isUpdating || !edits.connection || !rejectionReason}
+                  onClick={() => onReject(edits, rejectionReason)}
+                >
+                  Confirm Reject
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => setIsRejecting(false)}>
+                  Cancel
+                </Button>
+              </>
+            ) : (
+              <>
+                <Button
+                  size="sm"
+                  disabled={isUpdating || !edits.connection}
+                  onClick={() => onApprove(edits)}
+                >
+                  Approve
+                </Button>
+                <Button
+                  variant="destructive"
+                  size="sm"
+                  disabled={isUpdating || !edits.connection}
+                  onClick={() => setIsRejecting(true)}
+                >
+                  Reject
+                </Button>
+              </>
+            )}
+          </Box>
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Text,
+} from "@mond-design-system/theme";
+import { Input } from "@mond-design-system/theme/client";
+import { FilmGroupCard } from "../game/FilmGroupCard";
+import { RedHerringReport } from "./RedHerringReport";
+import { WrongGuessReport } from "./WrongGuessReport";
+import { formatDate, getTomorrowDate } from "../../utils/index";
+import type {
+  PuzzleStatus,
+  PuzzleUpdate,
+  StoredPuzzle,
+} from "../../lib/supabase/storage";
+
+const STATUS_BADGES: Record<
+  PuzzleStatus,
+  "warning" | "primary" | "success" | "error"
+> = {
+  pending: "warning",
+  approved: "primary",
+  published: "success",
+  rejected: "error",
+};
+
+interface AdminPuzzleCardProps {
+  puzzle: StoredPuzzle;
+  isUpdating: boolean;
+  onUpdate: (updates: PuzzleUpdate) => void;
+}
+
+/**
+ * AdminPuzzleCard Component
+ *
+ * One puzzle in the admin queue: summary, group preview and the
+ * workflow actions available for its status.
+ */
+export function AdminPuzzleCard({ puzzle, isUpdating, onUpdate }: AdminPuzzleCardProps) {
+  const [showPreview, setShowPreview] = useState(false);
+  const [publishDate, setPublishDate] = useState(puzzle.puzzleDate ?? getTomorrowDate());
+  const groups = puzzle.groups ?? [];
+
+  return (
+    <Card variant="elevated">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="sm">
+          <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm">
+            <Box display="flex" flexDirection="column">
+              <Text weight="semibold">{puzzle.title || "Untitled puzzle"}</Text>
+              <Text size="sm" semantic="secondary">
+                {puzzle.puzzleDate
+                  ? `Scheduled for ${formatDate(puzzle.puzzleDate)}`
+                  : "No date assigned"}
+                {" · "}
+                Created {new Date(puzzle.createdAt).toLocaleDateString()}
+              </Text>
+            </Box>
+            <Badge variant={STATUS_BADGES[puzzle.status]}>{puzzle.status}</Badge>
+          </Box>
+
+          <Text size="sm" semantic="secondary">
+            {groups.map((group) => group.connection).join(" · ") || "No groups found"}
+          </Text>
+
+          {showPreview && (
+            <Box display="flex" flexDirection="column" gap="xs">
+              {groups.map((group) => (
+                <FilmGroupCard key={group.id} group={group} />
+              ))}
+              <RedHerringReport groups={groups} />
+              {puzzle.status === "published" && (
+                <WrongGuessReport puzzleId={puzzle.id} groups={groups} />
+              )}
+            </Box>
+          )}
+
+          <Box display="flex" flexWrap="wrap" gap="xs" alignItems="flex-end">
+            <Button variant="ghost" size="sm" onClick={() => setShowPreview(!showPreview)}>
+              {showPreview ? "Hide Preview" : "Preview"}
+            </Button>
+
+            {(puzzle.status === "pending" || puzzle.status === "rejected") && (
+              <Button
+                size="sm"
+                disabled={isUpdating}
+                onClick={() => onUpdate({ status: "approved" })}
+              >
+                Approve
+              </Button>
+            )}
+
+            {(puzzle.status === "pending" || puzzle.status === "approved") && (
+              <Button
+                variant="destructive"
+                size="sm"
+                disabled={isUpdating}
+                onClick={() => onUpdate({ status: "rejected", puzzleDate: null })}
+              >
+                Reject
+              </Button>
+            )}
+
+            {puzzle.status === "approved" && (
+              <>
+                <Input
+                  type="date"
+                  inputSize="sm"
+                  aria-label="Publish date"
+                  value={publishDate}
+                  onChange={(event) => setPublishDate(event.target.value)}
+                />
+                <Button
+                  size="sm"
+                  disabled={isUpdating || !publishDate}
+                  onClick={() => onUpdate({ status: "published", puzzleDate: publishDate })}
+                >
+                  Publish
+                </Button>
+              </>
+            )}
+
+            {puzzle.status === "published" && (
+              <Button
+                variant="warning"
+                size="sm"
+                disabled={isUpdating}
+                onClick={() => onUpdate({ status: "approved", puzzleDate: null })}
+              >
+                Unpublish
+              </Button>
+            )}
+          </Box>
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
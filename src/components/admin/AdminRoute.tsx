@@ -0,0 +1,68 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Box, Spinner, Text } from "@mond-design-system/theme";
+import { Navigate } from "react-router-dom";
+import { isAdmin } from "../../lib/supabase/client";
+import { useAuth } from "../../providers/useAuth";
+
+interface AdminRouteProps {
+  children: ReactNode;
+}
+
+/**
+ * AdminRoute Component
+ *
+ * Renders its children only for signed-in admins (see the admin_users table).
+ * Anonymous visitors are sent to sign-in; other players see a notice.
+ */
+export function AdminRoute({ children }: AdminRouteProps) {
+  const { user, isLoading } = useAuth();
+  // Keyed by user id so a stale result is never used after switching accounts
+  const [adminCheck, setAdminCheck] = useState<{ userId: string; allowed: boolean } | null>(
+    null,
+  );
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+
+    isAdmin()
+      .then((allowed) => {
+        if (!cancelled) {
+          setAdminCheck({ userId: user.id, allowed });
+        }
+      })
+      .catch((error) => {
+        console.error("Failed to check admin access:", error);
+        if (!cancelled) {
+          setAdminCheck({ userId: user.id, allowed: false });
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  if (!isLoading && !user) {
+    return <Navigate to="/signin" replace />;
+  }
+
+  if (isLoading || !user || adminCheck?.userId !== user.id) {
+    return (
+      <Box display="flex" justifyContent="center">
+        <Spinner size="lg" />
+      </Box>
+    );
+  }
+
+  if (!adminCheck.allowed) {
+    return (
+      <Box display="flex" flexDirection="column" alignItems="center" gap="sm">
+        <Text>You don&apos;t have access to this page.</Text>
+      </Box>
+    );
+  }
+
+  return <>{children}</>;
+}
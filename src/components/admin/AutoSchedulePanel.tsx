@@ -0,0 +1,96 @@
+import { Box, Button, Card, CardBody, Text } from "@mond-design-system/theme";
+import { formatDate } from "../../utils/index";
+import type { AutoScheduleResult } from "../../services/scheduling/autoScheduler";
+import "./Schedule.css";
+
+interface AutoSchedulePanelProps {
+  bufferDays: number;
+  // Latest dry run, if any
+  plan: AutoScheduleResult | null;
+  isRunning: boolean;
+  onPreview: () => void;
+  onPublish: () => void;
+  onDiscard: () => void;
+}
+
+/**
+ * AutoSchedulePanel Component
+ *
+ * Previews and publishes the auto-scheduler's plan for filling
+ * empty days in the upcoming buffer.
+ */
+export function AutoSchedulePanel({
+  bufferDays,
+  plan,
+  isRunning,
+  onPreview,
+  onPublish,
+  onDiscard,
+}: AutoSchedulePanelProps) {
+  return (
+    <Card variant="subtle">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="sm">
+          <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm">
+            <Text weight="semibold">Auto-schedule the next {bufferDays} days</Text>
+            {!plan && (
+              <Button variant="outline" size="sm" disabled={isRunning} onClick={onPreview}>
+                Preview Plan
+              </Button>
+            )}
+          </Box>
+
+          {plan && plan.assignments.length === 0 && (
+            <Text size="sm" semantic="secondary">
+              {plan.unfilledDates.length > 0
+                ? "No approved puzzles left to schedule."
+                : "Every day in the buffer already has a puzzle."}
+            </Text>
+          )}
+
+          {plan && plan.assignments.length > 0 && (
+            <ul className="schedule-plan">
+              {plan.assignments.map((assignment) => (
+                <li key={assignment.date}>
+                  <Text size="sm">
+                    {formatDate(assignment.date)}: {assignment.title || "Untitled puzzle"}
+                    {assignment.connectionTypes.length > 0 &&
+                      ` (${assignment.connectionTypes.join(", ")})`}
+                  </Text>
+                  {assignment.repeatedConnectionTypes.length > 0 && (
+                    <Text size="sm" semantic="warning">
+                      Repeats {assignment.repeatedConnectionTypes.join(", ")} from a neighbouring
+                      day
+                    </Text>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {plan && plan.unfilledDates.length > 0 && (
+            <Text size="sm" semantic="warning">
+              Still empty: {plan.unfilledDates.map(formatDate).join(", ")}
+            </Text>
+          )}
+
+          {plan && (
+            <Box display="flex" gap="xs">
+              <Button
+                variant="primary"
+                size="sm"
+                disabled={isRunning || plan.assignments.length === 0}
+                onClick={onPublish}
+              >
+                Publish Plan
+              </Button>
+              <Button variant="ghost" size="sm" disabled={isRunning} onClick={onDiscard}>
+                Discard
+              </Button>
+            </Box>
+          )}
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
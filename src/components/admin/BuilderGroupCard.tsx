@@ -0,0 +1,64 @@
+import { Box, Button, Card, CardBody, Text } from "@mond-design-system/theme";
+import { DIFFICULTY_COLORS } from "../../constants/difficulty";
+import type { StoredGroup } from "../../lib/supabase/storage";
+import { GROUP_DRAG_TYPE } from "../../services/puzzle/builder";
+import "./PuzzleBuilder.css";
+
+interface BuilderGroupCardProps {
+  group: StoredGroup;
+  isPlaced: boolean;
+  onAdd: () => void;
+}
+
+/**
+ * BuilderGroupCard Component
+ *
+ * An approved group in the builder's search results.
+ * Can be dragged onto a slot, or added to its own color's slot.
+ */
+export function BuilderGroupCard({ group, isPlaced, onAdd }: BuilderGroupCardProps) {
+  return (
+    <div
+      className="builder-group"
+      draggable
+      onDragStart={(event) => {
+        event.dataTransfer.setData(GROUP_DRAG_TYPE, group.id);
+        event.dataTransfer.effectAllowed = "move";
+      }}
+    >
+      <Card variant="elevated">
+        <CardBody>
+          <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm">
+            <Box display="flex" flexDirection="column">
+              <Box display="flex" alignItems="center" gap="xs">
+                <span
+                  aria-hidden="true"
+                  style={{
+                    display: "inline-block",
+                    width: "10px",
+                    height: "10px",
+                    borderRadius: "50%",
+                    backgroundColor: group.color ? DIFFICULTY_COLORS[group.color] : "transparent",
+                    border: group.color ? "none" : "1px solid currentColor",
+                  }}
+                />
+                <Text weight="semibold" size="sm">
+                  {group.connection}
+                </Text>
+              </Box>
+              <Text size="sm" semantic="secondary">
+                {group.films.map((film) => film.title).join(", ")}
+              </Text>
+              <Text size="xs" semantic="secondary">
+                Used {group.usageCount}×
+              </Text>
+            </Box>
+            <Button variant="ghost" size="sm" disabled={isPlaced} onClick={onAdd}>
+              {isPlaced ? "Added" : "Add"}
+            </Button>
+          </Box>
+        </CardBody>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import { Box, Button, Text } from "@mond-design-system/theme";
+import { DIFFICULTY_COLORS, DIFFICULTY_LABELS } from "../../constants/difficulty";
+import type { DifficultyColor, StoredGroup } from "../../lib/supabase/storage";
+import { GROUP_DRAG_TYPE } from "../../services/puzzle/builder";
+import "./PuzzleBuilder.css";
+
+interface BuilderSlotProps {
+  color: DifficultyColor;
+  group: StoredGroup | null;
+  onDropGroup: (groupId: string) => void;
+  onClear: () => void;
+}
+
+/**
+ * BuilderSlot Component
+ *
+ * Drop target for the group of one difficulty color.
+ */
+export function BuilderSlot({ color, group, onDropGroup, onClear }: BuilderSlotProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  return (
+    <div
+      className={`builder-slot${isDragOver ? " drag-over" : ""}`}
+      style={{ backgroundColor: group ? DIFFICULTY_COLORS[color] : undefined }}
+      onDragOver={(event) => {
+        if (event.dataTransfer.types.includes(GROUP_DRAG_TYPE)) {
+          event.preventDefault();
+          setIsDragOver(true);
+        }
+      }}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={(event) => {
+        event.preventDefault();
+        setIsDragOver(false);
+        const groupId = event.dataTransfer.getData(GROUP_DRAG_TYPE);
+        if (groupId) {
+          onDropGroup(groupId);
+        }
+      }}
+    >
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Text size="sm" weight="semibold" color={group ? "black.900" : undefined}>
+          {DIFFICULTY_LABELS[color]} ({color})
+        </Text>
+        {group && (
+          <Button variant="ghost" size="sm" onClick={onClear} aria-label={`Clear ${color} slot`}>
+            ✕
+          </Button>
+        )}
+      </Box>
+      {group ? (
+        <>
+          <Text weight="semibold" color="black.900">
+            {group.connection}
+          </Text>
+          <Text size="sm" color="black.900">
+            {group.films.map((film) => film.title).join(", ")}
+          </Text>
+        </>
+      ) : (
+        <Text size="sm" semantic="secondary">
+          Drop a {color} group here
+        </Text>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,88 @@
+import { Badge, Box, Button, Card, CardBody, Text } from "@mond-design-system/theme";
+import { DIFFICULTY_COLORS, DIFFICULTY_LABELS } from "../../constants/difficulty";
+import type { DifficultyColor } from "../../types";
+import type { GroupCalibration } from "../../services/calibration/difficultyCalibration";
+
+interface GroupCalibrationCardProps {
+  calibration: GroupCalibration;
+  isUpdating: boolean;
+  // Only offered when the measured difficulty suggests another color
+  onRecolor?: (color: DifficultyColor) => void;
+}
+
+const percent = (rate: number) => `${Math.round(rate * 100)}%`;
+
+function ColorDot({ color }: { color: DifficultyColor | null }) {
+  return (
+    <span
+      aria-hidden="true"
+      style={{
+        display: "inline-block",
+        width: "12px",
+        height: "12px",
+        borderRadius: "50%",
+        backgroundColor: color ? DIFFICULTY_COLORS[color] : "transparent",
+      }}
+    />
+  );
+}
+
+/**
+ * GroupCalibrationCard Component
+ *
+ * How a group plays in real games next to its assigned difficulty,
+ * with the option to re-color it.
+ */
+export function GroupCalibrationCard({
+  calibration,
+  isUpdating,
+  onRecolor,
+}: GroupCalibrationCardProps) {
+  const { currentColor, suggestedColor } = calibration;
+
+  return (
+    <Card variant="elevated">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="xs">
+          <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm">
+            <Box display="flex" alignItems="center" gap="xs">
+              <ColorDot color={currentColor} />
+              <Text weight="semibold">{calibration.connection}</Text>
+            </Box>
+            <Badge variant="default" size="sm">
+              {calibration.plays} games
+            </Badge>
+          </Box>
+
+          <Text size="sm" semantic="secondary">
+            Solved {percent(calibration.solveRate)}
+            {calibration.averageSolveOrder !== null &&
+              ` · usually solved ${calibration.averageSolveOrder.toFixed(1)} of 4`}
+            {" · "}one away {percent(calibration.oneAwayRate)}
+          </Text>
+          <Text size="sm">
+            Score {calibration.currentScore} → {calibration.calibratedScore}
+          </Text>
+
+          {onRecolor && (
+            <Box display="flex" alignItems="center" gap="xs">
+              <ColorDot color={suggestedColor} />
+              <Text size="sm" semantic="warning">
+                Plays like {DIFFICULTY_LABELS[suggestedColor]}
+                {currentColor && `, not ${DIFFICULTY_LABELS[currentColor]}`}
+              </Text>
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={isUpdating}
+                onClick={() => onRecolor(suggestedColor)}
+              >
+                Recolor
+              </Button>
+            </Box>
+          )}
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
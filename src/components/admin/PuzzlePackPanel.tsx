@@ -0,0 +1,83 @@
+import { Box, Button, Card, CardBody, Text } from "@mond-design-system/theme";
+import type { PackImportEntry, PackImportReport } from "../../services/puzzle/pack";
+
+interface PuzzlePackPanelProps {
+  // Latest import result, if any
+  report: PackImportReport | null;
+  isBusy: boolean;
+  onExport: () => void;
+  // Called with the contents of the chosen file
+  onImport: (contents: string) => void;
+  onDismissReport: () => void;
+}
+
+const describeEntry = (entry: PackImportEntry) =>
+  `${entry.title || "Untitled puzzle"}${entry.reason ? `: ${entry.reason}` : ""}`;
+
+/**
+ * PuzzlePackPanel Component
+ *
+ * Exports puzzles to a JSON pack and imports packs from another
+ * environment, listing what was created, skipped or conflicted.
+ */
+export function PuzzlePackPanel({
+  report,
+  isBusy,
+  onExport,
+  onImport,
+  onDismissReport,
+}: PuzzlePackPanelProps) {
+  return (
+    <Card variant="subtle">
+      <CardBody>
+        <Box display="flex" flexDirection="column" gap="sm">
+          <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm">
+            <Text weight="semibold">Puzzle packs</Text>
+            <Box display="flex" alignItems="center" gap="xs">
+              <Button variant="outline" size="sm" disabled={isBusy} onClick={onExport}>
+                Export
+              </Button>
+              <input
+                type="file"
+                accept="application/json,.json"
+                aria-label="Import puzzle pack"
+                disabled={isBusy}
+                onChange={(event) => {
+                  const file = event.target.files?.[0];
+                  // Reset so the same file can be chosen again
+                  event.target.value = "";
+                  file?.text().then(onImport);
+                }}
+              />
+            </Box>
+          </Box>
+
+          {report && (
+            <>
+              <Text size="sm">
+                Created {report.created.length}, skipped {report.skipped.length}, conflicts{" "}
+                {report.conflicts.length}. Groups: {report.groupsCreated} new,{" "}
+                {report.groupsReused} reused.
+              </Text>
+              {report.skipped.map((entry) => (
+                <Text key={`skipped-${entry.sourceId}`} size="sm" semantic="secondary">
+                  Skipped {describeEntry(entry)}
+                </Text>
+              ))}
+              {report.conflicts.map((entry) => (
+                <Text key={`conflict-${entry.sourceId}`} size="sm" semantic="warning">
+                  Conflict {describeEntry(entry)}
+                </Text>
+              ))}
+              <Box display="flex">
+                <Button variant="ghost" size="sm" onClick={onDismissReport}>
+                  Dismiss
+                </Button>
+              </Box>
+            </>
+          )}
+        </Box>
+      </CardBody>
+    </Card>
+  );
+}
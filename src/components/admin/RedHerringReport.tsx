@@ -0,0 +1,60 @@
+import { Box, Text } from "@mond-design-system/theme";
+import {
+  findAttributeOverlaps,
+  type AnalyzableGroup,
+  type OverlapAttribute,
+} from "../../services/puzzle/redHerrings";
+
+const ATTRIBUTE_LABELS: Record<OverlapAttribute, string> = {
+  director: "director",
+  cast: "cast member",
+  genre: "genre",
+  decade: "decade",
+};
+
+interface RedHerringReportProps {
+  groups: AnalyzableGroup[];
+}
+
+/**
+ * RedHerringReport Component
+ *
+ * Lists films that share a trait with another group of the puzzle,
+ * split into likely ambiguities and intentional-looking red herrings.
+ */
+export function RedHerringReport({ groups }: RedHerringReportProps) {
+  const overlaps = findAttributeOverlaps(groups);
+  const connections = new Map(groups.map((group) => [group.id, group.connection]));
+  const ambiguityCount = overlaps.filter((overlap) => overlap.kind === "ambiguity").length;
+
+  if (overlaps.length === 0) {
+    return (
+      <Text size="sm" semantic="secondary">
+        No overlaps between groups. This puzzle may play easier than its colors suggest.
+      </Text>
+    );
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap="xxs">
+      <Text size="sm" weight="semibold">
+        {overlaps.length - ambiguityCount} red herring
+        {overlaps.length - ambiguityCount !== 1 ? "s" : ""}, {ambiguityCount} possible
+        ambiguit{ambiguityCount !== 1 ? "ies" : "y"}
+      </Text>
+      {overlaps.map((overlap) => (
+        <Text
+          key={`${overlap.film.id}-${overlap.otherGroupId}-${overlap.attribute}-${overlap.value}`}
+          size="sm"
+          semantic={overlap.kind === "ambiguity" ? "warning" : "secondary"}
+        >
+          {overlap.kind === "ambiguity" ? "⚠ " : "• "}
+          {overlap.film.title} ({connections.get(overlap.groupId)}) shares{" "}
+          {ATTRIBUTE_LABELS[overlap.attribute]} {overlap.value} with &quot;
+          {overlap.otherConnection}&quot; ({overlap.matchCount}/
+          {groups.find((group) => group.id === overlap.otherGroupId)?.films.length})
+        </Text>
+      ))}
+    </Box>
+  );
+}
@@ -0,0 +1,127 @@
+import { useState } from "react";
+import { Badge, Box, Button, Text } from "@mond-design-system/theme";
+import { Select } from "@mond-design-system/theme/client";
+import { formatDate } from "../../utils/index";
+import type { StoredPuzzle } from "../../lib/supabase/storage";
+import type { ScheduleDay } from "../../services/scheduling/calendar";
+import "./Schedule.css";
+
+interface ScheduleDayCardProps {
+  day: ScheduleDay;
+  approvedPuzzles: StoredPuzzle[];
+  // Date of the day picked as the first half of a swap
+  swapSource: string | null;
+  isUpdating: boolean;
+  onAssign: (puzzle: StoredPuzzle) => void;
+  onStartSwap: () => void;
+  onSwapHere: () => void;
+  onCancelSwap: () => void;
+}
+
+const puzzleLabel = (puzzle: StoredPuzzle) =>
+  puzzle.title ||
+  puzzle.groups?.map((group) => group.connection).join(" · ") ||
+  "Untitled puzzle";
+
+/**
+ * ScheduleDayCard Component
+ *
+ * One day in the admin schedule: its puzzle or gap, and the
+ * assign and swap actions the day allows.
+ */
+export function ScheduleDayCard({
+  day,
+  approvedPuzzles,
+  swapSource,
+  isUpdating,
+  onAssign,
+  onStartSwap,
+  onSwapHere,
+  onCancelSwap,
+}: ScheduleDayCardProps) {
+  const [selectedId, setSelectedId] = useState("");
+  const selected = approvedPuzzles.find((puzzle) => puzzle.id === selectedId);
+  const isSwapSource = swapSource === day.date;
+  const canSwapHere = swapSource !== null && !isSwapSource && !day.isLocked;
+
+  const className = [
+    "schedule-day",
+    day.isGap ? "gap" : "",
+    day.isLocked ? "locked" : "",
+    isSwapSource ? "swap-source" : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+
+  return (
+    <div className={className}>
+      <Box display="flex" justifyContent="space-between" alignItems="center" gap="xs">
+        <Text size="sm" weight="semibold">
+          {formatDate(day.date)}
+        </Text>
+        {day.puzzle && (
+          <Badge variant={day.isLocked ? "outline" : "success"} size="sm">
+            {day.isLocked ? "Locked" : "Published"}
+          </Badge>
+        )}
+        {day.isGap && (
+          <Badge variant="warning" size="sm">
+            Gap
+          </Badge>
+        )}
+      </Box>
+
+      {day.puzzle ? (
+        <Text size="sm" semantic="secondary">
+          {puzzleLabel(day.puzzle)}
+        </Text>
+      ) : (
+        <Text size="sm" semantic="disabled">
+          {day.isGap ? "No puzzle scheduled" : "No puzzle"}
+        </Text>
+      )}
+
+      {day.isGap && swapSource === null && (
+        <Box display="flex" gap="xs" alignItems="flex-end">
+          <Select
+            size="sm"
+            placeholder="Approved puzzle"
+            options={approvedPuzzles.map((puzzle) => ({
+              value: puzzle.id,
+              label: puzzleLabel(puzzle),
+            }))}
+            value={selectedId}
+            onChange={setSelectedId}
+            disabled={approvedPuzzles.length === 0}
+          />
+          <Button
+            variant="primary"
+            size="sm"
+            disabled={!selected || isUpdating}
+            onClick={() => selected && onAssign(selected)}
+          >
+            Assign
+          </Button>
+        </Box>
+      )}
+
+      {day.puzzle && !day.isLocked && swapSource === null && (
+        <Button variant="outline" size="sm" disabled={isUpdating} onClick={onStartSwap}>
+          Swap
+        </Button>
+      )}
+
+      {isSwapSource && (
+        <Button variant="ghost" size="sm" onClick={onCancelSwap}>
+          Cancel Swap
+        </Button>
+      )}
+
+      {canSwapHere && (
+        <Button variant="primary" size="sm" disabled={isUpdating} onClick={onSwapHere}>
+          {day.puzzle ? "Swap Here" : "Move Here"}
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,71 @@
+import { Box, Text } from "@mond-design-system/theme";
+import { useGameplayStorage } from "../../providers/useGameplayStorage";
+import { useGameplayList } from "../../lib/supabase/storage";
+import { findCommonWrongGuesses } from "../../services/puzzle/wrongGuesses";
+import type { Group } from "../../types";
+
+interface WrongGuessReportProps {
+  puzzleId: string;
+  groups: Group[];
+}
+
+/**
+ * WrongGuessReport Component
+ *
+ * Lists the wrong combinations players tried most often on a published
+ * puzzle, with the group a guess was one away from.
+ */
+export function WrongGuessReport({ puzzleId, groups }: WrongGuessReportProps) {
+  const gameplayStorage = useGameplayStorage();
+  const { data: games, isLoading, error } = useGameplayList({ puzzleId }, gameplayStorage);
+
+  if (isLoading) {
+    return (
+      <Text size="sm" semantic="secondary">
+        Loading player guesses...
+      </Text>
+    );
+  }
+
+  if (error || !games) {
+    return (
+      <Text size="sm" semantic="error">
+        Failed to load player guesses
+      </Text>
+    );
+  }
+
+  const report = findCommonWrongGuesses(games, groups);
+
+  if (report.commonGuesses.length === 0) {
+    return (
+      <Text size="sm" semantic="secondary">
+        {report.gamesAnalyzed === 0
+          ? "No recorded guesses for this puzzle yet."
+          : "No wrong guesses recorded for this puzzle."}
+      </Text>
+    );
+  }
+
+  const titles = new Map(
+    groups.flatMap((group) => group.films.map((film) => [film.id, film.title] as const))
+  );
+  const connections = new Map(groups.map((group) => [group.id, group.connection]));
+
+  return (
+    <Box display="flex" flexDirection="column" gap="xxs">
+      <Text size="sm" weight="semibold">
+        Most common wrong guesses ({report.totalWrongGuesses} across {report.gamesAnalyzed} game
+        {report.gamesAnalyzed !== 1 ? "s" : ""})
+      </Text>
+      {report.commonGuesses.map((guess) => (
+        <Text key={guess.filmIds.join("-")} size="sm" semantic="secondary">
+          • {guess.filmIds.map((id) => titles.get(id) ?? `#${id}`).join(", ")}:{" "}
+          {guess.count} ({Math.round(guess.share * 100)}%)
+          {guess.oneAwayGroupId &&
+            `, one away from "${connections.get(guess.oneAwayGroupId)}"`}
+        </Text>
+      ))}
+    </Box>
+  );
+}
@@ -76,6 +76,19 @@ export const Purple: Story = {
   },
 };
 
+export const Revealed: Story = {
+  args: {
+    group: {
+      id: '4',
+      films: mockFilms,
+      connection: 'Films with memorable soundtracks',
+      difficulty: 'hardest',
+      color: 'purple',
+    },
+    isRevealed: true,
+  },
+};
+
 export const LongConnection: Story = {
   args: {
     group: {
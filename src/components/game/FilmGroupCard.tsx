@@ -4,12 +4,15 @@ import "./FilmGroupCard.css";
 import { getTextLengthProps } from "../../utils";
 interface FilmGroupCardProps {
   group: Group;
+  isRevealed?: boolean; // Shown automatically after a loss rather than solved
 }
 
-export function FilmGroupCard({ group }: FilmGroupCardProps) {
+export function FilmGroupCard({ group, isRevealed = false }: FilmGroupCardProps) {
   const textLengthProps = getTextLengthProps(group.connection);
   return (
-    <Card className={`film-group-card ${group.color}`}>
+    <Card
+      className={`film-group-card ${group.color}${isRevealed ? " revealed" : ""}`}
+    >
       <Box
         display="flex"
         flexDirection="column"
@@ -61,6 +61,7 @@ function StoreInitializer({
   films,
   groups,
   foundGroups = [],
+  revealedGroupIds = [],
   selectedFilmIds = [],
   mistakes = 0,
   gameStatus = "playing",
@@ -68,6 +69,7 @@ function StoreInitializer({
   films: Film[];
   groups: Group[];
   foundGroups?: Group[];
+  revealedGroupIds?: string[];
   selectedFilmIds?: number[];
   mistakes?: number;
   gameStatus?: "playing" | "won" | "lost";
@@ -77,6 +79,7 @@ function StoreInitializer({
       films,
       groups,
       foundGroups,
+      revealedGroupIds,
       selectedFilmIds,
       mistakes,
       gameStatus,
@@ -84,9 +87,20 @@ function StoreInitializer({
       notification: null,
       puzzleDate: "2024-01-15",
       previousGuesses: [],
+      guessLog: [],
+      elapsedMs: 0,
+      activeSince: null,
       isLoading: false,
     });
-  }, [films, groups, foundGroups, selectedFilmIds, mistakes, gameStatus]);
+  }, [
+    films,
+    groups,
+    foundGroups,
+    revealedGroupIds,
+    selectedFilmIds,
+    mistakes,
+    gameStatus,
+  ]);
 
   return null;
 }
@@ -200,3 +214,24 @@ export const Completed: Story = {
   ],
 };
 
+
+export const Lost: Story = {
+  args: {
+    onViewStats: () => {},
+  },
+  decorators: [
+    (Story) => (
+      <>
+        <StoreInitializer
+          films={[]}
+          groups={mockGroups}
+          foundGroups={[mockGroups[1], mockGroups[0], mockGroups[2], mockGroups[3]]}
+          revealedGroupIds={[mockGroups[2].id, mockGroups[3].id]}
+          gameStatus="lost"
+          mistakes={4}
+        />
+        <Story />
+      </>
+    ),
+  ],
+};
@@ -18,12 +18,14 @@ export function GameBoard({ onViewStats }: GameBoardProps) {
   const {
     films,
     foundGroups,
+    revealedGroupIds,
     selectedFilmIds,
     mistakes,
     notification,
     gameStatus,
     isShaking,
     puzzleDate,
+    mode,
     selectFilm,
     deselectAll,
     submitGuess,
@@ -48,13 +50,18 @@ export function GameBoard({ onViewStats }: GameBoardProps) {
         <GameHeader
           gameStatus={gameStatus}
           puzzleDate={puzzleDate || undefined}
+          mode={mode}
         />
 
         {/* Found groups as colored rows */}
         {foundGroups.length > 0 && (
           <div className="found-groups-container">
             {foundGroups.map((group) => (
-              <FilmGroupCard key={group.id} group={group} />
+              <FilmGroupCard
+                key={group.id}
+                group={group}
+                isRevealed={revealedGroupIds.includes(group.id)}
+              />
             ))}
           </div>
         )}
@@ -24,6 +24,14 @@ export const Playing: Story = {
   },
 };
 
+export const Fallback: Story = {
+  args: {
+    gameStatus: "playing",
+    puzzleDate: "2024-01-15",
+    mode: "fallback",
+  },
+};
+
 export const NoPuzzleDate: Story = {
   args: {
     gameStatus: "playing",
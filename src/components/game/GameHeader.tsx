@@ -1,17 +1,20 @@
 import { Box, Heading, Text } from "@mond-design-system/theme";
 import { SITE_NAME } from "../../constants";
 import { formatPuzzleHeader } from "../../utils/index";
+import type { GameMode } from "../../types";
 import { CountdownTimer } from "./CountdownTimer";
 import "./GameHeader.css";
 
 interface GameHeaderProps {
   gameStatus: "playing" | "won" | "lost";
   puzzleDate?: string; // YYYY-MM-DD format
+  mode?: GameMode;
 }
 
 export function GameHeader({
   gameStatus,
   puzzleDate,
+  mode = "daily",
 }: GameHeaderProps) {
   return (
     <Box display="flex" flexDirection="column">
@@ -19,6 +22,12 @@ export function GameHeader({
         {puzzleDate ? formatPuzzleHeader(puzzleDate) : SITE_NAME}
       </Heading>
 
+      {mode === "fallback" && (
+        <Text align="center" size="sm" semantic="warning">
+          No new puzzle today, so here's one from the archive. It won't affect your streak.
+        </Text>
+      )}
+
       {gameStatus === "playing" ? (
         <Text align="center" size="xs">
           Create four groups of four!
@@ -0,0 +1,47 @@
+import { Box, Text } from "@mond-design-system/theme";
+import type { GameResult } from "../../types";
+import { getBucketKey, getMistakeDistribution } from "../../utils/stats";
+import "./GuessDistribution.css";
+
+interface GuessDistributionProps {
+  gameHistory: GameResult[];
+  highlightDate?: string; // YYYY-MM-DD of the game whose bar is highlighted
+}
+
+export function GuessDistribution({
+  gameHistory,
+  highlightDate,
+}: GuessDistributionProps) {
+  const buckets = getMistakeDistribution(gameHistory);
+  const maxCount = Math.max(1, ...buckets.map((bucket) => bucket.count));
+  const highlightedGame = highlightDate
+    ? gameHistory.find((game) => game.date === highlightDate)
+    : undefined;
+  const highlightedKey = highlightedGame ? getBucketKey(highlightedGame) : null;
+
+  return (
+    <Box display="flex" flexDirection="column" gap="xs">
+      <Text size="sm" weight="semibold">
+        Mistake Distribution
+      </Text>
+      <div className="guess-distribution">
+        {buckets.map((bucket) => (
+          <div key={bucket.key} className="distribution-row">
+            <span
+              className="distribution-label"
+              aria-label={bucket.key === "lost" ? "Lost" : `${bucket.key} mistakes`}
+            >
+              {bucket.label}
+            </span>
+            <div
+              className={`distribution-bar${bucket.key === highlightedKey ? " highlighted" : ""}`}
+              style={{ width: `${(bucket.count / maxCount) * 100}%` }}
+            >
+              {bucket.count}
+            </div>
+          </div>
+        ))}
+      </div>
+    </Box>
+  );
+}
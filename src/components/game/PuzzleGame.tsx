@@ -0,0 +1,256 @@
+import { useEffect, useState } from "react";
+import { Box, Spinner, Text } from "@mond-design-system/theme";
+import { useGameStore } from "../../store/gameStore";
+import { GameBoard } from "./GameBoard";
+import { ResultsModal } from "./ResultsModal";
+import { useStorage } from "../../providers/useStorage";
+import { useStats } from "../../providers/useStats";
+import { useArchive } from "../../providers/useArchive";
+import { useDailyPuzzle } from "../../lib/supabase/storage";
+import { trackEvent, EVENTS } from "../../services/analytics";
+import type { GameMode, GameResult } from "../../types";
+
+interface PuzzleGameProps {
+  puzzleDate: string; // YYYY-MM-DD format
+  mode: GameMode;
+}
+
+/**
+ * Loads and plays the published puzzle for a date.
+ *
+ * Daily games are recorded to stats storage; archive games are recorded
+ * to archive storage so they never affect streaks.
+ */
+export function PuzzleGame({ puzzleDate, mode }: PuzzleGameProps) {
+  const {
+    gameStatus,
+    groups,
+    mistakes,
+    guessLog,
+    elapsedMs,
+    puzzleDate: loadedPuzzleDate,
+    mode: loadedMode,
+    initializeGame,
+    resumeGame,
+    restoreCompletedGame,
+    pauseTimer,
+    resumeTimer,
+  } = useGameStore();
+  const [resultsDismissed, setResultsDismissed] = useState(false);
+  const [recordedDate, setRecordedDate] = useState<string | null>(null);
+  const [alreadyPlayed, setAlreadyPlayed] = useState<GameResult | null>(null);
+  const [statsLoaded, setStatsLoaded] = useState(false);
+
+  // Get storage and load the puzzle
+  const storage = useStorage();
+  const stats = useStats();
+  const archive = useArchive();
+  const { data: puzzle, isLoading, error } = useDailyPuzzle(puzzleDate, 'films', storage);
+
+  // Check if user has already played this puzzle
+  useEffect(() => {
+    const loadHistory =
+      mode === "daily"
+        ? stats.getStats().then((userStats) => userStats.gameHistory)
+        : Promise.all([stats.getStats(), archive.getArchiveHistory()]).then(
+            ([userStats, archiveHistory]) => [
+              ...userStats.gameHistory,
+              ...archiveHistory,
+            ],
+          );
+
+    loadHistory
+      .then((history) => {
+        const playedGame = history.find((game) => game.date === puzzleDate);
+        if (playedGame) {
+          setAlreadyPlayed(playedGame);
+        }
+        setStatsLoaded(true);
+      })
+      .catch(() => {
+        setStatsLoaded(true);
+      });
+  }, [stats, archive, mode, puzzleDate]);
+
+  // Initialize game when puzzle loads (only if not already played)
+  useEffect(() => {
+    if (puzzle && statsLoaded && !alreadyPlayed) {
+      // Pick up where the player left off if the tab was reloaded mid-game
+      if (mode === "daily" && resumeGame(puzzle.films, puzzle.groups, puzzleDate)) {
+        trackEvent(EVENTS.GAME_RESUMED, {
+          puzzleId: puzzle.id,
+          puzzleDate,
+          mistakesSoFar: useGameStore.getState().mistakes,
+        });
+        return;
+      }
+
+      initializeGame(puzzle.films, puzzle.groups, puzzleDate, mode);
+      trackEvent(EVENTS.GAME_STARTED, {
+        puzzleId: puzzle.id,
+        puzzleDate,
+        mode,
+      });
+    } else if (puzzle && statsLoaded && alreadyPlayed) {
+      // Restore completed game state for display
+      restoreCompletedGame(puzzle.groups, alreadyPlayed, mode);
+      trackEvent(EVENTS.GAME_RESUMED, {
+        puzzleId: puzzle.id,
+        puzzleDate,
+        mistakesSoFar: alreadyPlayed.mistakes,
+      });
+    }
+  }, [
+    puzzle,
+    statsLoaded,
+    alreadyPlayed,
+    initializeGame,
+    resumeGame,
+    restoreCompletedGame,
+    puzzleDate,
+    mode,
+  ]);
+
+  // Only count play time while the tab is visible
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "hidden") {
+        pauseTimer();
+      } else {
+        resumeTimer();
+      }
+    };
+
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, [pauseTimer, resumeTimer]);
+
+  // The store may still hold a different puzzle while this one loads
+  const isCurrentPuzzle = loadedPuzzleDate === puzzleDate && loadedMode === mode;
+
+  // Record game completion when game ends
+  useEffect(() => {
+    const isGameOver = gameStatus === "won" || gameStatus === "lost";
+    const notYetRecorded = recordedDate !== puzzleDate;
+
+    if (puzzle && isCurrentPuzzle && isGameOver && notYetRecorded && !alreadyPlayed) {
+      const result: GameResult = {
+        date: puzzleDate,
+        puzzleId: puzzle.id,
+        won: gameStatus === "won",
+        mistakes,
+        completedAt: Date.now(),
+        guesses: guessLog,
+        timeTakenSeconds: Math.round(elapsedMs / 1000),
+      };
+
+      const record =
+        mode === "daily"
+          ? stats.recordCompletion(result)
+          : archive.recordArchiveCompletion(result);
+
+      record
+        .then(() => {
+          setRecordedDate(puzzleDate);
+        })
+        .catch((error) => {
+          console.error("Failed to record game completion:", error);
+        });
+    }
+  }, [
+    puzzle,
+    isCurrentPuzzle,
+    gameStatus,
+    recordedDate,
+    alreadyPlayed,
+    puzzleDate,
+    mode,
+    mistakes,
+    guessLog,
+    elapsedMs,
+    stats,
+    archive,
+  ]);
+
+  // Derive modal visibility from game status and dismissal state
+  const showResults =
+    (gameStatus === "won" || gameStatus === "lost") && !resultsDismissed;
+
+  const handleCloseResults = () => {
+    setResultsDismissed(true);
+  };
+
+  if (isLoading || !statsLoaded || (puzzle && !isCurrentPuzzle)) {
+    return (
+      <div>
+        <Box
+          display="flex"
+          flexDirection="column"
+          alignItems="center"
+          justifyContent="center"
+          gap="lg"
+        >
+          <Spinner size="lg" />
+          <Text>
+            {mode === "daily" ? "Loading today's puzzle..." : "Loading puzzle..."}
+          </Text>
+        </Box>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div>
+        <Box
+          display="flex"
+          flexDirection="column"
+          alignItems="center"
+          justifyContent="center"
+          gap="lg"
+        >
+          <Text>Failed to load puzzle</Text>
+          <Text semantic="secondary">{error.message}</Text>
+        </Box>
+      </div>
+    );
+  }
+
+  if (!puzzle || !groups.length) {
+    return (
+      <div>
+        <Box
+          display="flex"
+          flexDirection="column"
+          alignItems="center"
+          justifyContent="center"
+          gap="lg"
+        >
+          <Text>
+            {mode === "daily"
+              ? "No puzzle available for today"
+              : "No puzzle available for this date"}
+          </Text>
+          <Text semantic="secondary">
+            {mode === "daily" ? "Check back soon!" : "Try another date from the archive."}
+          </Text>
+        </Box>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <GameBoard onViewStats={() => setResultsDismissed(false)} />
+      <ResultsModal
+        isOpen={showResults}
+        onClose={handleCloseResults}
+        gameStatus={gameStatus === "playing" ? "won" : gameStatus}
+        mistakes={mistakes}
+        timeTakenSeconds={
+          alreadyPlayed ? alreadyPlayed.timeTakenSeconds : Math.round(elapsedMs / 1000)
+        }
+      />
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
 import type { Meta, StoryObj } from '@storybook/react-vite';
 import { ResultsModal } from './ResultsModal';
 import { StatsProvider } from '../../providers/StatsProvider';
+import { AuthProvider } from '../../providers/AuthProvider';
 import { StorageProvider } from '../../providers/StorageProvider';
+import { ToastProvider } from '../../providers/ToastProvider';
 
 const meta: Meta<typeof ResultsModal> = {
   title: 'Game/ResultsModal',
@@ -13,9 +15,13 @@ const meta: Meta<typeof ResultsModal> = {
   decorators: [
     (Story) => (
       <StorageProvider>
-        <StatsProvider>
-          <Story />
-        </StatsProvider>
+        <AuthProvider>
+          <StatsProvider>
+            <ToastProvider>
+              <Story />
+            </ToastProvider>
+          </StatsProvider>
+        </AuthProvider>
       </StorageProvider>
     ),
   ],
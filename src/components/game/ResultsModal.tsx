@@ -2,9 +2,13 @@ import { useEffect, useState } from "react";
 import { Modal } from "@mond-design-system/theme/client";
 import { Box, Heading, Text, Button } from "@mond-design-system/theme";
 import { useStats } from "../../providers/useStats";
+import { useToast } from "../../providers/useToast";
+import { useGameStore } from "../../store/gameStore";
 import { Stats } from "./Stats";
 import { CountdownTimer } from "./CountdownTimer";
 import { trackEvent, EVENTS } from "../../services/analytics";
+import { generateShareText, shareText, type ShareFormat } from "../../utils/share";
+import { formatDuration } from "../../utils/playTime";
 import type { UserStats } from "../../types";
 
 interface ResultsModalProps {
@@ -12,6 +16,7 @@ interface ResultsModalProps {
   onClose: () => void;
   gameStatus: "won" | "lost";
   mistakes: number;
+  timeTakenSeconds?: number; // Missing for games recorded before play time was tracked
 }
 
 export function ResultsModal({
@@ -19,8 +24,11 @@ export function ResultsModal({
   onClose,
   gameStatus,
   mistakes,
+  timeTakenSeconds,
 }: ResultsModalProps) {
   const stats = useStats();
+  const { showSuccess, showError } = useToast();
+  const { previousGuesses, groups, puzzleDate } = useGameStore();
   const [userStats, setUserStats] = useState<UserStats | null>(null);
 
   // Load stats when modal opens
@@ -53,6 +61,25 @@ export function ResultsModal({
     }
   }, [isOpen, stats]);
 
+  const canShare = !!puzzleDate && previousGuesses.length > 0;
+
+  const handleShare = async (format: ShareFormat) => {
+    if (!puzzleDate) return;
+
+    const text = generateShareText(puzzleDate, previousGuesses, groups, format);
+    const outcome = await shareText(text);
+
+    if (outcome === "copied") {
+      showSuccess("Copied results to clipboard");
+    } else if (outcome === "failed") {
+      showError("Couldn't share results", "Your browser blocked sharing.");
+    }
+
+    if (outcome === "shared" || outcome === "copied") {
+      trackEvent(EVENTS.RESULT_SHARED, { puzzleDate, format, method: outcome });
+    }
+  };
+
   return (
     <Modal isOpen={isOpen} onClose={onClose}>
       <Box display="flex" flexDirection="column" gap="xxs" paddingTop="2">
@@ -73,8 +100,22 @@ export function ResultsModal({
               ? `You found all connections with ${mistakes} mistake${mistakes !== 1 ? "s" : ""}.`
               : "Better luck next time!"}
           </Text>
+          {timeTakenSeconds !== undefined && (
+            <Text semantic="secondary">Time: {formatDuration(timeTakenSeconds)}</Text>
+          )}
         </Box>
 
+        {canShare && (
+          <Box display="flex" justifyContent="center" gap="sm">
+            <Button variant="primary" onClick={() => handleShare("grid")}>
+              Share Results
+            </Button>
+            <Button variant="outline" onClick={() => handleShare("text")}>
+              Share Summary
+            </Button>
+          </Box>
+        )}
+
         {userStats && <Stats stats={userStats} />}
 
         <CountdownTimer />
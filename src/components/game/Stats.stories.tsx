@@ -68,3 +68,27 @@ export const PerfectRecord: Story = {
     },
   },
 };
+
+export const WithDistribution: Story = {
+  args: {
+    stats: {
+      gamesPlayed: 8,
+      gamesWon: 6,
+      winRate: 75,
+      currentStreak: 2,
+      maxStreak: 4,
+      lastPlayedDate: "2024-01-15",
+      gameHistory: [
+        { date: "2024-01-08", won: true, mistakes: 0, completedAt: 0, timeTakenSeconds: 142 },
+        { date: "2024-01-09", won: true, mistakes: 1, completedAt: 0, timeTakenSeconds: 265 },
+        { date: "2024-01-10", won: false, mistakes: 4, completedAt: 0 },
+        { date: "2024-01-11", won: true, mistakes: 1, completedAt: 0 },
+        { date: "2024-01-12", won: true, mistakes: 2, completedAt: 0 },
+        { date: "2024-01-13", won: false, mistakes: 4, completedAt: 0 },
+        { date: "2024-01-14", won: true, mistakes: 1, completedAt: 0 },
+        { date: "2024-01-15", won: true, mistakes: 3, completedAt: 0 },
+      ],
+    },
+    highlightDate: "2024-01-15",
+  },
+};
@@ -1,12 +1,21 @@
 import { Box, Card, CardBody, Heading, Text } from "@mond-design-system/theme";
 import type { UserStats } from "../../types";
+import { getTodayDate } from "../../utils/index";
+import { getSolveTimes, getWinRate } from "../../utils/stats";
+import { formatDuration } from "../../utils/playTime";
+import { GuessDistribution } from "./GuessDistribution";
 import "./Stats.css";
 
 interface StatsProps {
   stats: UserStats;
+  highlightDate?: string; // Defaults to today's puzzle
 }
 
-export function Stats({ stats }: StatsProps) {
+export function Stats({ stats, highlightDate = getTodayDate() }: StatsProps) {
+  const hasHistory = stats.gameHistory.length > 0;
+  const winRate = hasHistory ? getWinRate(stats.gameHistory) : stats.winRate;
+  const { averageSeconds, bestSeconds } = getSolveTimes(stats.gameHistory);
+
   return (
     <Card>
       <CardBody>
@@ -18,6 +27,10 @@ export function Stats({ stats }: StatsProps) {
             <Text size="2xl" align="center">{stats.gamesPlayed}</Text>
             <Text semantic="secondary" align="center">Played</Text>
           </Box>
+          <Box display="flex" flexDirection="column" alignItems="center">
+            <Text size="2xl" align="center">{winRate}</Text>
+            <Text semantic="secondary" align="center">Win %</Text>
+          </Box>
           <Box display="flex" flexDirection="column" alignItems="center">
             <Text size="2xl" align="center">{stats.currentStreak}</Text>
             <Text semantic="secondary" align="center">Current Streak</Text>
@@ -27,6 +40,26 @@ export function Stats({ stats }: StatsProps) {
             <Text semantic="secondary" align="center">Max Streak</Text>
           </Box>
         </Box>
+        {averageSeconds !== null && bestSeconds !== null && (
+          <Box display="flex" justifyContent="center" gap="lg" paddingTop="2">
+            <Box display="flex" flexDirection="column" alignItems="center">
+              <Text size="2xl" align="center">{formatDuration(averageSeconds)}</Text>
+              <Text semantic="secondary" align="center">Avg Time</Text>
+            </Box>
+            <Box display="flex" flexDirection="column" alignItems="center">
+              <Text size="2xl" align="center">{formatDuration(bestSeconds)}</Text>
+              <Text semantic="secondary" align="center">Best Time</Text>
+            </Box>
+          </Box>
+        )}
+        {hasHistory && (
+          <Box paddingTop="2">
+            <GuessDistribution
+              gameHistory={stats.gameHistory}
+              highlightDate={highlightDate}
+            />
+          </Box>
+        )}
       </CardBody>
     </Card>
   );
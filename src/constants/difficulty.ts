@@ -33,3 +33,10 @@ export const DIFFICULTY_TO_COLOR: Record<DifficultyLevel, DifficultyColor> = {
   hard: 'blue',
   hardest: 'purple',
 };
+
+export const DIFFICULTY_EMOJIS: Record<DifficultyColor, string> = {
+  yellow: '🟨',
+  green: '🟩',
+  blue: '🟦',
+  purple: '🟪',
+};
@@ -0,0 +1,59 @@
+import { useEffect, useState } from 'react';
+import { useStorage } from '../providers/useStorage';
+import { useStats } from '../providers/useStats';
+import { useArchive } from '../providers/useArchive';
+import { useDailyPuzzle } from '../lib/supabase/storage';
+import { findFallbackPuzzle, type FallbackPuzzle } from '../services/puzzle/fallback';
+import { getYesterdayDate } from '../utils/index';
+
+interface FallbackState {
+  today: string;
+  fallback: FallbackPuzzle | null;
+}
+
+/**
+ * Finds a past puzzle to serve when today's daily puzzle isn't published.
+ * Only searches once the daily puzzle has loaded and come back empty.
+ *
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function useFallbackPuzzle(today: string) {
+  const storage = useStorage();
+  const stats = useStats();
+  const archive = useArchive();
+  const { data: dailyPuzzle, isLoading: isDailyLoading } = useDailyPuzzle(today, 'films', storage);
+  const [state, setState] = useState<FallbackState | null>(null);
+
+  const needsFallback = !isDailyLoading && dailyPuzzle === null;
+
+  useEffect(() => {
+    if (!needsFallback) return;
+
+    let cancelled = false;
+    Promise.all([stats.getStats(), archive.getArchiveHistory()])
+      .then(([userStats, archiveHistory]) => {
+        const playedDates = new Set(
+          [...userStats.gameHistory, ...archiveHistory].map((game) => game.date),
+        );
+        return findFallbackPuzzle(storage, playedDates, today, getYesterdayDate());
+      })
+      .then((fallback) => {
+        if (!cancelled) setState({ today, fallback });
+      })
+      .catch((error) => {
+        console.error('Failed to find fallback puzzle:', error);
+        if (!cancelled) setState({ today, fallback: null });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [needsFallback, storage, stats, archive, today]);
+
+  const isResolved = needsFallback && state?.today === today;
+
+  return {
+    isLoading: isDailyLoading || (needsFallback && !isResolved),
+    fallback: isResolved ? state.fallback : null,
+  };
+}
@@ -8,12 +8,27 @@
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
 import type { Database } from './types';
 
-const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-const supabaseAnonKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
+/**
+ * Backend for puzzle and group storage.
+ * 'local' keeps them in the browser so the app runs without a Supabase project.
+ */
+export const STORAGE_BACKEND: 'supabase' | 'local' =
+  import.meta.env.VITE_STORAGE_BACKEND === 'local' ? 'local' : 'supabase';
+
+// Placeholders for local mode, where no Supabase project is configured.
+// Auth calls then simply find no session.
+const LOCAL_SUPABASE_URL = 'http://localhost:54321';
+const LOCAL_SUPABASE_ANON_KEY = 'local-anon-key';
+
+const supabaseUrl =
+  import.meta.env.VITE_SUPABASE_URL || (STORAGE_BACKEND === 'local' ? LOCAL_SUPABASE_URL : '');
+const supabaseAnonKey =
+  import.meta.env.VITE_SUPABASE_ANON_KEY ||
+  (STORAGE_BACKEND === 'local' ? LOCAL_SUPABASE_ANON_KEY : '');
 
 if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error(
-    'Missing Supabase environment variables. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in .env.local'
+    'Missing Supabase environment variables. Please set VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY in .env.local, or VITE_STORAGE_BACKEND=local to run offline'
   );
 }
 
@@ -0,0 +1,43 @@
+/**
+ * Gameplay Storage Interface
+ *
+ * Read access to every player's completed games, for analysing how
+ * puzzles play. Only admins can read other players' games.
+ */
+
+import type { GuessRecord } from '../../../types';
+
+/**
+ * One player's completed game
+ */
+export interface GameplayRecord {
+  puzzleId: string;
+  /** Date of the puzzle (YYYY-MM-DD format) */
+  puzzleDate: string;
+  completed: boolean;
+  mistakes: number;
+  /** Ordered guesses, or null for games recorded before guesses were stored */
+  guesses: GuessRecord[] | null;
+}
+
+/**
+ * Filters for listing gameplay
+ */
+export interface GameplayListFilters {
+  /** Only games of this puzzle */
+  puzzleId?: string;
+  /** Earliest puzzle date (inclusive) */
+  dateFrom?: string;
+  /** Latest puzzle date (inclusive) */
+  dateTo?: string;
+}
+
+export interface IGameplayStorage {
+  /**
+   * List completed games across all players.
+   *
+   * @param filters - Optional puzzle and puzzle date range
+   * @returns Promise resolving to games, oldest puzzle first
+   */
+  listGameplay(filters?: GameplayListFilters): Promise<GameplayRecord[]>;
+}
@@ -0,0 +1,70 @@
+/**
+ * Group Feedback Storage Interface
+ *
+ * Defines operations for recording admin accept/reject decisions on
+ * connection groups, kept for tuning future group generation.
+ */
+
+import type { Film } from '../../../types';
+
+/**
+ * Input for recording a review decision
+ */
+export interface GroupFeedbackInput {
+  /** Films of the group at the time of review */
+  films: Film[];
+  connection: string;
+  connectionTypeId?: string | null;
+  explanation?: string | null;
+  accepted: boolean;
+  rejectionReason?: string | null;
+  /** Filters used when the group was generated */
+  generationFilters?: Record<string, unknown> | null;
+}
+
+/**
+ * Stored review decision with database fields
+ */
+export interface StoredGroupFeedback extends GroupFeedbackInput {
+  id: string;
+  createdAt: number;
+}
+
+/**
+ * Filters for listing feedback
+ */
+export interface GroupFeedbackListFilters {
+  accepted?: boolean;
+  connectionTypeId?: string;
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * Result from listFeedback query
+ */
+export interface GroupFeedbackListResult {
+  feedback: StoredGroupFeedback[];
+  total: number;
+}
+
+/**
+ * Group feedback storage interface.
+ */
+export interface IGroupFeedbackStorage {
+  /**
+   * Record an accept/reject decision.
+   *
+   * @param feedback - Review decision with a snapshot of the group
+   * @returns Promise resolving to the stored feedback
+   */
+  recordFeedback(feedback: GroupFeedbackInput): Promise<StoredGroupFeedback>;
+
+  /**
+   * List recorded decisions, newest first.
+   *
+   * @param filters - Optional filters and pagination
+   * @returns Promise resolving to paginated feedback list
+   */
+  listFeedback(filters?: GroupFeedbackListFilters): Promise<GroupFeedbackListResult>;
+}
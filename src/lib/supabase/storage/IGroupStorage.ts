@@ -53,6 +53,8 @@ export interface GroupListFilters {
   status?: GroupStatus | GroupStatus[];
   color?: DifficultyColor | DifficultyColor[];
   connectionType?: string;
+  /** Case-insensitive match against the connection text */
+  search?: string;
   limit?: number;
   offset?: number;
 }
@@ -62,6 +64,7 @@ export interface GroupListFilters {
  */
 export interface GroupUpdate {
   connection?: string;
+  difficultyScore?: number;
   color?: DifficultyColor;
   difficulty?: DifficultyLevel;
   status?: GroupStatus;
@@ -115,6 +118,14 @@ export interface IGroupStorage {
    */
   getGroupsByIds(ids: string[]): Promise<StoredGroup[]>;
 
+  /**
+   * Get groups by their exact connection text.
+   *
+   * @param connections - Connection texts, matched case-sensitively
+   * @returns Promise resolving to the groups found (in same order as input)
+   */
+  getGroupsByConnections(connections: string[]): Promise<StoredGroup[]>;
+
   /**
    * List groups with optional filtering and pagination.
    *
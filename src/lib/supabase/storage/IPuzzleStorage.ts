@@ -79,6 +79,7 @@ export interface IPuzzleStorage {
    *
    * @param puzzle - Puzzle input with group_ids
    * @returns Promise resolving to the saved puzzle with database fields
+   * @throws Error if the groups don't form a valid puzzle
    */
   savePuzzle(puzzle: PuzzleInput): Promise<StoredPuzzle>;
 
@@ -102,6 +103,26 @@ export interface IPuzzleStorage {
    */
   getDailyPuzzle(date: string, genre?: string): Promise<SavedPuzzle | null>;
 
+  /**
+   * Get the dates that have a published puzzle, newest first.
+   * Used by the public puzzle archive (public access).
+   *
+   * @param dateTo - Latest date to include (YYYY-MM-DD format)
+   * @param genre - Genre to filter by (defaults to 'films')
+   * @returns Promise resolving to published dates (YYYY-MM-DD format)
+   */
+  getPublishedDates(dateTo: string, genre?: string): Promise<string[]>;
+
+  /**
+   * Get the dates of published puzzles marked evergreen (`metadata.evergreen`), newest first.
+   * Evergreen puzzles are served first when no daily puzzle is published (public access).
+   *
+   * @param dateTo - Latest date to include (YYYY-MM-DD format)
+   * @param genre - Genre to filter by (defaults to 'films')
+   * @returns Promise resolving to evergreen dates (YYYY-MM-DD format)
+   */
+  getEvergreenDates(dateTo: string, genre?: string): Promise<string[]>;
+
   /**
    * List puzzles with optional filtering and pagination.
    * Used for admin puzzle queue and management.
@@ -119,9 +140,21 @@ export interface IPuzzleStorage {
    * @param id - Puzzle identifier
    * @param updates - Fields to update
    * @returns Promise resolving to updated puzzle
+   * @throws Error if publishing a puzzle whose groups aren't valid
    */
   updatePuzzle(id: string, updates: PuzzleUpdate): Promise<StoredPuzzle>;
 
+  /**
+   * Exchange the dates of two scheduled puzzles in one step, so neither
+   * is ever left without a date.
+   *
+   * @param firstId - Puzzle identifier
+   * @param secondId - Puzzle identifier
+   * @returns Promise that resolves when both puzzles are moved
+   * @throws Error if either puzzle is missing, has no date or is dated today or earlier
+   */
+  swapPuzzleDates(firstId: string, secondId: string): Promise<void>;
+
   /**
    * Delete a puzzle by ID.
    * Used for admin cleanup of rejected puzzles.
@@ -0,0 +1,74 @@
+/**
+ * Supabase Gameplay Storage Implementation
+ *
+ * Implements IGameplayStorage using the gameplay table.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types';
+import type { GuessRecord } from '../../../types';
+import type {
+  GameplayListFilters,
+  GameplayRecord,
+  IGameplayStorage,
+} from './IGameplayStorage';
+
+type DbGameplayRow = Database['public']['Tables']['gameplay']['Row'];
+
+/** Rows fetched per request; PostgREST caps responses at 1000 rows */
+const PAGE_SIZE = 1000;
+
+/**
+ * SupabaseGameplayStorage implementation.
+ *
+ * Relies on the admin read policy on gameplay; other users only see their own games.
+ */
+export class SupabaseGameplayStorage implements IGameplayStorage {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  private rowToGameplayRecord(row: DbGameplayRow): GameplayRecord {
+    return {
+      puzzleId: row.puzzle_id,
+      puzzleDate: row.puzzle_date,
+      completed: row.completed,
+      mistakes: row.mistakes_made,
+      guesses: row.guesses as unknown as GuessRecord[] | null,
+    };
+  }
+
+  async listGameplay(filters?: GameplayListFilters): Promise<GameplayRecord[]> {
+    const records: GameplayRecord[] = [];
+
+    for (;;) {
+      let query = this.supabase.from('gameplay').select();
+
+      if (filters?.puzzleId) {
+        query = query.eq('puzzle_id', filters.puzzleId);
+      }
+
+      if (filters?.dateFrom) {
+        query = query.gte('puzzle_date', filters.dateFrom);
+      }
+
+      if (filters?.dateTo) {
+        query = query.lte('puzzle_date', filters.dateTo);
+      }
+
+      const { data, error } = await query
+        .order('puzzle_date', { ascending: true })
+        .order('id', { ascending: true })
+        .range(records.length, records.length + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to list gameplay: ${error.message}`);
+      }
+
+      const rows = data || [];
+      records.push(...rows.map((row) => this.rowToGameplayRecord(row)));
+
+      if (rows.length < PAGE_SIZE) {
+        return records;
+      }
+    }
+  }
+}
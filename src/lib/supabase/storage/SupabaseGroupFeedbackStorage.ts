@@ -0,0 +1,101 @@
+/**
+ * Supabase Group Feedback Storage Implementation
+ *
+ * Implements IGroupFeedbackStorage using the group_feedback table.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types';
+import type { Film } from '../../../types';
+import type {
+  IGroupFeedbackStorage,
+  GroupFeedbackInput,
+  GroupFeedbackListFilters,
+  GroupFeedbackListResult,
+  StoredGroupFeedback,
+} from './IGroupFeedbackStorage';
+
+type DbFeedbackRow = Database['public']['Tables']['group_feedback']['Row'];
+type DbFeedbackInsert = Database['public']['Tables']['group_feedback']['Insert'];
+
+/**
+ * SupabaseGroupFeedbackStorage implementation.
+ *
+ * Uses Row Level Security for access control.
+ */
+export class SupabaseGroupFeedbackStorage implements IGroupFeedbackStorage {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Convert database row to StoredGroupFeedback.
+   * Maps 'items' from database to 'films' for this app.
+   */
+  private rowToStoredFeedback(row: DbFeedbackRow): StoredGroupFeedback {
+    return {
+      id: row.id,
+      createdAt: new Date(row.created_at).getTime(),
+      films: row.items as unknown as Film[], // Map items → films
+      connection: row.connection,
+      connectionTypeId: row.connection_type_id,
+      explanation: row.explanation,
+      accepted: row.accepted,
+      rejectionReason: row.rejection_reason,
+      generationFilters: row.generation_filters as Record<string, unknown> | null,
+    };
+  }
+
+  async recordFeedback(feedback: GroupFeedbackInput): Promise<StoredGroupFeedback> {
+    const insert: DbFeedbackInsert = {
+      items: feedback.films as unknown as DbFeedbackInsert['items'], // Map films → items
+      connection: feedback.connection,
+      connection_type_id: feedback.connectionTypeId ?? null,
+      explanation: feedback.explanation ?? null,
+      accepted: feedback.accepted,
+      rejection_reason: feedback.accepted ? null : (feedback.rejectionReason ?? null),
+      generation_filters: (feedback.generationFilters ?? null) as DbFeedbackInsert['generation_filters'],
+    };
+
+    const { data, error } = await this.supabase
+      .from('group_feedback')
+      .insert(insert as never)
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Failed to record group feedback: ${error.message}`);
+    }
+
+    return this.rowToStoredFeedback(data);
+  }
+
+  async listFeedback(filters?: GroupFeedbackListFilters): Promise<GroupFeedbackListResult> {
+    let query = this.supabase.from('group_feedback').select('*', { count: 'exact' });
+
+    if (filters?.accepted !== undefined) {
+      query = query.eq('accepted', filters.accepted);
+    }
+
+    if (filters?.connectionTypeId) {
+      query = query.eq('connection_type_id', filters.connectionTypeId);
+    }
+
+    // Apply pagination
+    const limit = filters?.limit ?? 50;
+    const offset = filters?.offset ?? 0;
+    query = query.range(offset, offset + limit - 1);
+
+    // Order by created_at descending (newest first)
+    query = query.order('created_at', { ascending: false });
+
+    const { data, error, count } = await query;
+
+    if (error) {
+      throw new Error(`Failed to list group feedback: ${error.message}`);
+    }
+
+    return {
+      feedback: data.map((row) => this.rowToStoredFeedback(row)),
+      total: count ?? 0,
+    };
+  }
+}
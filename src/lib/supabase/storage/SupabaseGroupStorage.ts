@@ -23,6 +23,13 @@ type DbGroupRow = Database['public']['Tables']['connection_groups']['Row'];
 type DbGroupInsert = Database['public']['Tables']['connection_groups']['Insert'];
 type DbGroupUpdate = Database['public']['Tables']['connection_groups']['Update'];
 
+/**
+ * Escape LIKE wildcards so search text matches literally
+ */
+function escapeLikePattern(text: string): string {
+  return text.replace(/[\\%_]/g, '\\$&');
+}
+
 /**
  * SupabaseGroupStorage implementation.
  *
@@ -145,6 +152,28 @@ export class SupabaseGroupStorage implements IGroupStorage {
       .map((row: DbGroupRow) => this.rowToStoredGroup(row));
   }
 
+  async getGroupsByConnections(connections: string[]): Promise<StoredGroup[]> {
+    if (connections.length === 0) {
+      return [];
+    }
+
+    const { data, error } = await this.supabase
+      .from('connection_groups')
+      .select()
+      .in('connection', connections);
+
+    if (error) {
+      throw new Error(`Failed to get groups by connections: ${error.message}`);
+    }
+
+    // Reorder results to match input order
+    const groupMap = new Map(data.map((row: DbGroupRow) => [row.connection, row]));
+    return connections
+      .map((connection) => groupMap.get(connection))
+      .filter((row): row is DbGroupRow => row !== undefined)
+      .map((row: DbGroupRow) => this.rowToStoredGroup(row));
+  }
+
   async listGroups(filters?: GroupListFilters): Promise<GroupListResult> {
     let query = this.supabase
       .from('connection_groups')
@@ -171,6 +200,10 @@ export class SupabaseGroupStorage implements IGroupStorage {
       query = query.eq('connection_type', filters.connectionType);
     }
 
+    if (filters?.search) {
+      query = query.ilike('connection', `%${escapeLikePattern(filters.search)}%`);
+    }
+
     // Apply pagination
     const limit = filters?.limit ?? 50;
     const offset = filters?.offset ?? 0;
@@ -198,6 +231,10 @@ export class SupabaseGroupStorage implements IGroupStorage {
       dbUpdate.connection = updates.connection;
     }
 
+    if (updates.difficultyScore !== undefined) {
+      dbUpdate.difficulty_score = updates.difficultyScore;
+    }
+
     if (updates.color !== undefined) {
       dbUpdate.color = updates.color;
     }
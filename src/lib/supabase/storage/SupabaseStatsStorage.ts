@@ -0,0 +1,199 @@
+/**
+ * Supabase Stats Storage Implementation
+ *
+ * Implements IStatsStorage for signed-in players using the gameplay and
+ * user_stats tables. Completed games are inserted into gameplay; the
+ * update_user_stats_after_gameplay trigger maintains user_stats.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../types';
+import type { IStatsStorage, UserStats, GameResult, GuessRecord } from '../../../types';
+
+type DbGameplayRow = Database['public']['Tables']['gameplay']['Row'];
+type DbGameplayInsert = Database['public']['Tables']['gameplay']['Insert'];
+type DbUserStatsRow = Database['public']['Tables']['user_stats']['Row'];
+type DbUserStatsInsert = Database['public']['Tables']['user_stats']['Insert'];
+
+/** Postgres error code for unique constraint violations */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * SupabaseStatsStorage implementation.
+ *
+ * Stats follow the signed-in user across devices.
+ * Uses Row Level Security so users only see their own rows.
+ */
+export class SupabaseStatsStorage implements IStatsStorage {
+  constructor(private supabase: SupabaseClient<Database>) {}
+
+  /**
+   * Get the signed-in user's id, throwing if there is no session
+   */
+  private async requireUserId(): Promise<string> {
+    const {
+      data: { user },
+    } = await this.supabase.auth.getUser();
+
+    if (!user) {
+      throw new Error('Not signed in');
+    }
+
+    return user.id;
+  }
+
+  /**
+   * Convert gameplay row to GameResult
+   */
+  private rowToGameResult(row: DbGameplayRow): GameResult {
+    return {
+      date: row.puzzle_date,
+      won: row.completed,
+      mistakes: row.mistakes_made,
+      completedAt: new Date(row.created_at).getTime(),
+      puzzleId: row.puzzle_id,
+      ...(row.guesses && { guesses: row.guesses as unknown as GuessRecord[] }),
+      ...(row.time_taken_seconds !== null && { timeTakenSeconds: row.time_taken_seconds }),
+    };
+  }
+
+  /**
+   * Convert GameResult to gameplay insert row
+   */
+  private gameResultToRow(userId: string, result: GameResult): DbGameplayInsert {
+    const groupsSolved = result.guesses
+      ? result.guesses.filter((guess) => guess.correct).length
+      : result.won
+        ? 4
+        : 0;
+
+    return {
+      user_id: userId,
+      puzzle_id: result.puzzleId!,
+      puzzle_date: result.date,
+      completed: result.won,
+      mistakes_made: result.mistakes,
+      groups_solved: groupsSolved,
+      time_taken_seconds: result.timeTakenSeconds ?? null,
+      guesses: (result.guesses ?? null) as DbGameplayInsert['guesses'],
+    };
+  }
+
+  /**
+   * Combine the user_stats row with gameplay history
+   */
+  private toUserStats(statsRow: DbUserStatsRow | null, history: GameResult[]): UserStats {
+    const gamesPlayed = statsRow?.games_played ?? history.length;
+    const gamesWon = statsRow?.games_won ?? history.filter((game) => game.won).length;
+
+    return {
+      gamesPlayed,
+      gamesWon,
+      winRate: gamesPlayed > 0 ? Math.round((gamesWon / gamesPlayed) * 100) : 0,
+      currentStreak: statsRow?.current_streak ?? 0,
+      maxStreak: statsRow?.max_streak ?? 0,
+      lastPlayedDate: statsRow?.last_played_date ?? null,
+      gameHistory: history,
+    };
+  }
+
+  async getStats(): Promise<UserStats> {
+    const userId = await this.requireUserId();
+
+    const [statsResponse, gameplayResponse] = await Promise.all([
+      this.supabase.from('user_stats').select().eq('user_id', userId).maybeSingle(),
+      this.supabase
+        .from('gameplay')
+        .select()
+        .eq('user_id', userId)
+        .order('puzzle_date', { ascending: true }),
+    ]);
+
+    if (statsResponse.error) {
+      throw new Error(`Failed to get stats: ${statsResponse.error.message}`);
+    }
+
+    if (gameplayResponse.error) {
+      throw new Error(`Failed to get game history: ${gameplayResponse.error.message}`);
+    }
+
+    const history = (gameplayResponse.data || []).map((row) => this.rowToGameResult(row));
+    return this.toUserStats(statsResponse.data, history);
+  }
+
+  async recordCompletion(result: GameResult): Promise<UserStats> {
+    if (!result.puzzleId) {
+      throw new Error('Failed to record game: missing puzzle id');
+    }
+
+    const userId = await this.requireUserId();
+    const insert = this.gameResultToRow(userId, result);
+
+    const { error } = await this.supabase.from('gameplay').insert(insert as never);
+
+    if (error) {
+      // Already recorded from another device or tab
+      if (error.code === UNIQUE_VIOLATION) {
+        console.warn(`Game already recorded for ${result.date}`);
+      } else {
+        throw new Error(`Failed to record game: ${error.message}`);
+      }
+    }
+
+    return this.getStats();
+  }
+
+  /**
+   * Upload several past games at once, skipping dates already recorded.
+   * Used when merging local stats into an account.
+   */
+  async importGames(results: GameResult[]): Promise<void> {
+    if (results.length === 0) {
+      return;
+    }
+
+    if (results.some((result) => !result.puzzleId)) {
+      throw new Error('Failed to import games: missing puzzle id');
+    }
+
+    const userId = await this.requireUserId();
+    const inserts = results.map((result) => this.gameResultToRow(userId, result));
+
+    const { error } = await this.supabase.from('gameplay').upsert(inserts as never[], {
+      onConflict: 'user_id,puzzle_date',
+      ignoreDuplicates: true,
+    });
+
+    if (error) {
+      throw new Error(`Failed to import games: ${error.message}`);
+    }
+  }
+
+  /**
+   * Overwrite the user_stats row, e.g. after recomputing streaks
+   * from a merged history.
+   */
+  async saveStats(stats: Omit<UserStats, 'winRate' | 'gameHistory'>): Promise<void> {
+    const userId = await this.requireUserId();
+    const row: DbUserStatsInsert = {
+      user_id: userId,
+      games_played: stats.gamesPlayed,
+      games_won: stats.gamesWon,
+      current_streak: stats.currentStreak,
+      max_streak: stats.maxStreak,
+      last_played_date: stats.lastPlayedDate,
+    };
+
+    const { error } = await this.supabase
+      .from('user_stats')
+      .upsert(row as never, { onConflict: 'user_id' });
+
+    if (error) {
+      throw new Error(`Failed to save stats: ${error.message}`);
+    }
+  }
+
+  async resetStats(): Promise<void> {
+    throw new Error('Failed to reset stats: not supported for signed-in players');
+  }
+}
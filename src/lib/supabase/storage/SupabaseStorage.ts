@@ -19,6 +19,7 @@ import type {
   PuzzleUpdate,
 } from './IPuzzleStorage';
 import type { DifficultyColor, DifficultyLevel } from './IGroupStorage';
+import { assertValidPuzzle } from '../../../services/puzzle/validation';
 
 type DbPuzzleRow = Database['public']['Tables']['puzzles']['Row'] & {
   groups?: unknown; // JSONB column for group snapshot
@@ -65,9 +66,9 @@ export class SupabaseStorage implements IPuzzleStorage {
   }
 
   /**
-   * Fetch groups by IDs and return them in order
+   * Fetch group rows by IDs and return them in order
    */
-  private async fetchGroupsByIds(groupIds: string[]): Promise<Group[]> {
+  private async fetchGroupRows(groupIds: string[]): Promise<DbGroupRow[]> {
     if (groupIds.length === 0) {
       return [];
     }
@@ -85,11 +86,40 @@ export class SupabaseStorage implements IPuzzleStorage {
     const groupMap = new Map(data.map((row: DbGroupRow) => [row.id, row]));
     return groupIds
       .map((id) => groupMap.get(id))
-      .filter((row): row is DbGroupRow => row !== undefined)
-      .map((row: DbGroupRow) => this.dbGroupToGroup(row));
+      .filter((row): row is DbGroupRow => row !== undefined);
+  }
+
+  /**
+   * Fetch groups by IDs and return them in order
+   */
+  private async fetchGroupsByIds(groupIds: string[]): Promise<Group[]> {
+    const rows = await this.fetchGroupRows(groupIds);
+    return rows.map((row: DbGroupRow) => this.dbGroupToGroup(row));
+  }
+
+  /**
+   * Check that the referenced groups make a solvable puzzle.
+   * Uses raw rows so a missing color isn't hidden by the 'green' default.
+   * Returns the fetched rows.
+   */
+  private async validateGroupIds(groupIds: string[]): Promise<DbGroupRow[]> {
+    const rows = await this.fetchGroupRows(groupIds);
+
+    assertValidPuzzle(
+      rows.map((row) => ({
+        id: row.id,
+        connection: row.connection,
+        films: row.items as unknown as Film[], // Map items → films
+        color: row.color as DifficultyColor | null,
+      }))
+    );
+
+    return rows;
   }
 
   async savePuzzle(puzzle: PuzzleInput): Promise<StoredPuzzle> {
+    await this.validateGroupIds(puzzle.groupIds);
+
     const insert: DbPuzzleInsert = {
       group_ids: puzzle.groupIds,
       title: puzzle.title ?? null,
@@ -159,9 +189,9 @@ export class SupabaseStorage implements IPuzzleStorage {
     // The snapshot makes the puzzle self-contained for anonymous users
     // Map 'items' from database snapshot to 'films' for this app
     const groups: Group[] = row.groups
-      ? (row.groups as unknown as Array<{ id: string; items: Film[]; connection: string; difficulty: string; color: string }>).map(g => ({
+      ? (row.groups as unknown as Array<{ id: string; items?: Film[]; films?: Film[]; connection: string; difficulty: string; color: string }>).map(g => ({
           id: g.id,
-          films: g.items, // Map items → films
+          films: g.items ?? g.films ?? [], // Map items → films (snapshots written by updatePuzzle use films)
           connection: g.connection,
           difficulty: (g.difficulty || 'medium') as DifficultyLevel,
           color: (g.color || 'green') as DifficultyColor,
@@ -181,6 +211,43 @@ export class SupabaseStorage implements IPuzzleStorage {
     };
   }
 
+  async getPublishedDates(dateTo: string, genre: string = 'films'): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('puzzles')
+      .select('puzzle_date')
+      .eq('status', 'published')
+      .eq('genre', genre)
+      .lte('puzzle_date', dateTo)
+      .order('puzzle_date', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get published dates: ${error.message}`);
+    }
+
+    return (data as Array<Pick<DbPuzzleRow, 'puzzle_date'>>)
+      .map((row) => row.puzzle_date)
+      .filter((date): date is string => date !== null);
+  }
+
+  async getEvergreenDates(dateTo: string, genre: string = 'films'): Promise<string[]> {
+    const { data, error } = await this.supabase
+      .from('puzzles')
+      .select('puzzle_date')
+      .eq('status', 'published')
+      .eq('genre', genre)
+      .eq('metadata->>evergreen', 'true')
+      .lte('puzzle_date', dateTo)
+      .order('puzzle_date', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to get evergreen dates: ${error.message}`);
+    }
+
+    return (data as Array<Pick<DbPuzzleRow, 'puzzle_date'>>)
+      .map((row) => row.puzzle_date)
+      .filter((date): date is string => date !== null);
+  }
+
   async listPuzzles(filters?: PuzzleListFilters): Promise<PuzzleListResult> {
     let query = this.supabase.from('puzzles').select('*', { count: 'exact' });
 
@@ -251,7 +318,7 @@ export class SupabaseStorage implements IPuzzleStorage {
       dbUpdate.metadata = updates.metadata;
     }
 
-    // If publishing, snapshot the group data for self-contained gameplay
+    // If publishing, validate and snapshot the group data for self-contained gameplay
     if (updates.status === 'published') {
       // First fetch current puzzle to get group_ids
       const { data: currentPuzzle } = await this.supabase
@@ -262,8 +329,8 @@ export class SupabaseStorage implements IPuzzleStorage {
 
       if (currentPuzzle) {
         const puzzleRow = currentPuzzle as DbPuzzleRow;
-        const groups = await this.fetchGroupsByIds(puzzleRow.group_ids);
-        dbUpdate.groups = groups;
+        const rows = await this.validateGroupIds(puzzleRow.group_ids);
+        dbUpdate.groups = rows.map((row) => this.dbGroupToGroup(row));
       }
     }
 
@@ -286,6 +353,17 @@ export class SupabaseStorage implements IPuzzleStorage {
     return puzzle;
   }
 
+  async swapPuzzleDates(firstId: string, secondId: string): Promise<void> {
+    const { error } = await this.supabase.rpc('swap_puzzle_dates', {
+      first_id: firstId,
+      second_id: secondId,
+    });
+
+    if (error) {
+      throw new Error(`Failed to swap puzzle dates: ${error.message}`);
+    }
+  }
+
   async deletePuzzle(id: string): Promise<void> {
     const { error } = await this.supabase.from('puzzles').delete().eq('id', id);
 
@@ -66,6 +66,7 @@ const createMockSupabase = () => {
   const mockSingle = vi.fn();
   const mockRange = vi.fn();
   const mockOrder = vi.fn();
+  const mockIlike = vi.fn();
 
   const chainableMock = {
     select: mockSelect,
@@ -78,6 +79,7 @@ const createMockSupabase = () => {
     single: mockSingle,
     range: mockRange,
     order: mockOrder,
+    ilike: mockIlike,
   };
 
   // Make all methods return the chainable mock
@@ -215,6 +217,23 @@ describe('SupabaseGroupStorage', () => {
     });
   });
 
+  describe('getGroupsByConnections', () => {
+    it('should match connections exactly, in input order', async () => {
+      mockSupabase._mocks.in.mockResolvedValueOnce({
+        data: [createMockDbRow('uuid-2', '100% Pure'), createMockDbRow('uuid-1', 'Films_of_1999')],
+        error: null,
+      });
+
+      const results = await storage.getGroupsByConnections(['Films_of_1999', '100% Pure']);
+
+      expect(mockSupabase._mocks.in).toHaveBeenCalledWith('connection', [
+        'Films_of_1999',
+        '100% Pure',
+      ]);
+      expect(results.map((group) => group.id)).toEqual(['uuid-1', 'uuid-2']);
+    });
+  });
+
   describe('listGroups', () => {
     it('should list groups with pagination', async () => {
       const dbRows = [createMockDbRow('uuid-1', 'Connection A')];
@@ -254,6 +273,30 @@ describe('SupabaseGroupStorage', () => {
 
       expect(mockSupabase._mocks.eq).toHaveBeenCalledWith('color', 'yellow');
     });
+
+    it('should search by connection text', async () => {
+      mockSupabase._mocks.order.mockResolvedValueOnce({
+        data: [],
+        error: null,
+        count: 0,
+      });
+
+      await storage.listGroups({ search: 'Spielberg' });
+
+      expect(mockSupabase._mocks.ilike).toHaveBeenCalledWith('connection', '%Spielberg%');
+    });
+
+    it('should escape wildcards in the search text', async () => {
+      mockSupabase._mocks.order.mockResolvedValueOnce({
+        data: [],
+        error: null,
+        count: 0,
+      });
+
+      await storage.listGroups({ search: '100%_\\' });
+
+      expect(mockSupabase._mocks.ilike).toHaveBeenCalledWith('connection', '%100\\%\\_\\\\%');
+    });
   });
 
   describe('updateGroup', () => {
@@ -273,6 +316,17 @@ describe('SupabaseGroupStorage', () => {
       expect(result.connection).toBe('Updated Connection');
       expect(result.status).toBe('approved');
     });
+
+    it('should map difficultyScore to difficulty_score', async () => {
+      mockSupabase._mocks.single.mockResolvedValueOnce({
+        data: createMockDbRow('uuid-123', 'Calibrated', 'approved'),
+        error: null,
+      });
+
+      await storage.updateGroup('uuid-123', { difficultyScore: 7200 });
+
+      expect(mockSupabase._mocks.update).toHaveBeenCalledWith({ difficulty_score: 7200 });
+    });
   });
 
   describe('deleteGroup', () => {
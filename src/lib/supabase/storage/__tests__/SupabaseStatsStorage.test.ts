@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { SupabaseStatsStorage } from '../SupabaseStatsStorage';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../types';
+import type { GameResult } from '../../../../types';
+
+type DbGameplayRow = Database['public']['Tables']['gameplay']['Row'];
+
+const createMockGameplayRow = (puzzleDate: string, completed: boolean): DbGameplayRow => ({
+  id: `gameplay-${puzzleDate}`,
+  created_at: `${puzzleDate}T12:00:00Z`,
+  user_id: 'user-1',
+  puzzle_id: `puzzle-${puzzleDate}`,
+  puzzle_date: puzzleDate,
+  completed,
+  mistakes_made: completed ? 1 : 4,
+  time_taken_seconds: null,
+  groups_solved: completed ? 4 : 2,
+  guesses: null,
+});
+
+const createMockResult = (overrides: Partial<GameResult> = {}): GameResult => ({
+  date: '2025-06-01',
+  puzzleId: 'puzzle-1',
+  won: false,
+  mistakes: 4,
+  completedAt: 0,
+  timeTakenSeconds: 95,
+  guesses: [
+    { filmIds: [1, 2, 3, 4], correct: true, groupId: 'g1' },
+    { filmIds: [5, 6, 7, 9], correct: false, groupId: null },
+    { filmIds: [5, 6, 7, 8], correct: true, groupId: 'g2' },
+  ],
+  ...overrides,
+});
+
+// Create mock Supabase client
+const createMockSupabase = (userId: string | null = 'user-1') => {
+  const mockSelect = vi.fn();
+  const mockInsert = vi.fn();
+  const mockEq = vi.fn();
+  const mockOrder = vi.fn();
+  const mockMaybeSingle = vi.fn();
+
+  const chainableMock = {
+    select: mockSelect,
+    insert: mockInsert,
+    eq: mockEq,
+    order: mockOrder,
+    maybeSingle: mockMaybeSingle,
+  };
+
+  Object.values(chainableMock).forEach((mock) => {
+    mock.mockReturnValue(chainableMock);
+  });
+
+  const mockFrom = vi.fn().mockReturnValue(chainableMock);
+  const mockGetUser = vi.fn().mockResolvedValue({
+    data: { user: userId ? { id: userId } : null },
+  });
+
+  return {
+    from: mockFrom,
+    auth: { getUser: mockGetUser },
+    _mocks: {
+      from: mockFrom,
+      ...chainableMock,
+    },
+  } as unknown as SupabaseClient<Database> & {
+    _mocks: Record<string, ReturnType<typeof vi.fn>>;
+  };
+};
+
+describe('SupabaseStatsStorage', () => {
+  let storage: SupabaseStatsStorage;
+  let mockSupabase: ReturnType<typeof createMockSupabase>;
+
+  beforeEach(() => {
+    mockSupabase = createMockSupabase();
+    storage = new SupabaseStatsStorage(mockSupabase);
+  });
+
+  const mockStatsResponse = () => {
+    mockSupabase._mocks.maybeSingle.mockResolvedValueOnce({
+      data: {
+        user_id: 'user-1',
+        created_at: '2025-01-01T00:00:00Z',
+        games_played: 2,
+        games_won: 1,
+        current_streak: 1,
+        max_streak: 3,
+        last_played_date: '2025-06-01',
+      },
+      error: null,
+    });
+    mockSupabase._mocks.order.mockResolvedValueOnce({
+      data: [
+        { ...createMockGameplayRow('2025-05-31', true), time_taken_seconds: 120 },
+        {
+          ...createMockGameplayRow('2025-06-01', false),
+          guesses: createMockResult().guesses as unknown as DbGameplayRow['guesses'],
+        },
+      ],
+      error: null,
+    });
+  };
+
+  describe('getStats', () => {
+    it('should combine user_stats with gameplay history', async () => {
+      mockStatsResponse();
+
+      const stats = await storage.getStats();
+
+      expect(mockSupabase.from).toHaveBeenCalledWith('user_stats');
+      expect(mockSupabase.from).toHaveBeenCalledWith('gameplay');
+      expect(stats).toMatchObject({
+        gamesPlayed: 2,
+        gamesWon: 1,
+        winRate: 50,
+        currentStreak: 1,
+        maxStreak: 3,
+        lastPlayedDate: '2025-06-01',
+      });
+      expect(stats.gameHistory.map((game) => [game.date, game.won])).toEqual([
+        ['2025-05-31', true],
+        ['2025-06-01', false],
+      ]);
+      expect(stats.gameHistory.map((game) => game.timeTakenSeconds)).toEqual([120, undefined]);
+      expect(stats.gameHistory.map((game) => game.guesses)).toEqual([
+        undefined,
+        createMockResult().guesses,
+      ]);
+    });
+
+    it('should throw when not signed in', async () => {
+      storage = new SupabaseStatsStorage(createMockSupabase(null));
+
+      await expect(storage.getStats()).rejects.toThrow('Not signed in');
+    });
+  });
+
+  describe('recordCompletion', () => {
+    it('should insert a gameplay row and return updated stats', async () => {
+      mockSupabase._mocks.insert.mockResolvedValueOnce({ error: null });
+      mockStatsResponse();
+
+      const stats = await storage.recordCompletion(createMockResult());
+
+      expect(mockSupabase._mocks.insert).toHaveBeenCalledWith({
+        user_id: 'user-1',
+        puzzle_id: 'puzzle-1',
+        puzzle_date: '2025-06-01',
+        completed: false,
+        mistakes_made: 4,
+        groups_solved: 2,
+        time_taken_seconds: 95,
+        guesses: createMockResult().guesses,
+      });
+      expect(stats.gamesPlayed).toBe(2);
+    });
+
+    it('should ignore a game already recorded for the date', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockSupabase._mocks.insert.mockResolvedValueOnce({
+        error: { code: '23505', message: 'duplicate key value' },
+      });
+      mockStatsResponse();
+
+      await expect(storage.recordCompletion(createMockResult())).resolves.toBeDefined();
+    });
+
+    it('should throw when the insert fails', async () => {
+      mockSupabase._mocks.insert.mockResolvedValueOnce({
+        error: { code: '42501', message: 'permission denied' },
+      });
+
+      await expect(storage.recordCompletion(createMockResult())).rejects.toThrow(
+        'Failed to record game: permission denied'
+      );
+    });
+
+    it('should throw without a puzzle id', async () => {
+      await expect(
+        storage.recordCompletion(createMockResult({ puzzleId: undefined }))
+      ).rejects.toThrow('missing puzzle id');
+    });
+  });
+});
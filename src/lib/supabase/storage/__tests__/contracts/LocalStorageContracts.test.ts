@@ -0,0 +1,17 @@
+import { LocalGroupStorage } from '../../../../../services/LocalGroupStorage';
+import { LocalPuzzleStorage } from '../../../../../services/LocalPuzzleStorage';
+import { describeGroupStorageContract } from './groupStorageContract';
+import { describePuzzleStorageContract } from './puzzleStorageContract';
+
+describeGroupStorageContract(
+  'LocalGroupStorage',
+  () => new LocalGroupStorage({ seed: [], persist: false })
+);
+
+describePuzzleStorageContract('LocalPuzzleStorage', () => {
+  const groupStorage = new LocalGroupStorage({ seed: [], persist: false });
+  return {
+    groupStorage,
+    puzzleStorage: new LocalPuzzleStorage(groupStorage, { seed: [], persist: false }),
+  };
+});
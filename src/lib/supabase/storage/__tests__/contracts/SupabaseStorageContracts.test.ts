@@ -0,0 +1,18 @@
+import { SupabaseGroupStorage } from '../../SupabaseGroupStorage';
+import { SupabaseStorage } from '../../SupabaseStorage';
+import { createFakeSupabase } from './fakeSupabase';
+import { describeGroupStorageContract } from './groupStorageContract';
+import { describePuzzleStorageContract } from './puzzleStorageContract';
+
+describeGroupStorageContract(
+  'SupabaseGroupStorage',
+  () => new SupabaseGroupStorage(createFakeSupabase())
+);
+
+describePuzzleStorageContract('SupabaseStorage', () => {
+  const supabase = createFakeSupabase();
+  return {
+    groupStorage: new SupabaseGroupStorage(supabase),
+    puzzleStorage: new SupabaseStorage(supabase),
+  };
+});
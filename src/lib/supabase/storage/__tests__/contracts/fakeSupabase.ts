@@ -0,0 +1,451 @@
+/**
+ * In-memory Supabase Client
+ *
+ * Just enough of the supabase-js query builder to run the storage contracts
+ * against the Supabase implementations. Rows live in memory, and the table
+ * defaults, unique constraints, check constraints and triggers the storage
+ * classes rely on are enforced the way the migrations define them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '../../../types';
+
+type Row = Record<string, unknown>;
+type TableName = 'puzzles' | 'connection_groups';
+
+interface FakeError {
+  message: string;
+  code: string;
+}
+
+interface FakeResponse {
+  data: unknown;
+  error: FakeError | null;
+  count?: number | null;
+}
+
+/** Postgres and PostgREST error codes the storage classes check for */
+const UNIQUE_VIOLATION = '23505';
+const CHECK_VIOLATION = '23514';
+const RAISED_EXCEPTION = 'P0001';
+const NO_SINGLE_ROW = 'PGRST116';
+
+interface TableRules {
+  defaults: () => Row;
+  unique: string[];
+  // Mirrors BEFORE UPDATE triggers
+  beforeUpdate?: (oldRow: Row, newRow: Row) => void;
+  // Mirrors CHECK constraints; returns the violated constraint name
+  check?: (row: Row) => string | null;
+}
+
+const TABLE_RULES: Record<TableName, TableRules> = {
+  connection_groups: {
+    defaults: () => ({
+      color: null,
+      difficulty: null,
+      status: 'pending',
+      usage_count: 0,
+      last_used_at: null,
+      metadata: null,
+    }),
+    unique: ['connection'],
+  },
+  puzzles: {
+    defaults: () => ({
+      puzzle_date: null,
+      title: null,
+      group_ids: [],
+      status: 'pending',
+      metadata: null,
+      genre: 'films',
+      groups: null,
+    }),
+    unique: ['puzzle_date'],
+    // clear_date_on_unpublish
+    beforeUpdate: (oldRow, newRow) => {
+      if (oldRow.status === 'published' && newRow.status !== 'published') {
+        newRow.puzzle_date = null;
+      }
+    },
+    check: (row) =>
+      row.status === 'published' && row.puzzle_date === null ? 'check_published_has_date' : null,
+  },
+};
+
+type Filter = (row: Row) => boolean;
+
+/**
+ * Read a column, including `column->>key` JSON text lookups
+ */
+function readColumn(row: Row, column: string): unknown {
+  const [name, key] = column.split('->>');
+  if (key === undefined) {
+    return row[name];
+  }
+  const value = (row[name] as Row | null)?.[key];
+  return value === undefined || value === null ? null : String(value);
+}
+
+/**
+ * Copy a value so callers can't mutate stored rows
+ */
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
+
+/**
+ * Drop undefined fields, which supabase-js leaves out of the request
+ */
+function defined(row: Row): Row {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== undefined));
+}
+
+class FakeDatabase {
+  private tables: Record<TableName, Row[]> = { puzzles: [], connection_groups: [] };
+  private nextId = 1;
+  // Strictly increasing so newest-first ordering is deterministic
+  private clock = Date.parse('2025-01-01T00:00:00Z');
+
+  rows(table: TableName): Row[] {
+    return this.tables[table];
+  }
+
+  newRow(table: TableName, values: Row): Row {
+    const id = `00000000-0000-4000-8000-${String(this.nextId++).padStart(12, '0')}`;
+    return {
+      id,
+      created_at: new Date(this.clock++).toISOString(),
+      ...TABLE_RULES[table].defaults(),
+      ...clone(defined(values)),
+    };
+  }
+
+  /**
+   * Check the table's constraints for rows about to be written
+   */
+  violation(table: TableName, candidates: Row[], replacing: Row[] = []): FakeError | null {
+    const rules = TABLE_RULES[table];
+    const others = this.tables[table].filter((row) => !replacing.includes(row));
+
+    for (const candidate of candidates) {
+      const failedCheck = rules.check?.(candidate);
+      if (failedCheck) {
+        return {
+          code: CHECK_VIOLATION,
+          message: `new row for relation "${table}" violates check constraint "${failedCheck}"`,
+        };
+      }
+
+      for (const column of rules.unique) {
+        const value = candidate[column];
+        const clash = [...others, ...candidates].some(
+          (row) => row !== candidate && value !== null && row[column] === value
+        );
+        if (clash) {
+          return {
+            code: UNIQUE_VIOLATION,
+            message: `duplicate key value violates unique constraint "${table}_${column}_key"`,
+          };
+        }
+      }
+    }
+
+    return null;
+  }
+
+  replace(table: TableName, updates: Map<Row, Row>) {
+    this.tables[table] = this.tables[table].map((row) => updates.get(row) ?? row);
+  }
+
+  remove(table: TableName, rows: Row[]) {
+    this.tables[table] = this.tables[table].filter((row) => !rows.includes(row));
+  }
+
+  now(): string {
+    return new Date(this.clock++).toISOString();
+  }
+}
+
+type Operation =
+  | { kind: 'select' }
+  | { kind: 'insert'; rows: Row[] }
+  | { kind: 'upsert'; rows: Row[]; onConflict: string; ignoreDuplicates: boolean }
+  | { kind: 'update'; values: Row }
+  | { kind: 'delete' };
+
+class FakeQuery implements PromiseLike<FakeResponse> {
+  private operation: Operation = { kind: 'select' };
+  private filters: Filter[] = [];
+  private orders: Array<{ column: string; ascending: boolean }> = [];
+  private window: [number, number] | null = null;
+  private columns = '*';
+  private withCount = false;
+  private cardinality: 'many' | 'single' | 'maybeSingle' = 'many';
+
+  constructor(
+    private db: FakeDatabase,
+    private table: TableName
+  ) {}
+
+  select(columns = '*', options?: { count?: 'exact' }) {
+    this.columns = columns;
+    this.withCount = options?.count === 'exact';
+    return this;
+  }
+
+  insert(values: Row | Row[]) {
+    this.operation = { kind: 'insert', rows: Array.isArray(values) ? values : [values] };
+    return this;
+  }
+
+  upsert(values: Row[], options: { onConflict: string; ignoreDuplicates?: boolean }) {
+    this.operation = {
+      kind: 'upsert',
+      rows: values,
+      onConflict: options.onConflict,
+      ignoreDuplicates: options.ignoreDuplicates ?? false,
+    };
+    return this;
+  }
+
+  update(values: Row) {
+    this.operation = { kind: 'update', values };
+    return this;
+  }
+
+  delete() {
+    this.operation = { kind: 'delete' };
+    return this;
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push((row) => readColumn(row, column) === value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]) {
+    this.filters.push((row) => values.includes(readColumn(row, column)));
+    return this;
+  }
+
+  gte(column: string, value: string) {
+    this.filters.push((row) => {
+      const current = readColumn(row, column);
+      return typeof current === 'string' && current >= value;
+    });
+    return this;
+  }
+
+  lte(column: string, value: string) {
+    this.filters.push((row) => {
+      const current = readColumn(row, column);
+      return typeof current === 'string' && current <= value;
+    });
+    return this;
+  }
+
+  ilike(column: string, pattern: string) {
+    // Backslash escapes the next character, as in Postgres
+    const source = (pattern.match(/\\.|./gs) ?? [])
+      .map((token) => {
+        if (token === '%') return '.*';
+        if (token === '_') return '.';
+        return token.slice(-1).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    const regex = new RegExp(`^${source}$`, 'is');
+    this.filters.push((row) => regex.test(String(readColumn(row, column))));
+    return this;
+  }
+
+  order(column: string, options?: { ascending?: boolean }) {
+    this.orders.push({ column, ascending: options?.ascending ?? true });
+    return this;
+  }
+
+  range(from: number, to: number) {
+    this.window = [from, to];
+    return this;
+  }
+
+  single() {
+    this.cardinality = 'single';
+    return this;
+  }
+
+  maybeSingle() {
+    this.cardinality = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = FakeResponse, TResult2 = never>(
+    onfulfilled?: ((value: FakeResponse) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve()
+      .then(() => this.execute())
+      .then(onfulfilled, onrejected);
+  }
+
+  private matching(): Row[] {
+    return this.db.rows(this.table).filter((row) => this.filters.every((filter) => filter(row)));
+  }
+
+  private run(): { rows: Row[]; count: number | null } | FakeError {
+    const { operation } = this;
+
+    switch (operation.kind) {
+      case 'select': {
+        const rows = [...this.matching()];
+        for (const { column, ascending } of [...this.orders].reverse()) {
+          rows.sort((a, b) => {
+            const left = String(readColumn(a, column) ?? '');
+            const right = String(readColumn(b, column) ?? '');
+            return ascending ? left.localeCompare(right) : right.localeCompare(left);
+          });
+        }
+        const page = this.window ? rows.slice(this.window[0], this.window[1] + 1) : rows;
+        return { rows: page, count: this.withCount ? rows.length : null };
+      }
+
+      case 'insert':
+      case 'upsert': {
+        let rows = operation.rows.map((values) => this.db.newRow(this.table, values));
+        if (operation.kind === 'upsert' && operation.ignoreDuplicates) {
+          const key = operation.onConflict;
+          rows = rows.filter(
+            (row, index) =>
+              !this.db.rows(this.table).some((existing) => existing[key] === row[key]) &&
+              rows.findIndex((other) => other[key] === row[key]) === index
+          );
+        }
+        const error = this.db.violation(this.table, rows);
+        if (error) return error;
+        this.db.rows(this.table).push(...rows);
+        return { rows, count: null };
+      }
+
+      case 'update': {
+        const targets = this.matching();
+        const updates = new Map<Row, Row>();
+        for (const row of targets) {
+          const next = { ...row, ...clone(defined(operation.values)) };
+          TABLE_RULES[this.table].beforeUpdate?.(row, next);
+          updates.set(row, next);
+        }
+        const error = this.db.violation(this.table, [...updates.values()], targets);
+        if (error) return error;
+        this.db.replace(this.table, updates);
+        return { rows: [...updates.values()], count: null };
+      }
+
+      case 'delete': {
+        const targets = this.matching();
+        this.db.remove(this.table, targets);
+        return { rows: targets, count: null };
+      }
+    }
+  }
+
+  private project(row: Row): Row {
+    if (this.columns === '*') {
+      return clone(row);
+    }
+    return Object.fromEntries(
+      this.columns.split(',').map((column) => [column.trim(), clone(row[column.trim()])])
+    );
+  }
+
+  private execute(): FakeResponse {
+    const result = this.run();
+    if ('code' in result) {
+      return { data: null, error: result, count: null };
+    }
+
+    const data = result.rows.map((row) => this.project(row));
+
+    if (this.cardinality === 'many') {
+      return { data, error: null, count: result.count };
+    }
+    if (data.length === 1) {
+      return { data: data[0], error: null, count: result.count };
+    }
+    if (data.length === 0 && this.cardinality === 'maybeSingle') {
+      return { data: null, error: null, count: result.count };
+    }
+    return {
+      data: null,
+      error: {
+        code: NO_SINGLE_ROW,
+        message: 'JSON object requested, multiple (or no) rows returned',
+      },
+      count: null,
+    };
+  }
+}
+
+/**
+ * Create an empty in-memory Supabase client
+ */
+export function createFakeSupabase(): SupabaseClient<Database> {
+  const db = new FakeDatabase();
+
+  const rpc = async (fn: string, args: Row): Promise<FakeResponse> => {
+    if (fn === 'increment_group_usage') {
+      const ids = args.group_ids as string[];
+      const lastUsedAt = db.now();
+      const updates = new Map<Row, Row>();
+      for (const row of db.rows('connection_groups')) {
+        if (!ids.includes(row.id as string)) continue;
+        updates.set(row, {
+          ...row,
+          usage_count: (row.usage_count as number) + 1,
+          last_used_at: lastUsedAt,
+        });
+      }
+      db.replace('connection_groups', updates);
+      return { data: null, error: null };
+    }
+
+    if (fn === 'swap_puzzle_dates') {
+      const puzzles = db.rows('puzzles');
+      const first = puzzles.find((row) => row.id === args.first_id);
+      const second = puzzles.find((row) => row.id === args.second_id);
+      if (!first?.puzzle_date || !second?.puzzle_date) {
+        return {
+          data: null,
+          error: {
+            code: RAISED_EXCEPTION,
+            message: 'Both puzzles must be scheduled to swap dates',
+          },
+        };
+      }
+      const today = new Date().toISOString().slice(0, 10);
+      if (String(first.puzzle_date) <= today || String(second.puzzle_date) <= today) {
+        return {
+          data: null,
+          error: {
+            code: RAISED_EXCEPTION,
+            message: 'Puzzles dated today or earlier cannot be moved',
+          },
+        };
+      }
+      db.replace(
+        'puzzles',
+        new Map([
+          [first, { ...first, puzzle_date: second.puzzle_date }],
+          [second, { ...second, puzzle_date: first.puzzle_date }],
+        ])
+      );
+      return { data: null, error: null };
+    }
+
+    return { data: null, error: { code: '42883', message: `function ${fn} does not exist` } };
+  };
+
+  return {
+    from: (table: TableName) => new FakeQuery(db, table),
+    rpc,
+  } as unknown as SupabaseClient<Database>;
+}
@@ -0,0 +1,232 @@
+/**
+ * IGroupStorage Contract
+ *
+ * Behaviour every group storage implementation must share.
+ * Call from a test file with a factory returning empty storage.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { DifficultyColor, GroupInput, IGroupStorage } from '../../IGroupStorage';
+
+// Well-formed id that no implementation will have stored
+export const MISSING_ID = '00000000-0000-0000-0000-000000000000';
+
+const DIFFICULTIES = {
+  yellow: 'easy',
+  green: 'medium',
+  blue: 'hard',
+  purple: 'hardest',
+} as const;
+
+/**
+ * Group input with four films numbered from `firstFilmId`
+ */
+export const createGroupInput = (
+  connection: string,
+  color: DifficultyColor = 'green',
+  firstFilmId = 1,
+  overrides: Partial<GroupInput> = {}
+): GroupInput => ({
+  films: [0, 1, 2, 3].map((offset) => ({
+    id: firstFilmId + offset,
+    title: `${connection} film ${offset + 1}`,
+    year: 2000 + offset,
+  })),
+  connection,
+  connectionType: 'director',
+  difficultyScore: 5000,
+  color,
+  difficulty: DIFFICULTIES[color],
+  status: 'pending',
+  ...overrides,
+});
+
+export function describeGroupStorageContract(
+  name: string,
+  createStorage: () => IGroupStorage | Promise<IGroupStorage>
+) {
+  describe(`${name} (IGroupStorage contract)`, () => {
+    let storage: IGroupStorage;
+
+    beforeEach(async () => {
+      storage = await createStorage();
+    });
+
+    describe('saveGroup', () => {
+      it('should return the group with generated fields', async () => {
+        const input = createGroupInput('Directed by Agnès Varda');
+
+        const saved = await storage.saveGroup(input);
+
+        expect(saved).toMatchObject(input);
+        expect(saved.id).toEqual(expect.any(String));
+        expect(saved.createdAt).toEqual(expect.any(Number));
+        expect(saved.usageCount).toBe(0);
+        expect(saved.lastUsedAt).toBeNull();
+      });
+    });
+
+    describe('saveBatch', () => {
+      it('should skip groups whose connection already exists', async () => {
+        await storage.saveGroup(createGroupInput('Existing'));
+
+        const saved = await storage.saveBatch([
+          createGroupInput('Existing'),
+          createGroupInput('New', 'blue', 5),
+        ]);
+
+        expect(saved.map((group) => group.connection)).toEqual(['New']);
+        expect((await storage.listGroups()).total).toBe(2);
+      });
+    });
+
+    describe('getGroup', () => {
+      it('should return null for a missing group', async () => {
+        expect(await storage.getGroup(MISSING_ID)).toBeNull();
+      });
+
+      it('should return a saved group', async () => {
+        const saved = await storage.saveGroup(createGroupInput('Found'));
+
+        expect(await storage.getGroup(saved.id)).toEqual(saved);
+      });
+    });
+
+    describe('getGroupsByIds', () => {
+      it('should return groups in the order requested', async () => {
+        const first = await storage.saveGroup(createGroupInput('First'));
+        const second = await storage.saveGroup(createGroupInput('Second', 'blue', 5));
+        const third = await storage.saveGroup(createGroupInput('Third', 'purple', 9));
+
+        const groups = await storage.getGroupsByIds([third.id, first.id, second.id]);
+
+        expect(groups.map((group) => group.id)).toEqual([third.id, first.id, second.id]);
+      });
+
+      it('should skip missing ids', async () => {
+        const saved = await storage.saveGroup(createGroupInput('Only'));
+
+        const groups = await storage.getGroupsByIds([MISSING_ID, saved.id]);
+
+        expect(groups.map((group) => group.id)).toEqual([saved.id]);
+      });
+
+      it('should return an empty array for no ids', async () => {
+        expect(await storage.getGroupsByIds([])).toEqual([]);
+      });
+    });
+
+    describe('getGroupsByConnections', () => {
+      it('should match connections exactly, ignoring wildcard characters', async () => {
+        const exact = await storage.saveGroup(createGroupInput('100% Pure_Cinema'));
+        await storage.saveGroup(createGroupInput('100% Pure_Cinema sequels', 'blue', 5));
+        await storage.saveGroup(createGroupInput('100X PureXCinema', 'purple', 9));
+
+        const groups = await storage.getGroupsByConnections(['100% Pure_Cinema', 'Missing']);
+
+        expect(groups.map((group) => group.id)).toEqual([exact.id]);
+      });
+
+      it('should return an empty array for no connections', async () => {
+        expect(await storage.getGroupsByConnections([])).toEqual([]);
+      });
+    });
+
+    describe('listGroups', () => {
+      beforeEach(async () => {
+        for (let index = 0; index < 5; index++) {
+          await storage.saveGroup(
+            createGroupInput(`Group ${index}`, index % 2 ? 'blue' : 'green', index * 4 + 1, {
+              status: index < 3 ? 'approved' : 'pending',
+            })
+          );
+        }
+      });
+
+      it('should report the total across all pages', async () => {
+        const page = await storage.listGroups({ limit: 2, offset: 0 });
+
+        expect(page.groups).toHaveLength(2);
+        expect(page.total).toBe(5);
+      });
+
+      it('should page through groups newest first without overlap', async () => {
+        const pages = await Promise.all([
+          storage.listGroups({ limit: 2, offset: 0 }),
+          storage.listGroups({ limit: 2, offset: 2 }),
+          storage.listGroups({ limit: 2, offset: 4 }),
+        ]);
+
+        expect(pages.flatMap((page) => page.groups.map((group) => group.connection))).toEqual([
+          'Group 4',
+          'Group 3',
+          'Group 2',
+          'Group 1',
+          'Group 0',
+        ]);
+      });
+
+      it('should filter by status and color', async () => {
+        const approved = await storage.listGroups({ status: 'approved' });
+        const approvedBlue = await storage.listGroups({ status: 'approved', color: 'blue' });
+        const either = await storage.listGroups({ status: ['approved', 'pending'] });
+
+        expect(approved.total).toBe(3);
+        expect(approvedBlue.groups.map((group) => group.connection)).toEqual(['Group 1']);
+        expect(either.total).toBe(5);
+      });
+
+      it('should search connections case-insensitively', async () => {
+        const result = await storage.listGroups({ search: 'group 3' });
+
+        expect(result.groups.map((group) => group.connection)).toEqual(['Group 3']);
+        expect(result.total).toBe(1);
+      });
+
+      it('should match wildcard characters in the search literally', async () => {
+        await storage.saveGroup(createGroupInput('100% Rotten'));
+        await storage.saveGroup(createGroupInput('Group_9'));
+
+        const percent = await storage.listGroups({ search: '0%' });
+        const underscore = await storage.listGroups({ search: 'p_' });
+
+        expect(percent.groups.map((group) => group.connection)).toEqual(['100% Rotten']);
+        expect(underscore.groups.map((group) => group.connection)).toEqual(['Group_9']);
+      });
+    });
+
+    describe('updateGroup', () => {
+      it('should change only the given fields', async () => {
+        const saved = await storage.saveGroup(createGroupInput('Before'));
+
+        const updated = await storage.updateGroup(saved.id, { status: 'approved' });
+
+        expect(updated).toEqual({ ...saved, status: 'approved' });
+        expect(await storage.getGroup(saved.id)).toEqual(updated);
+      });
+    });
+
+    describe('deleteGroup', () => {
+      it('should remove the group', async () => {
+        const saved = await storage.saveGroup(createGroupInput('Doomed'));
+
+        await storage.deleteGroup(saved.id);
+
+        expect(await storage.getGroup(saved.id)).toBeNull();
+      });
+    });
+
+    describe('incrementUsage', () => {
+      it('should count each use and record when it happened', async () => {
+        const saved = await storage.saveGroup(createGroupInput('Used'));
+
+        await storage.incrementUsage([saved.id]);
+        await storage.incrementUsage([saved.id]);
+
+        const group = await storage.getGroup(saved.id);
+        expect(group?.usageCount).toBe(2);
+        expect(group?.lastUsedAt).toEqual(expect.any(Number));
+      });
+    });
+  });
+}
@@ -0,0 +1,239 @@
+/**
+ * IPuzzleStorage Contract
+ *
+ * Behaviour every puzzle storage implementation must share.
+ * Call from a test file with a factory returning empty storage; puzzles
+ * reference groups, so the factory supplies the group storage they read from.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import type { IGroupStorage } from '../../IGroupStorage';
+import type { IPuzzleStorage } from '../../IPuzzleStorage';
+import { getTodayDate } from '../../../../../utils/index';
+import { createGroupInput, MISSING_ID } from './groupStorageContract';
+
+export interface PuzzleStorageContractSetup {
+  puzzleStorage: IPuzzleStorage;
+  groupStorage: IGroupStorage;
+}
+
+export function describePuzzleStorageContract(
+  name: string,
+  createStorage: () => PuzzleStorageContractSetup | Promise<PuzzleStorageContractSetup>
+) {
+  describe(`${name} (IPuzzleStorage contract)`, () => {
+    let puzzleStorage: IPuzzleStorage;
+    let groupStorage: IGroupStorage;
+    let puzzleCount = 0;
+
+    /**
+     * Save four approved groups that form a valid puzzle, films numbered
+     * apart from any other puzzle's
+     */
+    const saveValidGroupIds = async (): Promise<string[]> => {
+      const tag = `Puzzle ${++puzzleCount}`;
+      const firstFilmId = puzzleCount * 100;
+      const groups = await groupStorage.saveBatch(
+        (['yellow', 'green', 'blue', 'purple'] as const).map((color, index) =>
+          createGroupInput(`${tag} ${color}`, color, firstFilmId + index * 4, {
+            status: 'approved',
+          })
+        )
+      );
+      return groups.map((group) => group.id);
+    };
+
+    const savePuzzle = async (title: string | null = null) =>
+      puzzleStorage.savePuzzle({ groupIds: await saveValidGroupIds(), title });
+
+    const publish = async (date: string) => {
+      const puzzle = await savePuzzle();
+      return puzzleStorage.updatePuzzle(puzzle.id, { status: 'published', puzzleDate: date });
+    };
+
+    beforeEach(async () => {
+      ({ puzzleStorage, groupStorage } = await createStorage());
+      puzzleCount = 0;
+    });
+
+    describe('savePuzzle', () => {
+      it('should save a valid puzzle as pending and undated', async () => {
+        const groupIds = await saveValidGroupIds();
+
+        const saved = await puzzleStorage.savePuzzle({ groupIds, title: 'Contract' });
+
+        expect(saved).toMatchObject({
+          groupIds,
+          title: 'Contract',
+          status: 'pending',
+          puzzleDate: null,
+        });
+        expect(saved.id).toEqual(expect.any(String));
+      });
+
+      it('should reject groups that do not form a puzzle', async () => {
+        const groupIds = await saveValidGroupIds();
+
+        await expect(
+          puzzleStorage.savePuzzle({ groupIds: groupIds.slice(0, 3) })
+        ).rejects.toThrow('Invalid puzzle');
+      });
+    });
+
+    describe('getPuzzle', () => {
+      it('should return null for a missing puzzle', async () => {
+        expect(await puzzleStorage.getPuzzle(MISSING_ID)).toBeNull();
+      });
+
+      it('should populate groups in group id order', async () => {
+        const saved = await savePuzzle();
+
+        const puzzle = await puzzleStorage.getPuzzle(saved.id);
+
+        expect(puzzle?.groups?.map((group) => group.id)).toEqual(saved.groupIds);
+      });
+    });
+
+    describe('getDailyPuzzle', () => {
+      it('should return null when no puzzle is published for the date', async () => {
+        await savePuzzle();
+
+        expect(await puzzleStorage.getDailyPuzzle('2030-01-01')).toBeNull();
+      });
+
+      it('should return the published puzzle with all sixteen films', async () => {
+        const published = await publish('2030-01-01');
+
+        const daily = await puzzleStorage.getDailyPuzzle('2030-01-01');
+
+        expect(daily?.id).toBe(published.id);
+        expect(daily?.groups.map((group) => group.id)).toEqual(published.groupIds);
+        expect(daily?.films).toHaveLength(16);
+      });
+
+      it('should serve the groups as they were when published', async () => {
+        const published = await publish('2030-01-01');
+
+        await groupStorage.updateGroup(published.groupIds[0], { connection: 'Edited later' });
+
+        const daily = await puzzleStorage.getDailyPuzzle('2030-01-01');
+        expect(daily?.groups[0].connection).toBe('Puzzle 1 yellow');
+      });
+    });
+
+    describe('getPublishedDates', () => {
+      it('should list published dates up to the given date, newest first', async () => {
+        await publish('2030-01-01');
+        await publish('2030-01-03');
+        await publish('2030-01-05');
+        await savePuzzle();
+
+        expect(await puzzleStorage.getPublishedDates('2030-01-04')).toEqual([
+          '2030-01-03',
+          '2030-01-01',
+        ]);
+      });
+    });
+
+    describe('listPuzzles', () => {
+      it('should report the total across all pages', async () => {
+        for (let index = 0; index < 3; index++) {
+          await savePuzzle(`Puzzle ${index}`);
+        }
+
+        const first = await puzzleStorage.listPuzzles({ limit: 2, offset: 0 });
+        const second = await puzzleStorage.listPuzzles({ limit: 2, offset: 2 });
+
+        expect(first.total).toBe(3);
+        expect(first.puzzles.map((puzzle) => puzzle.title)).toEqual(['Puzzle 2', 'Puzzle 1']);
+        expect(second.puzzles.map((puzzle) => puzzle.title)).toEqual(['Puzzle 0']);
+      });
+
+      it('should filter by status and date range', async () => {
+        await publish('2030-01-01');
+        const inRange = await publish('2030-01-10');
+        await savePuzzle();
+
+        const result = await puzzleStorage.listPuzzles({
+          status: 'published',
+          dateFrom: '2030-01-05',
+          dateTo: '2030-01-31',
+        });
+
+        expect(result.puzzles.map((puzzle) => puzzle.id)).toEqual([inRange.id]);
+        expect(result.total).toBe(1);
+        expect(result.puzzles[0].groups).toHaveLength(4);
+      });
+    });
+
+    describe('updatePuzzle', () => {
+      it('should reject a second puzzle on a taken date', async () => {
+        await publish('2030-01-01');
+
+        await expect(publish('2030-01-01')).rejects.toThrow('Failed to update puzzle');
+      });
+
+      it('should clear the date when a puzzle is unpublished', async () => {
+        const published = await publish('2030-01-01');
+
+        const unpublished = await puzzleStorage.updatePuzzle(published.id, {
+          status: 'approved',
+        });
+
+        expect(unpublished.puzzleDate).toBeNull();
+        expect(await puzzleStorage.getDailyPuzzle('2030-01-01')).toBeNull();
+      });
+
+      it('should refuse to leave a published puzzle without a date', async () => {
+        const published = await publish('2030-01-01');
+
+        await expect(
+          puzzleStorage.updatePuzzle(published.id, { puzzleDate: null })
+        ).rejects.toThrow('Failed to update puzzle');
+        expect((await puzzleStorage.getPuzzle(published.id))?.puzzleDate).toBe('2030-01-01');
+      });
+    });
+
+    describe('swapPuzzleDates', () => {
+      it('should exchange the dates of two published puzzles', async () => {
+        const first = await publish('2030-01-01');
+        const second = await publish('2030-01-02');
+
+        await puzzleStorage.swapPuzzleDates(first.id, second.id);
+
+        expect((await puzzleStorage.getDailyPuzzle('2030-01-01'))?.id).toBe(second.id);
+        expect((await puzzleStorage.getDailyPuzzle('2030-01-02'))?.id).toBe(first.id);
+      });
+
+      it('should reject a puzzle without a date', async () => {
+        const published = await publish('2030-01-01');
+        const pending = await savePuzzle();
+
+        await expect(puzzleStorage.swapPuzzleDates(published.id, pending.id)).rejects.toThrow(
+          'Failed to swap puzzle dates'
+        );
+        expect((await puzzleStorage.getPuzzle(published.id))?.puzzleDate).toBe('2030-01-01');
+      });
+
+      it('should not move a puzzle that is already live', async () => {
+        const live = await publish(getTodayDate());
+        const upcoming = await publish('2030-01-01');
+
+        await expect(puzzleStorage.swapPuzzleDates(upcoming.id, live.id)).rejects.toThrow(
+          'Failed to swap puzzle dates'
+        );
+        expect((await puzzleStorage.getPuzzle(live.id))?.puzzleDate).toBe(getTodayDate());
+      });
+    });
+
+    describe('deletePuzzle', () => {
+      it('should remove the puzzle', async () => {
+        const saved = await savePuzzle();
+
+        await puzzleStorage.deletePuzzle(saved.id);
+
+        expect(await puzzleStorage.getPuzzle(saved.id)).toBeNull();
+      });
+    });
+  });
+}
@@ -2,7 +2,7 @@
  * Storage Module
  *
  * Exports storage interfaces, implementations, and React hooks
- * for puzzles and connection groups.
+ * for puzzles, connection groups, group feedback, player stats and gameplay.
  */
 
 // Puzzle storage
@@ -14,3 +14,16 @@ export * from './usePuzzleStorage';
 export * from './IGroupStorage';
 export * from './SupabaseGroupStorage';
 export * from './useGroupStorage';
+
+// Group feedback storage
+export * from './IGroupFeedbackStorage';
+export * from './SupabaseGroupFeedbackStorage';
+export * from './useGroupFeedbackStorage';
+
+// Stats storage
+export * from './SupabaseStatsStorage';
+
+// Gameplay storage
+export * from './IGameplayStorage';
+export * from './SupabaseGameplayStorage';
+export * from './useGameplayStorage';
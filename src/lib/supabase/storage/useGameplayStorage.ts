@@ -0,0 +1,41 @@
+/**
+ * TanStack Query Hooks for Gameplay Storage
+ *
+ * Provides React hooks for reading players' completed games.
+ */
+
+import { useQuery, type UseQueryOptions } from '@tanstack/react-query';
+import type {
+  GameplayListFilters,
+  GameplayRecord,
+  IGameplayStorage,
+} from './IGameplayStorage';
+
+/**
+ * Query keys for gameplay operations.
+ */
+export const gameplayKeys = {
+  all: ['gameplay'] as const,
+  lists: () => [...gameplayKeys.all, 'list'] as const,
+  list: (filters?: GameplayListFilters) => [...gameplayKeys.lists(), filters] as const,
+};
+
+/**
+ * Hook for listing completed games.
+ * Used by admin puzzle reports.
+ *
+ * @param filters - Filter criteria
+ * @param storage - Storage implementation
+ * @param options - TanStack Query options
+ */
+export function useGameplayList(
+  filters: GameplayListFilters | undefined,
+  storage: IGameplayStorage,
+  options?: Omit<UseQueryOptions<GameplayRecord[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: gameplayKeys.list(filters),
+    queryFn: () => storage.listGameplay(filters),
+    ...options,
+  });
+}
@@ -0,0 +1,70 @@
+/**
+ * TanStack Query Hooks for Group Feedback Storage
+ *
+ * Provides React hooks for recording and listing group review decisions.
+ */
+
+import {
+  useQuery,
+  useMutation,
+  useQueryClient,
+  type UseQueryOptions,
+  type UseMutationOptions,
+} from '@tanstack/react-query';
+import type {
+  IGroupFeedbackStorage,
+  GroupFeedbackInput,
+  GroupFeedbackListFilters,
+  GroupFeedbackListResult,
+  StoredGroupFeedback,
+} from './IGroupFeedbackStorage';
+
+/**
+ * Query keys for group feedback operations.
+ */
+export const groupFeedbackKeys = {
+  all: ['group-feedback'] as const,
+  lists: () => [...groupFeedbackKeys.all, 'list'] as const,
+  list: (filters?: GroupFeedbackListFilters) => [...groupFeedbackKeys.lists(), filters] as const,
+};
+
+/**
+ * Hook for listing review decisions.
+ *
+ * @param filters - Filter criteria
+ * @param storage - Storage implementation
+ * @param options - TanStack Query options
+ */
+export function useGroupFeedbackList(
+  filters: GroupFeedbackListFilters | undefined,
+  storage: IGroupFeedbackStorage,
+  options?: Omit<UseQueryOptions<GroupFeedbackListResult>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: groupFeedbackKeys.list(filters),
+    queryFn: () => storage.listFeedback(filters),
+    ...options,
+  });
+}
+
+/**
+ * Hook for recording a review decision.
+ * Used by admin group review queue.
+ *
+ * @param storage - Storage implementation
+ * @param options - Mutation options
+ */
+export function useRecordGroupFeedback(
+  storage: IGroupFeedbackStorage,
+  options?: UseMutationOptions<StoredGroupFeedback, Error, GroupFeedbackInput>
+) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (feedback: GroupFeedbackInput) => storage.recordFeedback(feedback),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: groupFeedbackKeys.lists() });
+    },
+    ...options,
+  });
+}
@@ -33,6 +33,8 @@ export const puzzleKeys = {
   details: () => [...puzzleKeys.all, 'detail'] as const,
   detail: (id: string) => [...puzzleKeys.details(), id] as const,
   daily: (date: string, genre?: string) => [...puzzleKeys.all, 'daily', date, genre] as const,
+  publishedDates: (dateTo: string, genre?: string) =>
+    [...puzzleKeys.all, 'published-dates', dateTo, genre] as const,
 };
 
 /**
@@ -59,6 +61,29 @@ export function useDailyPuzzle(
   });
 }
 
+/**
+ * Hook for listing dates that have a published puzzle.
+ * Used by the public puzzle archive.
+ *
+ * @param dateTo - Latest date to include (YYYY-MM-DD)
+ * @param genre - Genre to filter by (defaults to 'films')
+ * @param storage - Storage implementation
+ * @param options - TanStack Query options
+ */
+export function usePublishedDates(
+  dateTo: string,
+  genre: string = 'films',
+  storage: IPuzzleStorage,
+  options?: Omit<UseQueryOptions<string[]>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: puzzleKeys.publishedDates(dateTo, genre),
+    queryFn: () => storage.getPublishedDates(dateTo, genre),
+    staleTime: 5 * 60 * 1000,
+    ...options,
+  });
+}
+
 /**
  * Hook for loading a puzzle by ID.
  * Used by admin to view full puzzle details.
@@ -179,10 +204,16 @@ export function useUpdatePuzzle(
       // Invalidate list queries
       queryClient.invalidateQueries({ queryKey: puzzleKeys.lists() });
 
-      // If publishing/unpublishing, invalidate daily puzzle cache
-      if (updates.status === 'published' || updates.status === 'approved' || updates.status === 'pending') {
+      // If publishing/unpublishing or moving a date, invalidate daily puzzle cache
+      if (
+        updates.status === 'published' ||
+        updates.status === 'approved' ||
+        updates.status === 'pending' ||
+        updates.puzzleDate !== undefined
+      ) {
         // Invalidate all daily puzzle queries to force refetch
         queryClient.invalidateQueries({ queryKey: [...puzzleKeys.all, 'daily'] });
+        queryClient.invalidateQueries({ queryKey: [...puzzleKeys.all, 'published-dates'] });
       }
     },
     ...options,
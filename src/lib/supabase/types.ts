@@ -53,6 +53,7 @@ export interface Database {
           last_used_at?: string | null;
           metadata?: Json | null;
         };
+        Relationships: [];
       };
       puzzles: {
         Row: {
@@ -88,6 +89,7 @@ export interface Database {
           genre?: string;
           groups?: Json | null;
         };
+        Relationships: [];
       };
       user_stats: {
         Row: {
@@ -117,6 +119,7 @@ export interface Database {
           max_streak?: number;
           last_played_date?: string | null;
         };
+        Relationships: [];
       };
       gameplay: {
         Row: {
@@ -129,6 +132,7 @@ export interface Database {
           mistakes_made: number;
           time_taken_seconds: number | null;
           groups_solved: number;
+          guesses: Json | null;
         };
         Insert: {
           id?: string;
@@ -140,6 +144,7 @@ export interface Database {
           mistakes_made: number;
           time_taken_seconds?: number | null;
           groups_solved: number;
+          guesses?: Json | null;
         };
         Update: {
           id?: string;
@@ -151,7 +156,9 @@ export interface Database {
           mistakes_made?: number;
           time_taken_seconds?: number | null;
           groups_solved?: number;
+          guesses?: Json | null;
         };
+        Relationships: [];
       };
       admin_users: {
         Row: {
@@ -169,6 +176,7 @@ export interface Database {
           created_at?: string;
           email?: string;
         };
+        Relationships: [];
       };
       generator_configs: {
         Row: {
@@ -192,6 +200,7 @@ export interface Database {
           config?: Json;
           created_by?: string;
         };
+        Relationships: [];
       };
       connection_types: {
         Row: {
@@ -221,6 +230,7 @@ export interface Database {
           examples?: string[] | null;
           active?: boolean;
         };
+        Relationships: [];
       };
       group_feedback: {
         Row: {
@@ -256,6 +266,7 @@ export interface Database {
           rejection_reason?: string | null;
           generation_filters?: Json | null;
         };
+        Relationships: [];
       };
     };
     Views: {
@@ -266,6 +277,10 @@ export interface Database {
         Args: { group_ids: string[] };
         Returns: void;
       };
+      swap_puzzle_dates: {
+        Args: { first_id: string; second_id: string };
+        Returns: void;
+      };
     };
     Enums: {
       puzzle_status: 'pending' | 'approved' | 'published' | 'rejected';
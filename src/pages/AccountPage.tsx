@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  Spinner,
+  Text,
+} from "@mond-design-system/theme";
+import { Navigate, useNavigate } from "react-router-dom";
+import { useAuth } from "../providers/useAuth";
+import { useStats } from "../providers/useStats";
+import { useToast } from "../providers/useToast";
+import { Stats } from "../components/game/Stats";
+import type { UserStats } from "../types";
+
+export function AccountPage() {
+  const { user, isLoading, signOut } = useAuth();
+  const stats = useStats();
+  const { showError } = useToast();
+  const navigate = useNavigate();
+  const [userStats, setUserStats] = useState<UserStats | null>(null);
+  const [statsError, setStatsError] = useState<Error | null>(null);
+  const [isSigningOut, setIsSigningOut] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    stats
+      .getStats()
+      .then((result) => {
+        setUserStats(result);
+        setStatsError(null);
+      })
+      .catch((error) => {
+        console.error("Failed to load stats:", error);
+        setStatsError(error instanceof Error ? error : new Error(String(error)));
+      });
+  }, [stats, user]);
+
+  if (isLoading) {
+    return (
+      <Box display="flex" justifyContent="center">
+        <Spinner size="lg" />
+      </Box>
+    );
+  }
+
+  if (!user) {
+    return <Navigate to="/signin" replace />;
+  }
+
+  const handleSignOut = async () => {
+    setIsSigningOut(true);
+    try {
+      await signOut();
+      navigate("/");
+    } catch (error) {
+      showError(
+        "Sign out failed",
+        error instanceof Error ? error.message : undefined,
+      );
+      setIsSigningOut(false);
+    }
+  };
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      paddingRight="4"
+      paddingLeft="4"
+    >
+      <Heading size="xl" responsive>
+        Your Account
+      </Heading>
+
+      <Card variant="elevated" maxWidth="lg">
+        <CardBody>
+          <Box display="flex" flexDirection="column" gap="sm">
+            <Text size="sm">
+              Signed in as <strong>{user.email}</strong>
+            </Text>
+            <Text size="sm" semantic="secondary">
+              Your stats are saved to your account and follow you across
+              devices.
+            </Text>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleSignOut}
+              disabled={isSigningOut}
+            >
+              {isSigningOut ? "Signing out..." : "Sign Out"}
+            </Button>
+          </Box>
+        </CardBody>
+      </Card>
+
+      {statsError ? (
+        <Box display="flex" flexDirection="column" alignItems="center">
+          <Text>Failed to load stats</Text>
+          <Text semantic="secondary">{statsError.message}</Text>
+        </Box>
+      ) : userStats ? (
+        <Stats stats={userStats} />
+      ) : (
+        <Spinner />
+      )}
+    </Box>
+  );
+}
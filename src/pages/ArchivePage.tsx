@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import {
+  Badge,
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  Spinner,
+  Text,
+} from "@mond-design-system/theme";
+import { Link as RouterLink } from "react-router-dom";
+import { useStorage } from "../providers/useStorage";
+import { useStats } from "../providers/useStats";
+import { useArchive } from "../providers/useArchive";
+import { usePublishedDates } from "../lib/supabase/storage";
+import { formatDate, getPuzzleNumber, getYesterdayDate } from "../utils/index";
+import type { GameResult } from "../types";
+import "./ArchivePage.css";
+
+export function ArchivePage() {
+  const storage = useStorage();
+  const stats = useStats();
+  const archive = useArchive();
+  const [playedGames, setPlayedGames] = useState<Map<string, GameResult>>(
+    new Map(),
+  );
+
+  // Today's puzzle lives on the home page, so the archive ends yesterday
+  const { data: dates, isLoading, error } = usePublishedDates(
+    getYesterdayDate(),
+    "films",
+    storage,
+  );
+
+  // Load results for puzzles already played, daily or archive
+  useEffect(() => {
+    Promise.all([stats.getStats(), archive.getArchiveHistory()])
+      .then(([userStats, archiveHistory]) => {
+        const games = [...userStats.gameHistory, ...archiveHistory];
+        setPlayedGames(new Map(games.map((game) => [game.date, game])));
+      })
+      .catch((error) => {
+        console.error("Failed to load played games:", error);
+      });
+  }, [stats, archive]);
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      padding="4"
+      className="archive-page"
+    >
+      <Heading size="xl" responsive>
+        Puzzle Archive
+      </Heading>
+
+      {isLoading && <Spinner size="lg" />}
+
+      {error && (
+        <Box display="flex" flexDirection="column" alignItems="center">
+          <Text>Failed to load archive</Text>
+          <Text semantic="secondary">{error.message}</Text>
+        </Box>
+      )}
+
+      {dates && dates.length === 0 && (
+        <Text semantic="secondary">No past puzzles yet. Check back tomorrow!</Text>
+      )}
+
+      {dates && dates.length > 0 && (
+        <ul className="archive-list">
+          {dates.map((date) => {
+            const playedGame = playedGames.get(date);
+            return (
+              <li key={date}>
+                <RouterLink to={`/puzzle/${date}`} className="archive-link">
+                  <Card variant="elevated" hoverable>
+                    <CardBody>
+                      <Box
+                        display="flex"
+                        justifyContent="space-between"
+                        alignItems="center"
+                      >
+                        <Box display="flex" flexDirection="column">
+                          <Text weight="semibold">#{getPuzzleNumber(date)}</Text>
+                          <Text size="sm" semantic="secondary">
+                            {formatDate(date)}
+                          </Text>
+                        </Box>
+                        {playedGame && (
+                          <Badge variant={playedGame.won ? "success" : "error"}>
+                            {playedGame.won ? "Solved" : "Missed"}
+                          </Badge>
+                        )}
+                      </Box>
+                    </CardBody>
+                  </Card>
+                </RouterLink>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Box paddingTop="2">
+        <RouterLink to="/" className="archive-back-link">
+          <Button>Back to Today&apos;s Puzzle</Button>
+        </RouterLink>
+      </Box>
+    </Box>
+  );
+}
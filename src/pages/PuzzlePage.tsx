@@ -0,0 +1,48 @@
+import { Box, Button, Text } from "@mond-design-system/theme";
+import { Link as RouterLink, Navigate, useParams } from "react-router-dom";
+import { PuzzleGame } from "../components/game/PuzzleGame";
+import { getTodayDate } from "../utils/index";
+import "./ArchivePage.css";
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export function PuzzlePage() {
+  const { date } = useParams<{ date: string }>();
+  const today = getTodayDate();
+
+  // Today's puzzle is played as the daily game so it counts towards streaks
+  if (date === today) {
+    return <Navigate to="/" replace />;
+  }
+
+  if (!date || !DATE_PATTERN.test(date) || date > today) {
+    return (
+      <Box
+        display="flex"
+        flexDirection="column"
+        alignItems="center"
+        justifyContent="center"
+        gap="lg"
+      >
+        <Text>This puzzle isn&apos;t available</Text>
+        <RouterLink to="/archive" className="archive-back-link">
+          <Button>Browse the Archive</Button>
+        </RouterLink>
+      </Box>
+    );
+  }
+
+  return (
+    <Box display="flex" flexDirection="column" gap="sm">
+      {/* Remount per date so state from the previous puzzle is dropped */}
+      <PuzzleGame key={date} puzzleDate={date} mode="archive" />
+      <Box display="flex" justifyContent="center">
+        <RouterLink to="/archive" className="archive-back-link">
+          <Button variant="ghost" size="sm">
+            Back to Archive
+          </Button>
+        </RouterLink>
+      </Box>
+    </Box>
+  );
+}
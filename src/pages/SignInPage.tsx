@@ -0,0 +1,96 @@
+import { useState, type FormEvent } from "react";
+import {
+  Box,
+  Button,
+  Card,
+  CardBody,
+  Heading,
+  Text,
+} from "@mond-design-system/theme";
+import { Input } from "@mond-design-system/theme/client";
+import { Navigate } from "react-router-dom";
+import { useAuth } from "../providers/useAuth";
+import { SITE_NAME } from "../constants";
+
+type SignInStatus = "idle" | "sending" | "sent";
+
+export function SignInPage() {
+  const { user, isLoading, sendMagicLink } = useAuth();
+  const [email, setEmail] = useState("");
+  const [status, setStatus] = useState<SignInStatus>("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  if (!isLoading && user) {
+    return <Navigate to="/account" replace />;
+  }
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    setStatus("sending");
+    setError(null);
+
+    try {
+      await sendMagicLink(email.trim());
+      setStatus("sent");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to send sign-in link");
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      paddingRight="4"
+      paddingLeft="4"
+    >
+      <Heading size="xl" responsive>
+        Sign In
+      </Heading>
+
+      <Card variant="elevated" maxWidth="lg">
+        <CardBody>
+          {status === "sent" ? (
+            <Box display="flex" flexDirection="column" gap="sm">
+              <Text weight="semibold">Check your email</Text>
+              <Text size="sm">
+                We sent a sign-in link to {email.trim()}. Open it on this device
+                to finish signing in.
+              </Text>
+              <Button variant="ghost" size="sm" onClick={() => setStatus("idle")}>
+                Use a different email
+              </Button>
+            </Box>
+          ) : (
+            <form onSubmit={handleSubmit}>
+              <Box display="flex" flexDirection="column" gap="sm">
+                <Text size="sm">
+                  Sign in to keep your {SITE_NAME} stats and streaks across
+                  devices. No password needed, we&apos;ll email you a link.
+                </Text>
+                <Input
+                  label="Email"
+                  type="email"
+                  autoComplete="email"
+                  required
+                  value={email}
+                  onChange={(event) => setEmail(event.target.value)}
+                  error={error ?? undefined}
+                />
+                <Button
+                  type="submit"
+                  disabled={status === "sending" || !email.trim()}
+                >
+                  {status === "sending" ? "Sending..." : "Send Sign-In Link"}
+                </Button>
+              </Box>
+            </form>
+          )}
+        </CardBody>
+      </Card>
+    </Box>
+  );
+}
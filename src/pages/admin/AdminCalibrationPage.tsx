@@ -0,0 +1,164 @@
+import { useState } from "react";
+import { Box, Button, Heading, Text } from "@mond-design-system/theme";
+import { Input } from "@mond-design-system/theme/client";
+import { useStorage } from "../../providers/useStorage";
+import { useGroupStorage } from "../../providers/useGroupStorage";
+import { useGameplayStorage } from "../../providers/useGameplayStorage";
+import { useToast } from "../../providers/useToast";
+import { useUpdateGroup } from "../../lib/supabase/storage";
+import { GroupCalibrationCard } from "../../components/admin/GroupCalibrationCard";
+import {
+  calibrateDifficulty,
+  MIN_PLAYS,
+  type CalibrationResult,
+} from "../../services/calibration/difficultyCalibration";
+import { COLOR_TO_DIFFICULTY, DIFFICULTY_LABELS } from "../../constants/difficulty";
+import type { DifficultyColor } from "../../types";
+import "./AdminPage.css";
+
+export function AdminCalibrationPage() {
+  const storage = useStorage();
+  const groupStorage = useGroupStorage();
+  const gameplayStorage = useGameplayStorage();
+  const { showSuccess, showError } = useToast();
+  const [dateFrom, setDateFrom] = useState("");
+  const [result, setResult] = useState<CalibrationResult | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+
+  const updateGroup = useUpdateGroup(groupStorage);
+
+  const runCalibration = async (dryRun: boolean) => {
+    setIsRunning(true);
+    try {
+      const calibration = await calibrateDifficulty(gameplayStorage, storage, groupStorage, {
+        dateFrom: dateFrom || undefined,
+        dryRun,
+      });
+      setResult(calibration);
+
+      if (!dryRun) {
+        const savedCount = calibration.calibrations.length - calibration.failures.length;
+        showSuccess(`Saved scores for ${savedCount} ${savedCount === 1 ? "group" : "groups"}`);
+      }
+      if (calibration.failures.length > 0) {
+        showError(
+          `${calibration.failures.length} scores could not be saved`,
+          calibration.failures.map((failure) => failure.message).join("; "),
+        );
+      }
+    } catch (err) {
+      showError("Calibration failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleRecolor = (groupId: string, color: DifficultyColor) => {
+    updateGroup.mutate(
+      { id: groupId, updates: { color, difficulty: COLOR_TO_DIFFICULTY[color] } },
+      {
+        onSuccess: () => {
+          showSuccess(`Group recolored ${DIFFICULTY_LABELS[color]}`);
+          setResult(
+            (current) =>
+              current && {
+                ...current,
+                calibrations: current.calibrations.map((calibration) =>
+                  calibration.groupId === groupId
+                    ? { ...calibration, currentColor: color }
+                    : calibration,
+                ),
+                recolorSuggestions: current.recolorSuggestions.filter(
+                  (suggestion) => suggestion.groupId !== groupId,
+                ),
+              },
+          );
+        },
+        onError: (err) => {
+          showError("Recolor failed", err.message);
+        },
+      },
+    );
+  };
+
+  const needsRecolor = new Set(result?.recolorSuggestions.map((s) => s.groupId));
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      padding="4"
+      className="admin-page"
+    >
+      <Heading size="xl" responsive>
+        Difficulty Calibration
+      </Heading>
+
+      <Text semantic="secondary">
+        Recalculates difficulty scores from how players solve each group. Groups need at least{" "}
+        {MIN_PLAYS} recorded games.
+      </Text>
+
+      <div className="admin-filters">
+        <Input
+          label="Games from"
+          type="date"
+          inputSize="sm"
+          value={dateFrom}
+          onChange={(event) => setDateFrom(event.target.value)}
+        />
+        <Button
+          variant="outline"
+          size="sm"
+          disabled={isRunning}
+          onClick={() => runCalibration(true)}
+        >
+          Preview
+        </Button>
+        <Button size="sm" disabled={isRunning} onClick={() => runCalibration(false)}>
+          Save Scores
+        </Button>
+      </div>
+
+      {result && (
+        <Text size="sm" semantic="secondary">
+          {result.gamesAnalyzed} games analyzed · {result.calibrations.length} groups
+          calibrated · {result.recolorSuggestions.length} to recolor
+          {result.dryRun && " · preview, nothing saved"}
+        </Text>
+      )}
+
+      {result && result.calibrations.length === 0 && (
+        <Text semantic="secondary">No groups have enough games yet.</Text>
+      )}
+
+      {result && result.calibrations.length > 0 && (
+        <ul className="admin-list">
+          {[...result.calibrations]
+            // Groups to recolor first
+            .sort(
+              (a, b) => Number(needsRecolor.has(b.groupId)) - Number(needsRecolor.has(a.groupId)),
+            )
+            .map((calibration) => (
+              <li key={calibration.groupId}>
+                <GroupCalibrationCard
+                  calibration={calibration}
+                  isUpdating={
+                    updateGroup.isPending &&
+                    updateGroup.variables?.id === calibration.groupId
+                  }
+                  onRecolor={
+                    needsRecolor.has(calibration.groupId)
+                      ? (color) => handleRecolor(calibration.groupId, color)
+                      : undefined
+                  }
+                />
+              </li>
+            ))}
+        </ul>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { Box, Heading, Spinner, Text } from "@mond-design-system/theme";
+import { Pagination, Select } from "@mond-design-system/theme/client";
+import { useGroupStorage } from "../../providers/useGroupStorage";
+import { useGroupFeedbackStorage } from "../../providers/useGroupFeedbackStorage";
+import { useToast } from "../../providers/useToast";
+import {
+  useGroupList,
+  useRecordGroupFeedback,
+  useUpdateGroup,
+  type DifficultyColor,
+  type GroupFeedbackInput,
+  type GroupListFilters,
+  type StoredGroup,
+} from "../../lib/supabase/storage";
+import {
+  AdminGroupReviewCard,
+  type GroupReviewEdits,
+} from "../../components/admin/AdminGroupReviewCard";
+import { DIFFICULTY_LABELS, DIFFICULTY_TO_COLOR } from "../../constants/difficulty";
+import "./AdminPage.css";
+
+const PAGE_SIZE = 10;
+
+const COLOR_OPTIONS = [
+  { value: "all", label: "All colors" },
+  ...(Object.keys(DIFFICULTY_LABELS) as DifficultyColor[]).map((color) => ({
+    value: color,
+    label: DIFFICULTY_LABELS[color],
+  })),
+];
+
+/**
+ * Snapshot a reviewed group for the feedback table.
+ * Generation context is read from the group's metadata when present.
+ */
+function toFeedback(
+  group: StoredGroup,
+  edits: GroupReviewEdits,
+  accepted: boolean,
+  rejectionReason?: string,
+): GroupFeedbackInput {
+  const metadata = group.metadata ?? {};
+  return {
+    films: group.films,
+    connection: edits.connection,
+    connectionTypeId:
+      typeof metadata.connectionTypeId === "string" ? metadata.connectionTypeId : null,
+    explanation: typeof metadata.explanation === "string" ? metadata.explanation : null,
+    accepted,
+    rejectionReason: rejectionReason ?? null,
+    generationFilters:
+      typeof metadata.generationFilters === "object" && metadata.generationFilters !== null
+        ? (metadata.generationFilters as Record<string, unknown>)
+        : null,
+  };
+}
+
+export function AdminGroupsPage() {
+  const groupStorage = useGroupStorage();
+  const feedbackStorage = useGroupFeedbackStorage();
+  const { showSuccess, showError, showWarning } = useToast();
+  const [color, setColor] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const filters: GroupListFilters = {
+    status: "pending",
+    color: color === "all" ? undefined : (color as DifficultyColor),
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  };
+
+  const { data, isLoading, error } = useGroupList(filters, groupStorage);
+  const updateGroup = useUpdateGroup(groupStorage);
+  const recordFeedback = useRecordGroupFeedback(feedbackStorage);
+
+  const handleDecision = async (
+    group: StoredGroup,
+    edits: GroupReviewEdits,
+    accepted: boolean,
+    rejectionReason?: string,
+  ) => {
+    try {
+      await updateGroup.mutateAsync({
+        id: group.id,
+        updates: {
+          connection: edits.connection,
+          difficulty: edits.difficulty,
+          color: DIFFICULTY_TO_COLOR[edits.difficulty],
+          status: accepted ? "approved" : "rejected",
+        },
+      });
+    } catch (err) {
+      showError("Update failed", err instanceof Error ? err.message : undefined);
+      return;
+    }
+
+    try {
+      await recordFeedback.mutateAsync(toFeedback(group, edits, accepted, rejectionReason));
+      showSuccess(accepted ? "Group approved" : "Group rejected");
+    } catch (err) {
+      // The decision itself was saved; only the learning record is missing
+      showWarning(
+        accepted ? "Group approved" : "Group rejected",
+        `Feedback was not recorded: ${err instanceof Error ? err.message : "unknown error"}`,
+      );
+    }
+  };
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      padding="4"
+      className="admin-page"
+    >
+      <Heading size="xl" responsive>
+        Group Review
+      </Heading>
+
+      <div className="admin-filters">
+        <Select
+          label="Color"
+          size="sm"
+          options={COLOR_OPTIONS}
+          value={color}
+          onChange={(value) => {
+            setColor(value);
+            setPage(1);
+          }}
+        />
+      </div>
+
+      {isLoading && <Spinner size="lg" />}
+
+      {error && (
+        <Box display="flex" flexDirection="column" alignItems="center">
+          <Text>Failed to load groups</Text>
+          <Text semantic="secondary">{error.message}</Text>
+        </Box>
+      )}
+
+      {data && data.groups.length === 0 && (
+        <Text semantic="secondary">No groups waiting for review.</Text>
+      )}
+
+      {data && data.groups.length > 0 && (
+        <>
+          <ul className="admin-list">
+            {data.groups.map((group) => (
+              <li key={group.id}>
+                <AdminGroupReviewCard
+                  group={group}
+                  isUpdating={
+                    updateGroup.isPending && updateGroup.variables?.id === group.id
+                  }
+                  onApprove={(edits) => handleDecision(group, edits, true)}
+                  onReject={(edits, reason) => handleDecision(group, edits, false, reason)}
+                />
+              </li>
+            ))}
+          </ul>
+          <Pagination
+            currentPage={page}
+            totalItems={data.total}
+            itemsPerPage={PAGE_SIZE}
+            onPageChange={setPage}
+            showTotalInfo
+            size="sm"
+          />
+        </>
+      )}
+    </Box>
+  );
+}
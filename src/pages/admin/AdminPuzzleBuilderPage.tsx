@@ -0,0 +1,272 @@
+import { useMemo, useState } from "react";
+import { Box, Button, Heading, Spinner, Text } from "@mond-design-system/theme";
+import { Input, Select } from "@mond-design-system/theme/client";
+import { useStorage } from "../../providers/useStorage";
+import { useGroupStorage } from "../../providers/useGroupStorage";
+import { useToast } from "../../providers/useToast";
+import {
+  useGroupList,
+  useIncrementGroupUsage,
+  useSavePuzzle,
+  useUpdateGroup,
+  type DifficultyColor,
+  type StoredGroup,
+} from "../../lib/supabase/storage";
+import { BuilderGroupCard } from "../../components/admin/BuilderGroupCard";
+import { BuilderSlot } from "../../components/admin/BuilderSlot";
+import { RedHerringReport } from "../../components/admin/RedHerringReport";
+import { FilmGrid } from "../../components/game/FilmGrid";
+import { DIFFICULTY_LABELS } from "../../constants/difficulty";
+import {
+  PUZZLE_SLOT_COLORS,
+  canPlaceGroup,
+  createEmptySlots,
+  getSlotColorUpdates,
+  getSlotGroupIds,
+  placeGroup,
+  toGameGroup,
+  type PuzzleSlots,
+} from "../../services/puzzle/builder";
+import { validatePuzzleGroups } from "../../services/puzzle/validation";
+import { shuffleArray } from "../../utils/index";
+import type { Film } from "../../types";
+import "../../components/admin/PuzzleBuilder.css";
+import "./AdminPage.css";
+
+const SEARCH_LIMIT = 20;
+
+const COLOR_OPTIONS = [
+  { value: "all", label: "All colors" },
+  ...PUZZLE_SLOT_COLORS.map((color) => ({ value: color, label: DIFFICULTY_LABELS[color] })),
+];
+
+export function AdminPuzzleBuilderPage() {
+  const storage = useStorage();
+  const groupStorage = useGroupStorage();
+  const { showSuccess, showError, showWarning } = useToast();
+  const [search, setSearch] = useState("");
+  const [color, setColor] = useState("all");
+  const [title, setTitle] = useState("");
+  const [slots, setSlots] = useState<PuzzleSlots>(createEmptySlots);
+  const [previewFilms, setPreviewFilms] = useState<Film[] | null>(null);
+  const [previewSelection, setPreviewSelection] = useState<number[]>([]);
+
+  const { data, isLoading, error } = useGroupList(
+    {
+      status: "approved",
+      search: search.trim() || undefined,
+      color: color === "all" ? undefined : (color as DifficultyColor),
+      limit: SEARCH_LIMIT,
+    },
+    groupStorage,
+  );
+  const savePuzzle = useSavePuzzle(storage);
+  const incrementUsage = useIncrementGroupUsage(groupStorage);
+  const updateGroup = useUpdateGroup(groupStorage);
+
+  const groupsById = useMemo(
+    () => new Map((data?.groups ?? []).map((group) => [group.id, group])),
+    [data],
+  );
+  const placedIds = new Set(
+    PUZZLE_SLOT_COLORS.map((slotColor) => slots[slotColor]?.id).filter(Boolean),
+  );
+  const groupIds = getSlotGroupIds(slots);
+  // Only check complete puzzles; an unfilled slot is not a problem yet.
+  // Groups are checked in their slot's color, which saving stores on uncolored groups.
+  const issues = groupIds
+    ? validatePuzzleGroups(
+        PUZZLE_SLOT_COLORS.map((slotColor) => toGameGroup(slots[slotColor]!, slotColor)),
+      )
+    : [];
+
+  const updateSlots = (next: PuzzleSlots) => {
+    setSlots(next);
+    // Re-shuffle the preview whenever the puzzle changes
+    setPreviewFilms(null);
+    setPreviewSelection([]);
+  };
+
+  const handlePlace = (slotColor: DifficultyColor, group: StoredGroup) => {
+    if (!canPlaceGroup(group, slotColor)) {
+      showWarning(
+        "Wrong slot",
+        `"${group.connection}" is a ${group.color} group and can only go in the ${group.color} slot.`,
+      );
+      return;
+    }
+    updateSlots(placeGroup(slots, slotColor, group));
+  };
+
+  const handleAdd = (group: StoredGroup) => {
+    const slotColor =
+      group.color ?? PUZZLE_SLOT_COLORS.find((candidate) => slots[candidate] === null);
+    if (!slotColor) {
+      showWarning("No empty slot", "Clear a slot before adding another group.");
+      return;
+    }
+    handlePlace(slotColor, group);
+  };
+
+  const handleShuffle = () => {
+    const films = PUZZLE_SLOT_COLORS.flatMap((slotColor) => slots[slotColor]?.films ?? []);
+    setPreviewFilms(shuffleArray(films));
+    setPreviewSelection([]);
+  };
+
+  const handleSave = async () => {
+    if (!groupIds) return;
+
+    try {
+      // Uncolored groups take their slot's color, as shown in the preview
+      await Promise.all(
+        getSlotColorUpdates(slots).map((update) => updateGroup.mutateAsync(update)),
+      );
+      await savePuzzle.mutateAsync({ groupIds, title: title.trim() || null });
+    } catch (err) {
+      showError("Save failed", err instanceof Error ? err.message : undefined);
+      return;
+    }
+
+    try {
+      await incrementUsage.mutateAsync(groupIds);
+    } catch (err) {
+      console.error("Failed to increment group usage:", err);
+    }
+
+    showSuccess("Puzzle saved", "It is now pending in the puzzle queue.");
+    setTitle("");
+    updateSlots(createEmptySlots());
+  };
+
+  const previewGroups = PUZZLE_SLOT_COLORS.flatMap((slotColor) => {
+    const group = slots[slotColor];
+    return group ? [toGameGroup(group, slotColor)] : [];
+  });
+  const films = previewFilms ?? previewGroups.flatMap((group) => group.films);
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      padding="4"
+      className="admin-page"
+    >
+      <Heading size="xl" responsive>
+        Puzzle Builder
+      </Heading>
+
+      <div className="builder-layout">
+        <Box display="flex" flexDirection="column" gap="sm">
+          <div className="admin-filters">
+            <Input
+              label="Search approved groups"
+              inputSize="sm"
+              value={search}
+              onChange={(event) => setSearch(event.target.value)}
+            />
+            <Select
+              label="Color"
+              size="sm"
+              options={COLOR_OPTIONS}
+              value={color}
+              onChange={setColor}
+            />
+          </div>
+
+          {isLoading && <Spinner />}
+
+          {error && <Text semantic="secondary">{error.message}</Text>}
+
+          {data && data.groups.length === 0 && (
+            <Text semantic="secondary">No approved groups match.</Text>
+          )}
+
+          {data && (
+            <ul className="admin-list">
+              {data.groups.map((group) => (
+                <li key={group.id}>
+                  <BuilderGroupCard
+                    group={group}
+                    isPlaced={placedIds.has(group.id)}
+                    onAdd={() => handleAdd(group)}
+                  />
+                </li>
+              ))}
+            </ul>
+          )}
+        </Box>
+
+        <Box display="flex" flexDirection="column" gap="sm">
+          {PUZZLE_SLOT_COLORS.map((slotColor) => (
+            <BuilderSlot
+              key={slotColor}
+              color={slotColor}
+              group={slots[slotColor]}
+              onDropGroup={(groupId) => {
+                const group = groupsById.get(groupId);
+                if (group) {
+                  handlePlace(slotColor, group);
+                }
+              }}
+              onClear={() => updateSlots({ ...slots, [slotColor]: null })}
+            />
+          ))}
+
+          <Input
+            label="Title (optional)"
+            inputSize="sm"
+            value={title}
+            onChange={(event) => setTitle(event.target.value)}
+          />
+          {issues.map((issue) => (
+            <Text key={`${issue.code}-${issue.groupIds.join("-")}`} size="sm" semantic="error">
+              {issue.message}
+            </Text>
+          ))}
+          <Button
+            disabled={
+              !groupIds || issues.length > 0 || updateGroup.isPending || savePuzzle.isPending
+            }
+            onClick={handleSave}
+          >
+            {updateGroup.isPending || savePuzzle.isPending ? "Saving..." : "Save Puzzle"}
+          </Button>
+        </Box>
+      </div>
+
+      {films.length > 0 && (
+        <Box display="flex" flexDirection="column" alignItems="center" gap="sm">
+          <Box display="flex" alignItems="center" gap="sm">
+            <Heading level={3} size="md">
+              Preview
+            </Heading>
+            <Button variant="ghost" size="sm" onClick={handleShuffle}>
+              Shuffle
+            </Button>
+          </Box>
+          <FilmGrid
+            films={films}
+            selectedFilmIds={previewSelection}
+            isShaking={false}
+            onSelectFilm={(filmId) =>
+              setPreviewSelection((selected) =>
+                selected.includes(filmId)
+                  ? selected.filter((id) => id !== filmId)
+                  : [...selected, filmId].slice(-4),
+              )
+            }
+          />
+          <RedHerringReport
+            groups={PUZZLE_SLOT_COLORS.flatMap((slotColor) => {
+              const group = slots[slotColor];
+              return group ? [group] : [];
+            })}
+          />
+        </Box>
+      )}
+    </Box>
+  );
+}
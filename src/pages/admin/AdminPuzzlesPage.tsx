@@ -0,0 +1,214 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Box, Heading, Spinner, Text } from "@mond-design-system/theme";
+import { Input, Pagination, Select } from "@mond-design-system/theme/client";
+import { useStorage } from "../../providers/useStorage";
+import { useGroupStorage } from "../../providers/useGroupStorage";
+import { useToast } from "../../providers/useToast";
+import {
+  groupKeys,
+  puzzleKeys,
+  usePuzzleList,
+  useUpdatePuzzle,
+  type PuzzleListFilters,
+  type PuzzleStatus,
+  type PuzzleUpdate,
+} from "../../lib/supabase/storage";
+import { AdminPuzzleCard } from "../../components/admin/AdminPuzzleCard";
+import { PuzzlePackPanel } from "../../components/admin/PuzzlePackPanel";
+import {
+  exportPuzzlePack,
+  importPuzzlePack,
+  type PackImportReport,
+} from "../../services/puzzle/pack";
+import { getTodayDate } from "../../utils/index";
+import "./AdminPage.css";
+
+const PAGE_SIZE = 10;
+
+const STATUS_OPTIONS = [
+  { value: "all", label: "All statuses" },
+  { value: "pending", label: "Pending" },
+  { value: "approved", label: "Approved" },
+  { value: "published", label: "Published" },
+  { value: "rejected", label: "Rejected" },
+];
+
+const SUCCESS_MESSAGES: Record<PuzzleStatus, string> = {
+  pending: "Puzzle moved to pending",
+  approved: "Puzzle approved",
+  published: "Puzzle published",
+  rejected: "Puzzle rejected",
+};
+
+const countPuzzles = (count: number) => `${count} ${count === 1 ? "puzzle" : "puzzles"}`;
+
+export function AdminPuzzlesPage() {
+  const storage = useStorage();
+  const groupStorage = useGroupStorage();
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const [status, setStatus] = useState("pending");
+  const [dateFrom, setDateFrom] = useState("");
+  const [dateTo, setDateTo] = useState("");
+  const [page, setPage] = useState(1);
+  const [packReport, setPackReport] = useState<PackImportReport | null>(null);
+  const [isPackBusy, setIsPackBusy] = useState(false);
+
+  const filters: PuzzleListFilters = {
+    status: status === "all" ? undefined : (status as PuzzleStatus),
+    dateFrom: dateFrom || undefined,
+    dateTo: dateTo || undefined,
+    limit: PAGE_SIZE,
+    offset: (page - 1) * PAGE_SIZE,
+  };
+
+  const { data, isLoading, error } = usePuzzleList(filters, storage);
+  const updatePuzzle = useUpdatePuzzle(storage);
+
+  const handleUpdate = (id: string, updates: PuzzleUpdate) => {
+    updatePuzzle.mutate(
+      { id, updates },
+      {
+        onSuccess: () => {
+          if (updates.status) {
+            showSuccess(SUCCESS_MESSAGES[updates.status]);
+          }
+        },
+        onError: (err) => {
+          showError("Update failed", err.message);
+        },
+      },
+    );
+  };
+
+  // Exports every puzzle matching the filters, not just the current page
+  const handleExport = async () => {
+    setIsPackBusy(true);
+    try {
+      const pack = await exportPuzzlePack(storage, groupStorage, {
+        status: filters.status,
+        dateFrom: filters.dateFrom,
+        dateTo: filters.dateTo,
+      });
+      const link = document.createElement("a");
+      link.href = `data:application/json;charset=utf-8,${encodeURIComponent(
+        JSON.stringify(pack, null, 2),
+      )}`;
+      link.download = `filmclues-puzzles-${getTodayDate()}.json`;
+      link.click();
+      showSuccess(`Exported ${countPuzzles(pack.puzzles.length)}`);
+    } catch (err) {
+      showError("Export failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsPackBusy(false);
+    }
+  };
+
+  const handleImport = async (contents: string) => {
+    setIsPackBusy(true);
+    try {
+      const report = await importPuzzlePack(JSON.parse(contents), storage, groupStorage);
+      setPackReport(report);
+      queryClient.invalidateQueries({ queryKey: puzzleKeys.all });
+      queryClient.invalidateQueries({ queryKey: groupKeys.all });
+      showSuccess(`Imported ${countPuzzles(report.created.length)}`);
+    } catch (err) {
+      showError("Import failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsPackBusy(false);
+    }
+  };
+
+  // Any filter change starts again from the first page
+  const updateFilter = (setter: (value: string) => void) => (value: string) => {
+    setter(value);
+    setPage(1);
+  };
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      padding="4"
+      className="admin-page"
+    >
+      <Heading size="xl" responsive>
+        Puzzle Queue
+      </Heading>
+
+      <PuzzlePackPanel
+        report={packReport}
+        isBusy={isPackBusy}
+        onExport={handleExport}
+        onImport={handleImport}
+        onDismissReport={() => setPackReport(null)}
+      />
+
+      <div className="admin-filters">
+        <Select
+          label="Status"
+          size="sm"
+          options={STATUS_OPTIONS}
+          value={status}
+          onChange={updateFilter(setStatus)}
+        />
+        <Input
+          label="From"
+          type="date"
+          inputSize="sm"
+          value={dateFrom}
+          onChange={(event) => updateFilter(setDateFrom)(event.target.value)}
+        />
+        <Input
+          label="To"
+          type="date"
+          inputSize="sm"
+          value={dateTo}
+          onChange={(event) => updateFilter(setDateTo)(event.target.value)}
+        />
+      </div>
+
+      {isLoading && <Spinner size="lg" />}
+
+      {error && (
+        <Box display="flex" flexDirection="column" alignItems="center">
+          <Text>Failed to load puzzles</Text>
+          <Text semantic="secondary">{error.message}</Text>
+        </Box>
+      )}
+
+      {data && data.puzzles.length === 0 && (
+        <Text semantic="secondary">No puzzles match these filters.</Text>
+      )}
+
+      {data && data.puzzles.length > 0 && (
+        <>
+          <ul className="admin-list">
+            {data.puzzles.map((puzzle) => (
+              <li key={puzzle.id}>
+                <AdminPuzzleCard
+                  puzzle={puzzle}
+                  isUpdating={
+                    updatePuzzle.isPending && updatePuzzle.variables?.id === puzzle.id
+                  }
+                  onUpdate={(updates) => handleUpdate(puzzle.id, updates)}
+                />
+              </li>
+            ))}
+          </ul>
+          <Pagination
+            currentPage={page}
+            totalItems={data.total}
+            itemsPerPage={PAGE_SIZE}
+            onPageChange={setPage}
+            showTotalInfo
+            size="sm"
+          />
+        </>
+      )}
+    </Box>
+  );
+}
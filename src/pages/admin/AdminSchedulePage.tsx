@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Box, Button, Heading, Spinner, Text } from "@mond-design-system/theme";
+import { useStorage } from "../../providers/useStorage";
+import { useGroupStorage } from "../../providers/useGroupStorage";
+import { useToast } from "../../providers/useToast";
+import {
+  puzzleKeys,
+  usePuzzleList,
+  type StoredPuzzle,
+} from "../../lib/supabase/storage";
+import { ScheduleDayCard } from "../../components/admin/ScheduleDayCard";
+import { AutoSchedulePanel } from "../../components/admin/AutoSchedulePanel";
+import {
+  addDays,
+  applySchedule,
+  buildSchedule,
+  planAssignment,
+  planSwap,
+  type ScheduleDay,
+  type ScheduleStep,
+} from "../../services/scheduling/calendar";
+import {
+  autoSchedule,
+  DEFAULT_BUFFER_DAYS,
+  type AutoScheduleResult,
+} from "../../services/scheduling/autoScheduler";
+import { formatDate, getTodayDate } from "../../utils/index";
+import "../../components/admin/Schedule.css";
+import "./AdminPage.css";
+
+const WINDOW_DAYS = 28;
+const APPROVED_LIMIT = 50;
+
+export function AdminSchedulePage() {
+  const storage = useStorage();
+  const groupStorage = useGroupStorage();
+  const queryClient = useQueryClient();
+  const { showSuccess, showError } = useToast();
+  const today = getTodayDate();
+  const [startDate, setStartDate] = useState(today);
+  const [swapSource, setSwapSource] = useState<string | null>(null);
+  const [isApplying, setIsApplying] = useState(false);
+  const [autoPlan, setAutoPlan] = useState<AutoScheduleResult | null>(null);
+  const endDate = addDays(startDate, WINDOW_DAYS - 1);
+
+  const published = usePuzzleList(
+    { status: "published", dateFrom: startDate, dateTo: endDate, limit: WINDOW_DAYS },
+    storage,
+  );
+  const approved = usePuzzleList({ status: "approved", limit: APPROVED_LIMIT }, storage);
+
+  const days = published.data
+    ? buildSchedule(published.data.puzzles, startDate, WINDOW_DAYS, today)
+    : [];
+  const gapCount = days.filter((day) => day.isGap).length;
+  const approvedPuzzles = (approved.data?.puzzles ?? []).filter(
+    (puzzle) => puzzle.puzzleDate === null,
+  );
+
+  const applyUpdates = async (plan: () => ScheduleStep[], message: string) => {
+    setIsApplying(true);
+    try {
+      await applySchedule(storage, plan());
+      queryClient.invalidateQueries({ queryKey: puzzleKeys.all });
+      showSuccess(message);
+    } catch (err) {
+      showError("Schedule update failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsApplying(false);
+      setSwapSource(null);
+    }
+  };
+
+  const handleAssign = (day: ScheduleDay, puzzle: StoredPuzzle) => {
+    applyUpdates(
+      () => planAssignment(puzzle, day),
+      `Puzzle scheduled for ${formatDate(day.date)}`,
+    );
+  };
+
+  const handleSwap = (day: ScheduleDay) => {
+    const source = days.find((candidate) => candidate.date === swapSource);
+    if (!source) {
+      setSwapSource(null);
+      return;
+    }
+    applyUpdates(() => planSwap(source, day), "Schedule updated");
+  };
+
+  // Publishing re-plans against the latest schedule rather than trusting the preview
+  const runAutoSchedule = async (dryRun: boolean) => {
+    setIsApplying(true);
+    try {
+      const result = await autoSchedule(storage, groupStorage, { today, dryRun });
+      if (dryRun) {
+        setAutoPlan(result);
+        return;
+      }
+
+      setAutoPlan(null);
+      queryClient.invalidateQueries({ queryKey: puzzleKeys.all });
+      const publishedCount = result.assignments.length - result.failures.length;
+      showSuccess(`Published ${publishedCount} ${publishedCount === 1 ? "puzzle" : "puzzles"}`);
+      if (result.failures.length > 0) {
+        showError(
+          `${result.failures.length} could not be published`,
+          result.failures.map((failure) => `${failure.date}: ${failure.message}`).join("; "),
+        );
+      }
+    } catch (err) {
+      showError("Auto-schedule failed", err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const moveWindow = (offset: number) => {
+    setStartDate(addDays(startDate, offset));
+    setSwapSource(null);
+  };
+
+  const error = published.error ?? approved.error;
+
+  return (
+    <Box
+      display="flex"
+      flexDirection="column"
+      alignItems="center"
+      gap="md"
+      padding="4"
+      className="admin-page"
+    >
+      <Heading size="xl" responsive>
+        Schedule
+      </Heading>
+
+      <AutoSchedulePanel
+        bufferDays={DEFAULT_BUFFER_DAYS}
+        plan={autoPlan}
+        isRunning={isApplying}
+        onPreview={() => runAutoSchedule(true)}
+        onPublish={() => runAutoSchedule(false)}
+        onDiscard={() => setAutoPlan(null)}
+      />
+
+      <Box display="flex" justifyContent="space-between" alignItems="center" gap="sm" width="full">
+        <Button variant="outline" size="sm" onClick={() => moveWindow(-7)}>
+          Previous Week
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={startDate === today}
+          onClick={() => {
+            setStartDate(today);
+            setSwapSource(null);
+          }}
+        >
+          Today
+        </Button>
+        <Button variant="outline" size="sm" onClick={() => moveWindow(7)}>
+          Next Week
+        </Button>
+      </Box>
+
+      {published.isLoading && <Spinner size="lg" />}
+
+      {error && (
+        <Box display="flex" flexDirection="column" alignItems="center">
+          <Text>Failed to load schedule</Text>
+          <Text semantic="secondary">{error.message}</Text>
+        </Box>
+      )}
+
+      {published.data && (
+        <>
+          <Text semantic={gapCount > 0 ? "warning" : "success"}>
+            {gapCount > 0
+              ? `${gapCount} ${gapCount === 1 ? "day needs" : "days need"} a puzzle between ${formatDate(startDate)} and ${formatDate(endDate)}`
+              : "Every upcoming day in this range has a puzzle"}
+          </Text>
+          {swapSource && (
+            <Text size="sm" semantic="secondary">
+              Pick a day to swap with {formatDate(swapSource)}
+            </Text>
+          )}
+
+          <div className="schedule-calendar">
+            {days.map((day) => (
+              <ScheduleDayCard
+                key={day.date}
+                day={day}
+                approvedPuzzles={approvedPuzzles}
+                swapSource={swapSource}
+                isUpdating={isApplying}
+                onAssign={(puzzle) => handleAssign(day, puzzle)}
+                onStartSwap={() => setSwapSource(day.date)}
+                onSwapHere={() => handleSwap(day)}
+                onCancelSwap={() => setSwapSource(null)}
+              />
+            ))}
+          </div>
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,72 @@
+/**
+ * Auth Provider
+ *
+ * Tracks the Supabase session and exposes magic-link sign-in and sign-out.
+ * The session itself is persisted and refreshed by the Supabase client.
+ */
+
+import { ReactNode, useCallback, useEffect, useMemo, useState } from 'react';
+import type { Session } from '@supabase/supabase-js';
+import { supabase } from '../lib/supabase/client';
+import { AuthContext, type AuthContextValue } from './useAuth';
+import { trackEvent, EVENTS } from '../services/analytics';
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export function AuthProvider({ children }: AuthProviderProps) {
+  const [session, setSession] = useState<Session | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+
+  // Fires with the initial session on subscribe, then on every sign-in/out
+  useEffect(() => {
+    const {
+      data: { subscription },
+    } = supabase.auth.onAuthStateChange((_event, nextSession) => {
+      setSession(nextSession);
+      setIsLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const sendMagicLink = useCallback(async (email: string) => {
+    const { error } = await supabase.auth.signInWithOtp({
+      email,
+      options: {
+        // detectSessionInUrl picks the session up when the link is opened
+        emailRedirectTo: `${window.location.origin}/account`,
+      },
+    });
+
+    if (error) {
+      throw new Error(`Failed to send sign-in link: ${error.message}`);
+    }
+
+    trackEvent(EVENTS.SIGN_IN_LINK_SENT);
+  }, []);
+
+  const signOut = useCallback(async () => {
+    const { error } = await supabase.auth.signOut();
+
+    if (error) {
+      throw new Error(`Failed to sign out: ${error.message}`);
+    }
+
+    trackEvent(EVENTS.SIGNED_OUT);
+  }, []);
+
+  const value = useMemo<AuthContextValue>(
+    () => ({
+      session,
+      user: session?.user ?? null,
+      isLoading,
+      sendMagicLink,
+      signOut,
+    }),
+    [session, isLoading, sendMagicLink, signOut]
+  );
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+}
@@ -5,17 +5,79 @@
  * Makes stats storage available to all components via context.
  */
 
-import { ReactNode } from 'react';
-import { StatsContext, statsStorage } from './useStatsContext';
+import { ReactNode, useEffect, useState } from 'react';
+import {
+  StatsContext,
+  StatsMigrationContext,
+  statsStorage,
+  remoteStatsStorage,
+} from './useStatsContext';
+import { ArchiveContext, archiveStorage } from './useArchiveContext';
+import { useStorage } from './useStorage';
+import { useAuth } from './useAuth';
+import {
+  hasMigratedLocalStats,
+  markLocalStatsMigrated,
+  migrateLocalStats,
+  type StatsMigrationResult,
+} from '../services/statsMigration';
+import type { IStatsStorage } from '../types';
 
 interface StatsProviderProps {
   children: ReactNode;
 }
 
 /**
- * Provides stats context to children.
- * Single stats storage instance shared across the app.
+ * Provides stats and archive contexts to children.
+ * Signed-in players get Supabase-backed stats so they follow them across
+ * devices; anonymous players use localStorage. On the first sign-in on a
+ * device, local history is merged into the account before switching.
  */
 export function StatsProvider({ children }: StatsProviderProps) {
-  return <StatsContext.Provider value={statsStorage}>{children}</StatsContext.Provider>;
+  const puzzleStorage = useStorage();
+  const { user } = useAuth();
+  const userId = user?.id ?? null;
+  const [mergedUserId, setMergedUserId] = useState<string | null>(null);
+  const [migrationResult, setMigrationResult] = useState<StatsMigrationResult | null>(null);
+
+  useEffect(() => {
+    if (!userId || hasMigratedLocalStats(userId)) {
+      return;
+    }
+
+    let cancelled = false;
+
+    migrateLocalStats(statsStorage, remoteStatsStorage, puzzleStorage)
+      .then((result) => {
+        markLocalStatsMigrated(userId);
+        if (!cancelled) {
+          setMigrationResult(result);
+        }
+      })
+      .catch((error) => {
+        console.error('Failed to merge local stats into account:', error);
+      })
+      .finally(() => {
+        if (!cancelled) {
+          setMergedUserId(userId);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, puzzleStorage]);
+
+  // Stay on local stats until the merge has finished
+  const remoteReady =
+    userId !== null && (mergedUserId === userId || hasMigratedLocalStats(userId));
+  const storage: IStatsStorage = remoteReady ? remoteStatsStorage : statsStorage;
+
+  return (
+    <StatsContext.Provider value={storage}>
+      <StatsMigrationContext.Provider value={migrationResult}>
+        <ArchiveContext.Provider value={archiveStorage}>{children}</ArchiveContext.Provider>
+      </StatsMigrationContext.Provider>
+    </StatsContext.Provider>
+  );
 }
@@ -1,17 +1,20 @@
 /**
  * Storage Provider
  *
- * Provides puzzle storage instance throughout the app.
+ * Provides puzzle, group, group feedback and gameplay storage instances throughout the app.
  * Makes storage available to all components via context.
  */
 
 import { ReactNode } from 'react';
-import { supabase } from '../lib/supabase/client';
-import { SupabaseStorage } from '../lib/supabase/storage';
-import { StorageContext } from './useStorageContext';
-
-// Create storage instance (singleton)
-const storage = new SupabaseStorage(supabase);
+import { StorageContext, storage } from './useStorageContext';
+import {
+  GroupStorageContext,
+  GroupFeedbackStorageContext,
+  GameplayStorageContext,
+  groupStorage,
+  groupFeedbackStorage,
+  gameplayStorage,
+} from './useGroupStorageContext';
 
 interface StorageProviderProps {
   children: ReactNode;
@@ -22,5 +25,15 @@ interface StorageProviderProps {
  * Single storage instance shared across the app.
  */
 export function StorageProvider({ children }: StorageProviderProps) {
-  return <StorageContext.Provider value={storage}>{children}</StorageContext.Provider>;
+  return (
+    <StorageContext.Provider value={storage}>
+      <GroupStorageContext.Provider value={groupStorage}>
+        <GroupFeedbackStorageContext.Provider value={groupFeedbackStorage}>
+          <GameplayStorageContext.Provider value={gameplayStorage}>
+            {children}
+          </GameplayStorageContext.Provider>
+        </GroupFeedbackStorageContext.Provider>
+      </GroupStorageContext.Provider>
+    </StorageContext.Provider>
+  );
 }
@@ -0,0 +1,12 @@
+/**
+ * useArchive Hook
+ *
+ * Hook to access archive game storage from context.
+ */
+
+import { useContext } from 'react';
+import { ArchiveContext } from './useArchiveContext';
+
+export function useArchive() {
+  return useContext(ArchiveContext);
+}
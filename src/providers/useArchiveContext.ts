@@ -0,0 +1,15 @@
+/**
+ * Archive Context
+ *
+ * Context for archive game storage instance.
+ * Separated from provider for React Fast Refresh compliance.
+ */
+
+import { createContext } from 'react';
+import { LocalArchiveStorage } from '../services/LocalArchiveStorage';
+import type { IArchiveStorage } from '../types';
+
+// Create singleton instance - shared across the app
+export const archiveStorage = new LocalArchiveStorage();
+
+export const ArchiveContext = createContext<IArchiveStorage>(archiveStorage);
@@ -0,0 +1,12 @@
+/**
+ * useGameplayStorage Hook
+ *
+ * Hook to access gameplay storage from context.
+ */
+
+import { useContext } from 'react';
+import { GameplayStorageContext } from './useGroupStorageContext';
+
+export function useGameplayStorage() {
+  return useContext(GameplayStorageContext);
+}
@@ -0,0 +1,12 @@
+/**
+ * useGroupFeedbackStorage Hook
+ *
+ * Hook to access group feedback storage from context.
+ */
+
+import { useContext } from 'react';
+import { GroupFeedbackStorageContext } from './useGroupStorageContext';
+
+export function useGroupFeedbackStorage() {
+  return useContext(GroupFeedbackStorageContext);
+}
@@ -0,0 +1,12 @@
+/**
+ * useGroupStorage Hook
+ *
+ * Hook to access connection group storage from context.
+ */
+
+import { useContext } from 'react';
+import { GroupStorageContext } from './useGroupStorageContext';
+
+export function useGroupStorage() {
+  return useContext(GroupStorageContext);
+}
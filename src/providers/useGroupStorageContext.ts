@@ -0,0 +1,32 @@
+/**
+ * Group Storage Context
+ *
+ * React contexts for accessing connection group and group feedback storage,
+ * and the gameplay storage used to calibrate group difficulty.
+ * Separated from provider for React Fast Refresh compliance.
+ */
+
+import { createContext } from 'react';
+import { supabase, STORAGE_BACKEND } from '../lib/supabase/client';
+import {
+  SupabaseGroupStorage,
+  SupabaseGroupFeedbackStorage,
+  SupabaseGameplayStorage,
+} from '../lib/supabase/storage';
+import type {
+  IGroupStorage,
+  IGroupFeedbackStorage,
+  IGameplayStorage,
+} from '../lib/supabase/storage';
+import { LocalGroupStorage } from '../services/LocalGroupStorage';
+
+// Create storage instances (singletons)
+export const groupStorage: IGroupStorage =
+  STORAGE_BACKEND === 'local' ? new LocalGroupStorage() : new SupabaseGroupStorage(supabase);
+export const groupFeedbackStorage = new SupabaseGroupFeedbackStorage(supabase);
+export const gameplayStorage = new SupabaseGameplayStorage(supabase);
+
+export const GroupStorageContext = createContext<IGroupStorage>(groupStorage);
+export const GroupFeedbackStorageContext =
+  createContext<IGroupFeedbackStorage>(groupFeedbackStorage);
+export const GameplayStorageContext = createContext<IGameplayStorage>(gameplayStorage);
@@ -6,10 +6,17 @@
  */
 
 import { createContext } from 'react';
+import { supabase } from '../lib/supabase/client';
+import { SupabaseStatsStorage } from '../lib/supabase/storage';
 import { LocalStatsStorage } from '../services/LocalStatsStorage';
+import type { StatsMigrationResult } from '../services/statsMigration';
 import type { IStatsStorage } from '../types';
 
-// Create singleton instance - shared across the app
+// Create singleton instances - shared across the app
 export const statsStorage = new LocalStatsStorage();
+export const remoteStatsStorage = new SupabaseStatsStorage(supabase);
 
 export const StatsContext = createContext<IStatsStorage>(statsStorage);
+
+// Result of merging local stats into an account, once it has run
+export const StatsMigrationContext = createContext<StatsMigrationResult | null>(null);
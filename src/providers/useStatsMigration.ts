@@ -0,0 +1,12 @@
+/**
+ * useStatsMigration Hook
+ *
+ * Hook to access the result of merging local stats into an account.
+ */
+
+import { useContext } from 'react';
+import { StatsMigrationContext } from './useStatsContext';
+
+export function useStatsMigration() {
+  return useContext(StatsMigrationContext);
+}
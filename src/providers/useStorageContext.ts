@@ -5,12 +5,17 @@
  */
 
 import { createContext } from 'react';
-import { supabase } from '../lib/supabase/client';
+import { supabase, STORAGE_BACKEND } from '../lib/supabase/client';
 import { SupabaseStorage } from '../lib/supabase/storage';
 import type { IPuzzleStorage } from '../lib/supabase/storage';
+import { LocalPuzzleStorage } from '../services/LocalPuzzleStorage';
+import { groupStorage } from './useGroupStorageContext';
 
 // Create storage instance (singleton)
-const storage = new SupabaseStorage(supabase);
+export const storage: IPuzzleStorage =
+  STORAGE_BACKEND === 'local'
+    ? new LocalPuzzleStorage(groupStorage)
+    : new SupabaseStorage(supabase);
 
 // Create context with the storage instance
 export const StorageContext = createContext<IPuzzleStorage>(storage);
@@ -0,0 +1,58 @@
+/**
+ * Local Archive Storage
+ *
+ * Implements archive game storage using browser localStorage.
+ * Kept under its own key so past puzzles never touch daily stats or streaks.
+ */
+
+import type { IArchiveStorage, GameResult } from '../types/stats';
+
+const STORAGE_KEY = 'filmclues-archive';
+
+/**
+ * LocalArchiveStorage
+ *
+ * Stores results of archive puzzles in browser localStorage.
+ * One result is kept per puzzle date.
+ */
+export class LocalArchiveStorage implements IArchiveStorage {
+  /**
+   * Get archive results from localStorage
+   */
+  async getArchiveHistory(): Promise<GameResult[]> {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      if (!stored) {
+        return [];
+      }
+
+      return JSON.parse(stored) as GameResult[];
+    } catch (error) {
+      console.error('Failed to get archive history from localStorage:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record a completed archive game
+   */
+  async recordArchiveCompletion(result: GameResult): Promise<GameResult[]> {
+    try {
+      const history = await this.getArchiveHistory();
+
+      // Don't record the same puzzle twice
+      if (history.some((game) => game.date === result.date)) {
+        console.warn(`Archive game already recorded for ${result.date}`);
+        return history;
+      }
+
+      const updatedHistory = [...history, result];
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(updatedHistory));
+
+      return updatedHistory;
+    } catch (error) {
+      console.error('Failed to record archive game:', error);
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * Local Group Storage
+ *
+ * Implements IGroupStorage in memory, seeded from JSON fixtures and
+ * optionally persisted to browser localStorage. Lets development,
+ * Storybook and tests run without a Supabase project.
+ */
+
+import type {
+  IGroupStorage,
+  StoredGroup,
+  GroupInput,
+  GroupListFilters,
+  GroupListResult,
+  GroupUpdate,
+} from '../lib/supabase/storage';
+import groupFixtures from './fixtures/groups.json';
+
+const STORAGE_KEY = 'filmclues-local-groups';
+
+// Fixture groups get fixed creation times, a minute apart
+const FIXTURE_CREATED_AT = Date.UTC(2025, 0, 1);
+
+type GroupFixture = Omit<StoredGroup, 'createdAt' | 'usageCount' | 'lastUsedAt'>;
+
+export interface LocalStorageOptions<T> {
+  // Records to start from when nothing is persisted (defaults to the fixtures)
+  seed?: T[];
+  // Keep records in localStorage between page loads (defaults to true)
+  persist?: boolean;
+}
+
+/**
+ * Id for a record created locally
+ */
+export function createLocalId(): string {
+  return `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Stored groups built from the JSON fixtures
+ */
+export function getFixtureGroups(): StoredGroup[] {
+  return (groupFixtures as GroupFixture[]).map((group, index) => ({
+    ...group,
+    createdAt: FIXTURE_CREATED_AT + index * 60 * 1000,
+    usageCount: 0,
+    lastUsedAt: null,
+  }));
+}
+
+const matches = <T>(value: T | null, filter: T | T[] | undefined) =>
+  filter === undefined ||
+  (value !== null && (Array.isArray(filter) ? filter.includes(value) : filter === value));
+
+/**
+ * LocalGroupStorage
+ *
+ * Keeps connection groups in memory. Mirrors the Supabase implementation,
+ * including skipping batch inserts whose connection already exists.
+ */
+export class LocalGroupStorage implements IGroupStorage {
+  private groups: Map<string, StoredGroup>;
+  private persist: boolean;
+
+  constructor({ seed, persist = true }: LocalStorageOptions<StoredGroup> = {}) {
+    this.persist = persist;
+    const initial = (persist && this.load()) || seed || getFixtureGroups();
+    this.groups = new Map(initial.map((group) => [group.id, group]));
+  }
+
+  private load(): StoredGroup[] | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as StoredGroup[]) : null;
+    } catch (error) {
+      console.error('Failed to load local groups from localStorage:', error);
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([...this.groups.values()]));
+    } catch (error) {
+      console.error('Failed to save local groups to localStorage:', error);
+    }
+  }
+
+  private createGroup(group: GroupInput): StoredGroup {
+    const stored: StoredGroup = {
+      ...group,
+      id: createLocalId(),
+      createdAt: Date.now(),
+      usageCount: 0,
+      lastUsedAt: null,
+    };
+    this.groups.set(stored.id, stored);
+    return stored;
+  }
+
+  async saveGroup(group: GroupInput): Promise<StoredGroup> {
+    if (this.hasConnection(group.connection)) {
+      throw new Error(`Failed to save group: connection "${group.connection}" already exists`);
+    }
+
+    const stored = this.createGroup(group);
+    this.save();
+    return stored;
+  }
+
+  async saveBatch(groups: GroupInput[]): Promise<StoredGroup[]> {
+    // Skip groups with duplicate connections, like the database upsert
+    const saved = groups
+      .filter((group) => !this.hasConnection(group.connection))
+      .map((group) => this.createGroup(group));
+    this.save();
+    return saved;
+  }
+
+  async getGroup(id: string): Promise<StoredGroup | null> {
+    return this.groups.get(id) ?? null;
+  }
+
+  async getGroupsByIds(ids: string[]): Promise<StoredGroup[]> {
+    return ids
+      .map((id) => this.groups.get(id))
+      .filter((group): group is StoredGroup => group !== undefined);
+  }
+
+  async getGroupsByConnections(connections: string[]): Promise<StoredGroup[]> {
+    const byConnection = new Map(
+      [...this.groups.values()].map((group) => [group.connection, group])
+    );
+    return connections
+      .map((connection) => byConnection.get(connection))
+      .filter((group): group is StoredGroup => group !== undefined);
+  }
+
+  async listGroups(filters?: GroupListFilters): Promise<GroupListResult> {
+    const search = filters?.search?.toLowerCase();
+    // Newest first; reversing insertion order breaks ties between groups saved in the same millisecond
+    const matching = [...this.groups.values()]
+      .reverse()
+      .filter((group) => matches(group.status, filters?.status))
+      .filter((group) => matches(group.color, filters?.color))
+      .filter((group) => matches(group.connectionType, filters?.connectionType))
+      .filter((group) => !search || group.connection.toLowerCase().includes(search))
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const limit = filters?.limit ?? 50;
+    const offset = filters?.offset ?? 0;
+
+    return {
+      groups: matching.slice(offset, offset + limit),
+      total: matching.length,
+    };
+  }
+
+  async updateGroup(id: string, updates: GroupUpdate): Promise<StoredGroup> {
+    const group = this.groups.get(id);
+    if (!group) {
+      throw new Error(`Failed to update group: group ${id} not found`);
+    }
+
+    const definedUpdates = Object.fromEntries(
+      Object.entries(updates).filter(([, value]) => value !== undefined)
+    ) as GroupUpdate;
+    const updated = { ...group, ...definedUpdates };
+    this.groups.set(id, updated);
+    this.save();
+    return updated;
+  }
+
+  async deleteGroup(id: string): Promise<void> {
+    this.groups.delete(id);
+    this.save();
+  }
+
+  async incrementUsage(groupIds: string[]): Promise<void> {
+    const now = Date.now();
+    for (const id of groupIds) {
+      const group = this.groups.get(id);
+      if (group) {
+        this.groups.set(id, { ...group, usageCount: group.usageCount + 1, lastUsedAt: now });
+      }
+    }
+    this.save();
+  }
+
+  private hasConnection(connection: string): boolean {
+    return [...this.groups.values()].some((group) => group.connection === connection);
+  }
+}
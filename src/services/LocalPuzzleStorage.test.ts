@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { LocalPuzzleStorage, getFixturePuzzles } from './LocalPuzzleStorage';
+import { LocalGroupStorage, getFixtureGroups } from './LocalGroupStorage';
+import { validatePuzzleGroups } from './puzzle/validation';
+
+describe('LocalPuzzleStorage', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should seed fixture puzzles that are all valid', () => {
+    const groups = new Map(getFixtureGroups().map((group) => [group.id, group]));
+
+    for (const puzzle of getFixturePuzzles()) {
+      const puzzleGroups = puzzle.groupIds.map((id) => groups.get(id));
+      expect(puzzleGroups.every(Boolean)).toBe(true);
+      expect(validatePuzzleGroups(puzzleGroups.filter((group) => group !== undefined))).toEqual([]);
+    }
+  });
+
+  it('should date fixture puzzles around today', async () => {
+    const storage = new LocalPuzzleStorage(new LocalGroupStorage());
+
+    const today = await storage.getDailyPuzzle('2025-06-01');
+
+    expect(today?.films).toHaveLength(16);
+    expect(await storage.getPublishedDates('2025-06-01')).toEqual(['2025-06-01', '2025-05-31']);
+    expect(await storage.getEvergreenDates('2025-06-01')).toEqual(['2025-05-31']);
+  });
+
+  it('should keep changes across instances when persisting', async () => {
+    const groupStorage = new LocalGroupStorage();
+    const storage = new LocalPuzzleStorage(groupStorage);
+    const [approved] = (await storage.listPuzzles({ status: 'approved' })).puzzles;
+
+    await storage.updatePuzzle(approved.id, { status: 'published', puzzleDate: '2025-06-03' });
+
+    const reloaded = new LocalPuzzleStorage(new LocalGroupStorage());
+    expect(await reloaded.getDailyPuzzle('2025-06-03')).not.toBeNull();
+  });
+
+  it('should start from the seed alone when not persisting', async () => {
+    localStorage.setItem('filmclues-local-puzzles', JSON.stringify([]));
+
+    const storage = new LocalPuzzleStorage(new LocalGroupStorage({ persist: false }), {
+      persist: false,
+    });
+
+    expect((await storage.listPuzzles()).total).toBe(getFixturePuzzles().length);
+  });
+});
@@ -0,0 +1,304 @@
+/**
+ * Local Puzzle Storage
+ *
+ * Implements IPuzzleStorage in memory, seeded from JSON fixtures and
+ * optionally persisted to browser localStorage. Groups are resolved
+ * through an IGroupStorage, as the Supabase implementation joins
+ * connection_groups.
+ */
+
+import type { Group, SavedPuzzle } from '../types';
+import type {
+  IGroupStorage,
+  IPuzzleStorage,
+  StoredGroup,
+  StoredPuzzle,
+  PuzzleInput,
+  PuzzleListFilters,
+  PuzzleListResult,
+  PuzzleUpdate,
+} from '../lib/supabase/storage';
+import { createLocalId, type LocalStorageOptions } from './LocalGroupStorage';
+import { assertValidPuzzle } from './puzzle/validation';
+import { addDays } from './scheduling/calendar';
+import { getTodayDate } from '../utils/index';
+import puzzleFixtures from './fixtures/puzzles.json';
+
+const STORAGE_KEY = 'filmclues-local-puzzles';
+
+// Fixture puzzles get fixed creation times, a minute apart
+const FIXTURE_CREATED_AT = Date.UTC(2025, 0, 1);
+
+/**
+ * Fixture puzzles are dated relative to the day they're loaded,
+ * so there's always a puzzle for today
+ */
+interface PuzzleFixture extends Omit<StoredPuzzle, 'createdAt' | 'puzzleDate' | 'groups'> {
+  // Days from today, or null for no date
+  dayOffset: number | null;
+}
+
+/**
+ * Puzzle as kept in memory, with the group snapshot taken at publish time
+ */
+interface LocalPuzzle extends Omit<StoredPuzzle, 'groups'> {
+  snapshot?: Group[];
+}
+
+/**
+ * Local puzzles built from the JSON fixtures
+ *
+ * @param today - Date the fixture offsets count from (YYYY-MM-DD)
+ */
+export function getFixturePuzzles(today: string = getTodayDate()): StoredPuzzle[] {
+  return (puzzleFixtures as PuzzleFixture[]).map(({ dayOffset, ...puzzle }, index) => ({
+    ...puzzle,
+    createdAt: FIXTURE_CREATED_AT + index * 60 * 1000,
+    puzzleDate: dayOffset === null ? null : addDays(today, dayOffset),
+  }));
+}
+
+function toLocalPuzzle(puzzle: StoredPuzzle): LocalPuzzle {
+  const local: StoredPuzzle = { ...puzzle };
+  delete local.groups;
+  return local;
+}
+
+function fromLocalPuzzle(puzzle: LocalPuzzle): Omit<StoredPuzzle, 'groups'> {
+  const stored: LocalPuzzle = { ...puzzle };
+  delete stored.snapshot;
+  return stored;
+}
+
+/**
+ * Convert a stored group to the game's Group, with the same defaults
+ * as the Supabase implementation
+ */
+function toGroup(group: StoredGroup): Group {
+  return {
+    id: group.id,
+    films: group.films,
+    connection: group.connection,
+    difficulty: group.difficulty ?? 'medium',
+    color: group.color ?? 'green',
+  };
+}
+
+/**
+ * LocalPuzzleStorage
+ *
+ * Keeps puzzles in memory. Mirrors the database rules: puzzle dates are
+ * unique, publishing validates and snapshots the groups, and unpublishing
+ * clears the date.
+ */
+export class LocalPuzzleStorage implements IPuzzleStorage {
+  private puzzles: Map<string, LocalPuzzle>;
+  private persist: boolean;
+
+  constructor(
+    private groupStorage: IGroupStorage,
+    { seed, persist = true }: LocalStorageOptions<StoredPuzzle> = {}
+  ) {
+    this.persist = persist;
+    const initial = (persist && this.load()) || seed || getFixturePuzzles();
+    this.puzzles = new Map(initial.map((puzzle) => [puzzle.id, toLocalPuzzle(puzzle)]));
+  }
+
+  private load(): LocalPuzzle[] | null {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY);
+      return stored ? (JSON.parse(stored) as LocalPuzzle[]) : null;
+    } catch (error) {
+      console.error('Failed to load local puzzles from localStorage:', error);
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.persist) return;
+
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify([...this.puzzles.values()]));
+    } catch (error) {
+      console.error('Failed to save local puzzles to localStorage:', error);
+    }
+  }
+
+  /**
+   * Check that the referenced groups make a solvable puzzle.
+   * Returns the groups in order.
+   */
+  private async validateGroupIds(groupIds: string[]): Promise<StoredGroup[]> {
+    const groups = await this.groupStorage.getGroupsByIds(groupIds);
+    assertValidPuzzle(groups);
+    return groups;
+  }
+
+  private async withGroups(puzzle: LocalPuzzle): Promise<StoredPuzzle> {
+    const groups = await this.groupStorage.getGroupsByIds(puzzle.groupIds);
+    return { ...fromLocalPuzzle(puzzle), groups: groups.map(toGroup) };
+  }
+
+  private publishedOnOrBefore(dateTo: string): LocalPuzzle[] {
+    return [...this.puzzles.values()]
+      .filter((puzzle) => puzzle.status === 'published' && puzzle.puzzleDate !== null)
+      .filter((puzzle) => (puzzle.puzzleDate as string) <= dateTo)
+      .sort((a, b) => (b.puzzleDate as string).localeCompare(a.puzzleDate as string));
+  }
+
+  async savePuzzle(puzzle: PuzzleInput): Promise<StoredPuzzle> {
+    await this.validateGroupIds(puzzle.groupIds);
+
+    const stored: LocalPuzzle = {
+      id: createLocalId(),
+      createdAt: Date.now(),
+      puzzleDate: null,
+      title: puzzle.title ?? null,
+      groupIds: puzzle.groupIds,
+      status: 'pending',
+      metadata: puzzle.metadata,
+    };
+    this.puzzles.set(stored.id, stored);
+    this.save();
+
+    return fromLocalPuzzle(stored);
+  }
+
+  async getPuzzle(id: string): Promise<StoredPuzzle | null> {
+    const puzzle = this.puzzles.get(id);
+    return puzzle ? this.withGroups(puzzle) : null;
+  }
+
+  // All local puzzles are films puzzles, so genre is ignored
+  async getDailyPuzzle(date: string): Promise<SavedPuzzle | null> {
+    const puzzle = [...this.puzzles.values()].find(
+      (candidate) => candidate.status === 'published' && candidate.puzzleDate === date
+    );
+    if (!puzzle) {
+      return null;
+    }
+
+    const groups =
+      puzzle.snapshot ??
+      (await this.groupStorage.getGroupsByIds(puzzle.groupIds)).map(toGroup);
+
+    return {
+      id: puzzle.id,
+      groups,
+      films: groups.flatMap((group) => group.films),
+      createdAt: puzzle.createdAt,
+      metadata: puzzle.metadata,
+    };
+  }
+
+  async getPublishedDates(dateTo: string): Promise<string[]> {
+    return this.publishedOnOrBefore(dateTo).map((puzzle) => puzzle.puzzleDate as string);
+  }
+
+  async getEvergreenDates(dateTo: string): Promise<string[]> {
+    return this.publishedOnOrBefore(dateTo)
+      .filter((puzzle) => puzzle.metadata?.evergreen === true)
+      .map((puzzle) => puzzle.puzzleDate as string);
+  }
+
+  async listPuzzles(filters?: PuzzleListFilters): Promise<PuzzleListResult> {
+    const statuses = filters?.status === undefined ? undefined : [filters.status].flat();
+    const dateFrom = filters?.dateFrom;
+    const dateTo = filters?.dateTo;
+
+    // Date filters leave out undated puzzles, as the SQL comparisons do.
+    // Newest first; reversing insertion order breaks ties between puzzles saved in the same millisecond.
+    const matching = [...this.puzzles.values()]
+      .reverse()
+      .filter((puzzle) => !statuses || statuses.includes(puzzle.status))
+      .filter((puzzle) => !dateFrom || (puzzle.puzzleDate !== null && puzzle.puzzleDate >= dateFrom))
+      .filter((puzzle) => !dateTo || (puzzle.puzzleDate !== null && puzzle.puzzleDate <= dateTo))
+      .sort((a, b) => b.createdAt - a.createdAt);
+
+    const limit = filters?.limit ?? 50;
+    const offset = filters?.offset ?? 0;
+
+    return {
+      puzzles: await Promise.all(
+        matching.slice(offset, offset + limit).map((puzzle) => this.withGroups(puzzle))
+      ),
+      total: matching.length,
+    };
+  }
+
+  async updatePuzzle(id: string, updates: PuzzleUpdate): Promise<StoredPuzzle> {
+    const puzzle = this.puzzles.get(id);
+    if (!puzzle) {
+      throw new Error(`Failed to update puzzle: puzzle ${id} not found`);
+    }
+
+    const updated: LocalPuzzle = { ...puzzle };
+
+    if (updates.status !== undefined) {
+      updated.status = updates.status;
+    }
+
+    if (updates.puzzleDate !== undefined) {
+      updated.puzzleDate = updates.puzzleDate ?? null;
+    }
+
+    if (updates.metadata !== undefined) {
+      updated.metadata = updates.metadata;
+    }
+
+    // If publishing, validate and snapshot the group data
+    if (updates.status === 'published') {
+      const groups = await this.validateGroupIds(puzzle.groupIds);
+      updated.snapshot = groups.map(toGroup);
+    }
+
+    // Unpublishing frees the date for another puzzle
+    if (puzzle.status === 'published' && updated.status !== 'published') {
+      updated.puzzleDate = null;
+    }
+
+    // Mirrors the check_published_has_date constraint
+    if (updated.status === 'published' && updated.puzzleDate === null) {
+      throw new Error('Failed to update puzzle: published puzzles need a date');
+    }
+
+    const taken = [...this.puzzles.values()].some(
+      (other) => other.id !== id && other.puzzleDate !== null && other.puzzleDate === updated.puzzleDate
+    );
+    if (taken) {
+      throw new Error(`Failed to update puzzle: ${updated.puzzleDate} already has a puzzle`);
+    }
+
+    this.puzzles.set(id, updated);
+    this.save();
+
+    return this.withGroups(updated);
+  }
+
+  async swapPuzzleDates(firstId: string, secondId: string): Promise<void> {
+    const first = this.puzzles.get(firstId);
+    const second = this.puzzles.get(secondId);
+    if (!first || !second) {
+      const missingId = first ? secondId : firstId;
+      throw new Error(`Failed to swap puzzle dates: puzzle ${missingId} not found`);
+    }
+    if (first.puzzleDate === null || second.puzzleDate === null) {
+      throw new Error('Failed to swap puzzle dates: both puzzles must be scheduled');
+    }
+    const today = getTodayDate();
+    if (first.puzzleDate <= today || second.puzzleDate <= today) {
+      throw new Error(
+        'Failed to swap puzzle dates: puzzles dated today or earlier cannot be moved'
+      );
+    }
+
+    this.puzzles.set(firstId, { ...first, puzzleDate: second.puzzleDate });
+    this.puzzles.set(secondId, { ...second, puzzleDate: first.puzzleDate });
+    this.save();
+  }
+
+  async deletePuzzle(id: string): Promise<void> {
+    this.puzzles.delete(id);
+    this.save();
+  }
+}
@@ -12,7 +12,12 @@ export const EVENTS = {
 
   // Engagement
   STATS_VIEWED: "stats_viewed",
+  RESULT_SHARED: "result_shared",
   THEME_TOGGLED: "theme_toggled",
+
+  // Account
+  SIGN_IN_LINK_SENT: "sign_in_link_sent",
+  SIGNED_OUT: "signed_out",
 } as const;
 
 export type EventName = (typeof EVENTS)[keyof typeof EVENTS];
@@ -0,0 +1,159 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  aggregateGroupOutcomes,
+  calibrateDifficulty,
+  calibrateScore,
+  colorForScore,
+} from './difficultyCalibration';
+import { LocalGroupStorage } from '../LocalGroupStorage';
+import { LocalPuzzleStorage } from '../LocalPuzzleStorage';
+import type { GameplayRecord, IGameplayStorage } from '../../lib/supabase/storage';
+import type { Group, GuessRecord } from '../../types';
+
+const filmIdsOf = (group: Group) => group.films.map((film) => film.id).sort((a, b) => a - b);
+
+const solve = (group: Group): GuessRecord => ({
+  filmIds: filmIdsOf(group),
+  correct: true,
+  groupId: group.id,
+});
+
+// Three films of one group and one of another
+const nearMiss = (group: Group, other: Group): GuessRecord => ({
+  filmIds: [...filmIdsOf(group).slice(0, 3), other.films[0].id],
+  correct: false,
+  groupId: null,
+});
+
+describe('aggregateGroupOutcomes', () => {
+  const groups = ['a', 'b', 'c', 'd'].map((id, index) => ({
+    id,
+    connection: id,
+    difficulty: 'medium' as const,
+    color: 'green' as const,
+    films: [1, 2, 3, 4].map((n) => ({ id: index * 10 + n, title: `${id}${n}`, year: 2000 })),
+  }));
+  const [a, b, c, d] = groups;
+
+  it('should count plays, solve order and one-away guesses per group', () => {
+    const outcomes = aggregateGroupOutcomes([
+      { guesses: [solve(a), nearMiss(c, d), solve(b), solve(c), solve(d)], groups },
+      { guesses: [solve(b), nearMiss(a, c), nearMiss(a, d), nearMiss(c, a)], groups },
+    ]);
+
+    expect(outcomes.get('a')).toEqual({
+      groupId: 'a',
+      plays: 2,
+      solves: 1,
+      solveOrderTotal: 1,
+      oneAways: 2,
+    });
+    expect(outcomes.get('b')).toMatchObject({ solves: 2, solveOrderTotal: 3 });
+    expect(outcomes.get('c')).toMatchObject({ solves: 1, solveOrderTotal: 3, oneAways: 2 });
+  });
+});
+
+describe('calibrateScore', () => {
+  it('should score groups always solved first as easiest', () => {
+    expect(
+      calibrateScore({ groupId: 'a', plays: 10, solves: 10, solveOrderTotal: 10, oneAways: 0 })
+    ).toBe(0);
+  });
+
+  it('should score never-solved, often-missed groups as hardest', () => {
+    expect(
+      calibrateScore({ groupId: 'a', plays: 10, solves: 0, solveOrderTotal: 0, oneAways: 12 })
+    ).toBe(10000);
+  });
+
+  it('should map scores onto colors', () => {
+    expect([1000, 4000, 6000, 9000].map(colorForScore)).toEqual([
+      'yellow',
+      'green',
+      'blue',
+      'purple',
+    ]);
+  });
+});
+
+describe('calibrateDifficulty', () => {
+  let groupStorage: LocalGroupStorage;
+  let puzzleStorage: LocalPuzzleStorage;
+  let groups: Group[];
+
+  const gameplayStorageWith = (records: GameplayRecord[]) => {
+    const listGameplay = vi.fn().mockResolvedValue(records);
+    return { gameplayStorage: { listGameplay } as unknown as IGameplayStorage, listGameplay };
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+    groupStorage = new LocalGroupStorage({ persist: false });
+    puzzleStorage = new LocalPuzzleStorage(groupStorage, { persist: false });
+    groups = (await puzzleStorage.getDailyPuzzle('2025-06-01'))?.groups ?? [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  // Players always solve the groups in reverse of their color order
+  const reversedGames = (count: number, puzzleId: string): GameplayRecord[] =>
+    Array.from({ length: count }, () => ({
+      puzzleId,
+      puzzleDate: '2025-06-01',
+      completed: true,
+      mistakes: 0,
+      guesses: [...groups].reverse().map(solve),
+    }));
+
+  it('should recalculate scores and suggest recoloring', async () => {
+    const daily = await puzzleStorage.getDailyPuzzle('2025-06-01');
+    const { gameplayStorage, listGameplay } = gameplayStorageWith(
+      reversedGames(3, daily?.id as string)
+    );
+
+    const result = await calibrateDifficulty(gameplayStorage, puzzleStorage, groupStorage, {
+      minPlays: 3,
+      dateFrom: '2025-05-01',
+    });
+
+    expect(listGameplay).toHaveBeenCalledWith({ dateFrom: '2025-05-01' });
+    expect(result.gamesAnalyzed).toBe(3);
+    expect(result.calibrations).toHaveLength(4);
+
+    const [easiest, , , hardest] = groups;
+    const stored = await groupStorage.getGroup(easiest.id);
+    expect(stored?.difficultyScore).toBe(4000);
+    expect(result.recolorSuggestions.map((s) => [s.groupId, s.suggestedColor])).toEqual(
+      expect.arrayContaining([
+        [easiest.id, 'green'],
+        [hardest.id, 'yellow'],
+      ])
+    );
+  });
+
+  it('should leave groups with too few games and save nothing on a dry run', async () => {
+    const daily = await puzzleStorage.getDailyPuzzle('2025-06-01');
+    const { gameplayStorage } = gameplayStorageWith([
+      ...reversedGames(3, daily?.id as string),
+      // A puzzle no longer published on that date
+      ...reversedGames(5, 'replaced-puzzle'),
+    ]);
+    const before = await groupStorage.getGroup(groups[0].id);
+
+    const dryRun = await calibrateDifficulty(gameplayStorage, puzzleStorage, groupStorage, {
+      minPlays: 3,
+      dryRun: true,
+    });
+    const tooFew = await calibrateDifficulty(gameplayStorage, puzzleStorage, groupStorage, {
+      minPlays: 4,
+    });
+
+    expect(dryRun.gamesAnalyzed).toBe(3);
+    expect(dryRun.calibrations).toHaveLength(4);
+    expect(tooFew.calibrations).toEqual([]);
+    expect(await groupStorage.getGroup(groups[0].id)).toEqual(before);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Difficulty Calibration
+ *
+ * Recomputes group difficulty from real games. A group is harder the less
+ * often it's solved, the later it's solved in the game, and the more often
+ * players guess one film away from it. Groups whose measured difficulty
+ * falls in another color's range are suggested for re-coloring; colors are
+ * left for editors to change since they shape the whole puzzle.
+ */
+
+import type { DifficultyColor, Group } from '../../types';
+import type {
+  GameplayListFilters,
+  IGameplayStorage,
+  IGroupStorage,
+  IPuzzleStorage,
+} from '../../lib/supabase/storage';
+import { findOneAwayGroup } from '../../utils/guesses';
+
+/**
+ * Fewest games with a group before its score is recalculated
+ */
+export const MIN_PLAYS = 20;
+
+/**
+ * Upper bound of each color's difficultyScore range, easiest first
+ */
+const COLOR_SCORE_LIMITS: [DifficultyColor, number][] = [
+  ['yellow', 2500],
+  ['green', 5000],
+  ['blue', 7500],
+  ['purple', Infinity],
+];
+
+// Contribution of each signal to the calibrated score
+const UNSOLVED_WEIGHT = 0.45;
+const SOLVE_ORDER_WEIGHT = 0.4;
+const ONE_AWAY_WEIGHT = 0.15;
+
+const MAX_SCORE = 10000;
+
+/**
+ * How one group fared across games
+ */
+export interface GroupOutcome {
+  groupId: string;
+  plays: number;
+  solves: number;
+  /** Sum of the positions (1-4) the group was solved in */
+  solveOrderTotal: number;
+  /** Wrong guesses with three of the group's films */
+  oneAways: number;
+}
+
+export interface GroupCalibration {
+  groupId: string;
+  connection: string;
+  plays: number;
+  solveRate: number;
+  /** Average position the group is solved in, or null if never solved */
+  averageSolveOrder: number | null;
+  oneAwayRate: number;
+  currentScore: number;
+  calibratedScore: number;
+  currentColor: DifficultyColor | null;
+  suggestedColor: DifficultyColor;
+}
+
+export interface CalibrationFailure {
+  groupId: string;
+  message: string;
+}
+
+export interface CalibrationOptions extends GameplayListFilters {
+  minPlays?: number;
+  dryRun?: boolean;
+}
+
+export interface CalibrationResult {
+  dryRun: boolean;
+  /** Games that had guesses to learn from */
+  gamesAnalyzed: number;
+  calibrations: GroupCalibration[];
+  /** Calibrated groups whose color doesn't match their measured difficulty */
+  recolorSuggestions: GroupCalibration[];
+  failures: CalibrationFailure[];
+}
+
+/**
+ * Color whose difficultyScore range contains a score
+ */
+export function colorForScore(score: number): DifficultyColor {
+  return (COLOR_SCORE_LIMITS.find(([, limit]) => score < limit) ?? COLOR_SCORE_LIMITS[3])[0];
+}
+
+/**
+ * Tally solves, solve order and one-away guesses per group
+ *
+ * @param games - Ordered guesses of each game, with the puzzle's groups as played
+ */
+export function aggregateGroupOutcomes(
+  games: { guesses: { filmIds: number[]; groupId: string | null }[]; groups: Group[] }[]
+): Map<string, GroupOutcome> {
+  const outcomes = new Map<string, GroupOutcome>();
+  const outcomeFor = (groupId: string) => {
+    const outcome = outcomes.get(groupId) ?? {
+      groupId,
+      plays: 0,
+      solves: 0,
+      solveOrderTotal: 0,
+      oneAways: 0,
+    };
+    outcomes.set(groupId, outcome);
+    return outcome;
+  };
+
+  for (const { guesses, groups } of games) {
+    for (const group of groups) {
+      outcomeFor(group.id).plays++;
+    }
+
+    let solved = 0;
+    for (const guess of guesses) {
+      if (guess.groupId) {
+        const outcome = outcomeFor(guess.groupId);
+        outcome.solves++;
+        outcome.solveOrderTotal += ++solved;
+        continue;
+      }
+
+      const nearMiss = findOneAwayGroup(guess.filmIds, groups);
+      if (nearMiss) {
+        outcomeFor(nearMiss.id).oneAways++;
+      }
+    }
+  }
+
+  return outcomes;
+}
+
+/**
+ * Score a group from 0 (always solved first) to 10000 (never solved)
+ */
+export function calibrateScore(outcome: GroupOutcome): number {
+  const solveRate = outcome.solves / outcome.plays;
+  // 0 when always solved first, 1 when solved last or never
+  const lateness = outcome.solves > 0 ? (outcome.solveOrderTotal / outcome.solves - 1) / 3 : 1;
+  const oneAwayRate = Math.min(1, outcome.oneAways / outcome.plays);
+
+  const difficulty =
+    UNSOLVED_WEIGHT * (1 - solveRate) +
+    SOLVE_ORDER_WEIGHT * lateness +
+    ONE_AWAY_WEIGHT * oneAwayRate;
+
+  return Math.round(difficulty * MAX_SCORE);
+}
+
+/**
+ * Recalculate difficultyScore for every group with enough games and
+ * suggest new colors. With `dryRun` nothing is saved.
+ */
+export async function calibrateDifficulty(
+  gameplayStorage: IGameplayStorage,
+  puzzleStorage: IPuzzleStorage,
+  groupStorage: IGroupStorage,
+  { minPlays = MIN_PLAYS, dryRun = false, ...filters }: CalibrationOptions = {}
+): Promise<CalibrationResult> {
+  const records = (await gameplayStorage.listGameplay(filters)).filter(
+    (record) => record.guesses && record.guesses.length > 0
+  );
+
+  // Groups as players saw them on each date
+  const dates = [...new Set(records.map((record) => record.puzzleDate))];
+  const puzzles = await Promise.all(dates.map((date) => puzzleStorage.getDailyPuzzle(date)));
+  const puzzlesByDate = new Map(dates.map((date, index) => [date, puzzles[index]]));
+
+  const games = records.flatMap((record) => {
+    const puzzle = puzzlesByDate.get(record.puzzleDate);
+    // Skip games of a puzzle since replaced on that date
+    return puzzle && puzzle.id === record.puzzleId
+      ? [{ guesses: record.guesses ?? [], groups: puzzle.groups }]
+      : [];
+  });
+
+  const outcomes = [...aggregateGroupOutcomes(games).values()].filter(
+    (outcome) => outcome.plays >= minPlays
+  );
+  const storedGroups = await groupStorage.getGroupsByIds(outcomes.map((o) => o.groupId));
+  const storedById = new Map(storedGroups.map((group) => [group.id, group]));
+
+  const calibrations = outcomes.flatMap((outcome): GroupCalibration[] => {
+    const group = storedById.get(outcome.groupId);
+    if (!group) return [];
+
+    const calibratedScore = calibrateScore(outcome);
+    return [
+      {
+        groupId: group.id,
+        connection: group.connection,
+        plays: outcome.plays,
+        solveRate: outcome.solves / outcome.plays,
+        averageSolveOrder: outcome.solves > 0 ? outcome.solveOrderTotal / outcome.solves : null,
+        oneAwayRate: outcome.oneAways / outcome.plays,
+        currentScore: group.difficultyScore,
+        calibratedScore,
+        currentColor: group.color,
+        suggestedColor: colorForScore(calibratedScore),
+      },
+    ];
+  });
+
+  const failures: CalibrationFailure[] = [];
+
+  if (!dryRun) {
+    for (const calibration of calibrations) {
+      if (calibration.calibratedScore === calibration.currentScore) continue;
+
+      try {
+        await groupStorage.updateGroup(calibration.groupId, {
+          difficultyScore: calibration.calibratedScore,
+        });
+      } catch (error) {
+        failures.push({
+          groupId: calibration.groupId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return {
+    dryRun,
+    gamesAnalyzed: games.length,
+    calibrations,
+    recolorSuggestions: calibrations.filter(
+      (calibration) =>
+        calibration.currentColor !== null &&
+        calibration.currentColor !== calibration.suggestedColor
+    ),
+    failures,
+  };
+}
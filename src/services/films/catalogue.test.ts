@@ -0,0 +1,132 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createFixtureFetcher,
+  createHttpFetcher,
+  FilmCatalogue,
+  mapMovieDetails,
+  type TMDBFetcher,
+} from './catalogue';
+import type { TMDBMovieDetails } from '../../types';
+
+const createDetails = (overrides: Partial<TMDBMovieDetails> = {}): TMDBMovieDetails => ({
+  id: 1,
+  title: 'Test Film',
+  release_date: '2001-05-04',
+  poster_path: '/poster.jpg',
+  genre_ids: [18],
+  overview: '',
+  vote_count: 10,
+  popularity: 1,
+  genres: [{ id: 18, name: 'Drama' }],
+  credits: { cast: [], crew: [] },
+  ...overrides,
+});
+
+describe('mapMovieDetails', () => {
+  it('should map director, top-billed cast, genres, year and poster', async () => {
+    const details = await createFixtureFetcher().getMovieDetails(680);
+
+    expect(mapMovieDetails(details, 3)).toEqual({
+      id: 680,
+      title: 'Pulp Fiction',
+      year: 1994,
+      director: 'Quentin Tarantino',
+      cast: ['John Travolta', 'Samuel L. Jackson', 'Uma Thurman'],
+      genres: ['Thriller', 'Crime'],
+      poster_path: '/d5iIlFn5s0ImszYzBPb8JPIfbXD.jpg',
+    });
+  });
+
+  it('should join co-directors and leave out a missing poster', () => {
+    const film = mapMovieDetails(
+      createDetails({
+        poster_path: null,
+        credits: {
+          cast: [],
+          crew: [
+            { id: 1, name: 'Joel Coen', job: 'Director', department: 'Directing' },
+            { id: 2, name: 'Ethan Coen', job: 'Director', department: 'Directing' },
+            { id: 2, name: 'Ethan Coen', job: 'Editor', department: 'Editing' },
+          ],
+        },
+      })
+    );
+
+    expect(film?.director).toBe('Joel Coen, Ethan Coen');
+    expect(film).not.toHaveProperty('poster_path');
+    expect(film).not.toHaveProperty('cast');
+  });
+
+  it('should return null for a film without a release date', () => {
+    expect(mapMovieDetails(createDetails({ release_date: '' }))).toBeNull();
+  });
+});
+
+describe('createHttpFetcher', () => {
+  it('should request details with credits and the API key', async () => {
+    const details = createDetails();
+    const fetchMock = vi.fn().mockResolvedValue({ ok: true, json: async () => details });
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await createHttpFetcher('secret', 'https://tmdb.test/3').getMovieDetails(1);
+
+    const url = fetchMock.mock.calls[0][0] as URL;
+    expect(url.pathname).toBe('/3/movie/1');
+    expect(url.searchParams.get('api_key')).toBe('secret');
+    expect(url.searchParams.get('append_to_response')).toBe('credits');
+    expect(result).toBe(details);
+    vi.unstubAllGlobals();
+  });
+
+  it('should throw when TMDB responds with an error', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue({ ok: false, status: 401 }));
+
+    await expect(createHttpFetcher('bad').getMovieDetails(1)).rejects.toThrow(
+      'Failed to fetch /movie/1 from TMDB: 401'
+    );
+    vi.unstubAllGlobals();
+  });
+});
+
+describe('FilmCatalogue', () => {
+  it('should fetch each film once', async () => {
+    const fixtures = createFixtureFetcher();
+    const getMovieDetails = vi.fn(fixtures.getMovieDetails);
+    const catalogue = new FilmCatalogue({ ...fixtures, getMovieDetails });
+
+    await catalogue.getFilm(184);
+    const film = await catalogue.getFilm(184);
+
+    expect(film?.title).toBe('Jackie Brown');
+    expect(getMovieDetails).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip unreleased films', async () => {
+    const fetcher = createFixtureFetcher([
+      createDetails({ id: 1 }),
+      createDetails({ id: 2, release_date: '' }),
+    ]);
+
+    const films = await new FilmCatalogue(fetcher).getFilms([2, 1]);
+
+    expect(films.map((film) => film.id)).toEqual([1]);
+  });
+
+  it('should discover films from the recorded fixtures', async () => {
+    const films = await new FilmCatalogue(createFixtureFetcher()).discoverFilms({}, 3);
+
+    expect(films.map((film) => film.title)).toContain('Reservoir Dogs');
+    expect(films.every((film) => film.genres && film.genres.length > 0)).toBe(true);
+  });
+
+  it('should stop at the last page', async () => {
+    const fixtures = createFixtureFetcher();
+    const discoverMovies = vi.fn(fixtures.discoverMovies);
+    const fetcher: TMDBFetcher = { ...fixtures, discoverMovies };
+
+    await new FilmCatalogue(fetcher).discoverFilms({ sort_by: 'vote_count.desc' }, 5);
+
+    expect(discoverMovies).toHaveBeenCalledTimes(1);
+    expect(discoverMovies).toHaveBeenCalledWith({ sort_by: 'vote_count.desc', page: 1 });
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Film Catalogue
+ *
+ * Turns TMDB movie details into the `Film` objects groups are built from.
+ * Fetching is pluggable: the HTTP fetcher calls the TMDB API, while the
+ * fixture fetcher serves recorded responses so ingestion runs offline.
+ */
+
+import type { Film, TMDBDiscoverResponse, TMDBMovieDetails } from '../../types';
+import tmdbMovieFixtures from '../fixtures/tmdbMovies.json';
+import tmdbDiscoverFixture from '../fixtures/tmdbDiscover.json';
+
+export const TMDB_API_URL = 'https://api.themoviedb.org/3';
+
+// Top-billed cast members kept on each film
+export const DEFAULT_CAST_LIMIT = 5;
+
+/**
+ * Query parameters for TMDB's /discover/movie endpoint,
+ * e.g. { 'primary_release_date.gte': '1990-01-01', sort_by: 'vote_count.desc' }
+ */
+export type DiscoverParams = Record<string, string | number>;
+
+/**
+ * Source of TMDB responses
+ */
+export interface TMDBFetcher {
+  /**
+   * Get a movie's details with credits
+   * @throws Error if the movie can't be fetched
+   */
+  getMovieDetails(movieId: number): Promise<TMDBMovieDetails>;
+
+  /**
+   * Get one page of discover results
+   * @throws Error if the page can't be fetched
+   */
+  discoverMovies(params: DiscoverParams): Promise<TMDBDiscoverResponse>;
+}
+
+/**
+ * Map TMDB details to a Film
+ *
+ * @param castLimit - How many top-billed cast members to keep
+ * @returns The film, or null if it has no release date yet
+ */
+export function mapMovieDetails(
+  details: TMDBMovieDetails,
+  castLimit = DEFAULT_CAST_LIMIT
+): Film | null {
+  const year = parseInt(details.release_date?.slice(0, 4) ?? '', 10);
+  if (Number.isNaN(year)) {
+    return null;
+  }
+
+  const directors = [
+    ...new Set(
+      details.credits.crew
+        .filter((member) => member.job === 'Director')
+        .map((member) => member.name)
+    ),
+  ];
+  const cast = [...details.credits.cast]
+    .sort((a, b) => a.order - b.order)
+    .slice(0, castLimit)
+    .map((member) => member.name);
+
+  return {
+    id: details.id,
+    title: details.title,
+    year,
+    ...(directors.length > 0 && { director: directors.join(', ') }),
+    ...(cast.length > 0 && { cast }),
+    genres: details.genres.map((genre) => genre.name),
+    ...(details.poster_path && { poster_path: details.poster_path }),
+  };
+}
+
+/**
+ * Fetcher that calls the TMDB API
+ *
+ * @param apiKey - TMDB v3 API key
+ */
+export function createHttpFetcher(apiKey: string, baseUrl = TMDB_API_URL): TMDBFetcher {
+  const get = async <T>(path: string, params: DiscoverParams = {}): Promise<T> => {
+    const url = new URL(`${baseUrl}${path}`);
+    url.searchParams.set('api_key', apiKey);
+    for (const [key, value] of Object.entries(params)) {
+      url.searchParams.set(key, String(value));
+    }
+
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to fetch ${path} from TMDB: ${response.status}`);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  return {
+    getMovieDetails: (movieId) =>
+      get<TMDBMovieDetails>(`/movie/${movieId}`, { append_to_response: 'credits' }),
+    discoverMovies: (params) => get<TMDBDiscoverResponse>('/discover/movie', params),
+  };
+}
+
+/**
+ * Fetcher serving recorded responses. Discover ignores its params and
+ * returns the recorded pages in turn.
+ *
+ * @param movies - Recorded details (defaults to the bundled fixtures)
+ * @param discoverPages - Recorded discover pages (defaults to the bundled fixture)
+ */
+export function createFixtureFetcher(
+  movies: TMDBMovieDetails[] = tmdbMovieFixtures as TMDBMovieDetails[],
+  discoverPages: TMDBDiscoverResponse[] = [tmdbDiscoverFixture as TMDBDiscoverResponse]
+): TMDBFetcher {
+  const byId = new Map(movies.map((movie) => [movie.id, movie]));
+
+  return {
+    getMovieDetails: async (movieId) => {
+      const movie = byId.get(movieId);
+      if (!movie) {
+        throw new Error(`Failed to fetch movie ${movieId}: not in fixtures`);
+      }
+      return movie;
+    },
+    discoverMovies: async (params) => {
+      const page = Number(params.page ?? 1);
+      return (
+        discoverPages.find((response) => response.page === page) ?? {
+          page,
+          results: [],
+          total_pages: discoverPages.length,
+          total_results: 0,
+        }
+      );
+    },
+  };
+}
+
+/**
+ * Film lookups over a fetcher, caching each film once mapped
+ */
+export class FilmCatalogue {
+  private cache = new Map<number, Film | null>();
+
+  constructor(
+    private fetcher: TMDBFetcher,
+    private castLimit = DEFAULT_CAST_LIMIT
+  ) {}
+
+  /**
+   * Get a film by TMDB id
+   * @returns The film, or null if it has no release date yet
+   */
+  async getFilm(movieId: number): Promise<Film | null> {
+    if (!this.cache.has(movieId)) {
+      const details = await this.fetcher.getMovieDetails(movieId);
+      this.cache.set(movieId, mapMovieDetails(details, this.castLimit));
+    }
+    return this.cache.get(movieId) ?? null;
+  }
+
+  /**
+   * Get films by TMDB id, skipping unreleased ones
+   * @returns Films in the order requested
+   */
+  async getFilms(movieIds: number[]): Promise<Film[]> {
+    const films: Film[] = [];
+    for (const movieId of movieIds) {
+      const film = await this.getFilm(movieId);
+      if (film) films.push(film);
+    }
+    return films;
+  }
+
+  /**
+   * Discover films across pages, fetching details for each result
+   *
+   * @param maxPages - Stop after this many pages even if more remain
+   */
+  async discoverFilms(params: DiscoverParams = {}, maxPages = 1): Promise<Film[]> {
+    const movieIds: number[] = [];
+
+    for (let page = 1; page <= maxPages; page++) {
+      const response = await this.fetcher.discoverMovies({ ...params, page });
+      movieIds.push(...response.results.map((movie) => movie.id));
+      if (page >= response.total_pages) break;
+    }
+
+    return this.getFilms([...new Set(movieIds)]);
+  }
+}
@@ -0,0 +1,96 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { saveGameProgress, loadGameProgress, GAME_PROGRESS_VERSION } from './gameProgress';
+import type { GameState } from '../types';
+
+const createState = (overrides: Partial<GameState> = {}): GameState => ({
+  films: [
+    { id: 1, title: 'Jaws', year: 1975 },
+    { id: 2, title: 'Alien', year: 1979 },
+  ],
+  groups: [],
+  selectedFilmIds: [2],
+  foundGroups: [],
+  previousGuesses: [[1, 2, 3, 4]],
+  guessLog: [{ filmIds: [1, 2, 3, 4], correct: false, groupId: null, oneAway: true, guessedAt: 1 }],
+  revealedGroupIds: [],
+  mistakes: 1,
+  gameStatus: 'playing',
+  isLoading: false,
+  notification: null,
+  isShaking: false,
+  puzzleDate: '2025-06-01',
+  mode: 'daily',
+  elapsedMs: 30000,
+  activeSince: null,
+  ...overrides,
+});
+
+describe('gameProgress', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should round-trip a snapshot for today', () => {
+    saveGameProgress(createState());
+
+    const snapshot = loadGameProgress('2025-06-01');
+
+    expect(snapshot).toMatchObject({
+      version: GAME_PROGRESS_VERSION,
+      puzzleDate: '2025-06-01',
+      filmIds: [1, 2],
+      selectedFilmIds: [2],
+      previousGuesses: [[1, 2, 3, 4]],
+      guessLog: [
+        { filmIds: [1, 2, 3, 4], correct: false, groupId: null, oneAway: true, guessedAt: 1 },
+      ],
+      mistakes: 1,
+      gameStatus: 'playing',
+      elapsedMs: 30000,
+    });
+  });
+
+  it('should not save when no puzzle is loaded', () => {
+    saveGameProgress(createState({ puzzleDate: null }));
+
+    expect(localStorage.getItem('filmclues-game-progress')).toBeNull();
+  });
+
+  it('should not save archive games', () => {
+    saveGameProgress(createState({ puzzleDate: '2025-03-01', mode: 'archive' }));
+
+    expect(localStorage.getItem('filmclues-game-progress')).toBeNull();
+  });
+
+  it('should discard a snapshot from a previous day', () => {
+    saveGameProgress(createState());
+    vi.setSystemTime(new Date('2025-06-02T00:30:00Z'));
+
+    expect(loadGameProgress('2025-06-01')).toBeNull();
+    expect(localStorage.getItem('filmclues-game-progress')).toBeNull();
+  });
+
+  it('should discard a snapshot with a different schema version', () => {
+    saveGameProgress(createState());
+    const stored = JSON.parse(localStorage.getItem('filmclues-game-progress')!);
+    localStorage.setItem(
+      'filmclues-game-progress',
+      JSON.stringify({ ...stored, version: GAME_PROGRESS_VERSION + 1 }),
+    );
+
+    expect(loadGameProgress('2025-06-01')).toBeNull();
+    expect(localStorage.getItem('filmclues-game-progress')).toBeNull();
+  });
+
+  it('should return null for a different puzzle date', () => {
+    saveGameProgress(createState());
+
+    expect(loadGameProgress('2025-05-31')).toBeNull();
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Game Progress Storage
+ *
+ * Persists the in-progress daily game to localStorage so a reload
+ * doesn't restart the puzzle. Only one snapshot is kept, keyed by puzzle date.
+ * Archive games are not persisted.
+ */
+
+import type { GameState, GuessRecord } from '../types';
+import { getTodayDate } from '../utils/index';
+import { getPlayTimeMs } from '../utils/playTime';
+
+const STORAGE_KEY = 'filmclues-game-progress';
+
+/**
+ * Bump when the snapshot shape changes. Snapshots with a different
+ * version are discarded rather than migrated.
+ */
+export const GAME_PROGRESS_VERSION = 1;
+
+/**
+ * Serialisable snapshot of an in-progress game.
+ * Films and groups are stored by id and resolved against the puzzle on load.
+ */
+export interface GameProgressSnapshot {
+  /** Schema version of the snapshot */
+  version: number;
+  /** Date of the puzzle being played (YYYY-MM-DD format) */
+  puzzleDate: string;
+  /** Ids of the films still on the board, in display order */
+  filmIds: number[];
+  /** Ids of the currently selected films */
+  selectedFilmIds: number[];
+  /** Ids of the groups revealed so far, in the order they were found */
+  foundGroupIds: string[];
+  /** Sorted film ids of every guess made so far */
+  previousGuesses: number[][];
+  /** Every guess with its outcome (missing in snapshots saved before the log existed) */
+  guessLog?: GuessRecord[];
+  /** Number of mistakes made */
+  mistakes: number;
+  /** Active play time so far (missing in snapshots saved before it was tracked) */
+  elapsedMs?: number;
+  /** Game status at the time of the snapshot */
+  gameStatus: GameState['gameStatus'];
+  /** Timestamp when the snapshot was taken */
+  savedAt: number;
+}
+
+/**
+ * Save a snapshot of the current game state.
+ * Does nothing if no daily puzzle is loaded.
+ */
+export function saveGameProgress(state: GameState): void {
+  if (!state.puzzleDate || state.mode !== 'daily') return;
+
+  const snapshot: GameProgressSnapshot = {
+    version: GAME_PROGRESS_VERSION,
+    puzzleDate: state.puzzleDate,
+    filmIds: state.films.map((film) => film.id),
+    selectedFilmIds: state.selectedFilmIds,
+    foundGroupIds: state.foundGroups.map((group) => group.id),
+    previousGuesses: state.previousGuesses,
+    guessLog: state.guessLog,
+    mistakes: state.mistakes,
+    gameStatus: state.gameStatus,
+    elapsedMs: getPlayTimeMs(state),
+    savedAt: Date.now(),
+  };
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.error('Failed to save game progress:', error);
+  }
+}
+
+/**
+ * Load the saved snapshot for a puzzle date.
+ *
+ * Snapshots from an older schema version or from a day other than today
+ * are discarded. Returns null if there is no usable snapshot for the date.
+ *
+ * @param puzzleDate - Date of the puzzle being loaded (YYYY-MM-DD)
+ */
+export function loadGameProgress(puzzleDate: string): GameProgressSnapshot | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const snapshot = JSON.parse(stored) as GameProgressSnapshot;
+
+    if (snapshot.version !== GAME_PROGRESS_VERSION || snapshot.puzzleDate !== getTodayDate()) {
+      clearGameProgress();
+      return null;
+    }
+
+    return snapshot.puzzleDate === puzzleDate ? snapshot : null;
+  } catch (error) {
+    console.error('Failed to load game progress:', error);
+    clearGameProgress();
+    return null;
+  }
+}
+
+/**
+ * Remove any saved snapshot.
+ */
+export function clearGameProgress(): void {
+  try {
+    localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Failed to clear game progress:', error);
+  }
+}
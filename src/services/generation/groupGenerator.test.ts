@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findClusters,
+  generateCandidates,
+  generateGroups,
+  MAX_DIFFICULTY_SCORE,
+  scoreGroup,
+} from './groupGenerator';
+import { LocalGroupStorage } from '../LocalGroupStorage';
+import type { Film } from '../../types';
+
+const film = (id: number, title: string, year: number, extra: Partial<Film> = {}): Film => ({
+  id,
+  title,
+  year,
+  ...extra,
+});
+
+const CATALOGUE: Film[] = [
+  film(1, 'Night of the Living Dead', 1968, {
+    director: 'George A. Romero',
+    cast: ['Duane Jones'],
+  }),
+  film(2, 'Dawn of the Dead', 1978, { director: 'George A. Romero', cast: ['David Emge'] }),
+  film(3, 'Day of the Dead', 1985, { director: 'George A. Romero', cast: ['Lori Cardille'] }),
+  film(4, 'Land of the Dead', 2005, { director: 'George A. Romero', cast: ['Simon Baker'] }),
+  film(5, 'Shaun of the Dead', 2004, { director: 'Edgar Wright', cast: ['Simon Pegg'] }),
+  film(6, 'Hot Fuzz', 2007, { director: 'Edgar Wright', cast: ['Simon Pegg', 'Nick Frost'] }),
+  film(7, 'The World’s End', 2013, { director: 'Edgar Wright', cast: ['Simon Pegg'] }),
+  film(8, 'Paul', 2011, { director: 'Greg Mottola', cast: ['Nick Frost', 'Simon Pegg'] }),
+  film(9, 'Kill Bill: Vol. 1', 2003, { director: 'Quentin Tarantino', cast: ['Uma Thurman'] }),
+];
+
+describe('findClusters', () => {
+  it('should find four films sharing a director', () => {
+    const clusters = findClusters(CATALOGUE, ['director']);
+
+    expect(clusters.map((cluster) => cluster.connection)).toEqual([
+      'Directed by George A. Romero',
+    ]);
+  });
+
+  it('should only count lead roles for actors', () => {
+    const clusters = findClusters(CATALOGUE, ['actor']);
+
+    expect(clusters).toEqual([
+      expect.objectContaining({ connection: 'Starring Simon Pegg', films: CATALOGUE.slice(4, 8) }),
+    ]);
+  });
+
+  it('should connect titles through a shared word, ignoring stop words', () => {
+    const clusters = findClusters(CATALOGUE, ['wordplay']);
+
+    expect(clusters.map((cluster) => cluster.connection)).toEqual(['Titles containing "Dead"']);
+    expect(clusters[0].films).toHaveLength(5);
+  });
+
+  it('should group by decade and year', () => {
+    const clusters = findClusters(CATALOGUE, ['decade', 'year']);
+
+    expect(clusters.map((cluster) => cluster.connection)).toEqual(['Released in the 2000s']);
+  });
+});
+
+describe('scoreGroup', () => {
+  const recent = CATALOGUE.slice(4, 8);
+
+  it('should score harder strategies higher', () => {
+    expect(scoreGroup('director', recent, 4, 2025)).toBeLessThan(
+      scoreGroup('wordplay', recent, 4, 2025)
+    );
+  });
+
+  it('should add for spare matches and older films', () => {
+    const base = scoreGroup('director', recent, 4, 2025);
+
+    expect(scoreGroup('director', recent, 6, 2025)).toBe(base + 500);
+    expect(scoreGroup('director', CATALOGUE.slice(0, 4), 4, 2025)).toBeGreaterThan(base);
+  });
+
+  it('should stay within range', () => {
+    expect(scoreGroup('wordplay', CATALOGUE.slice(0, 4), 100, 2500)).toBe(MAX_DIFFICULTY_SCORE);
+  });
+});
+
+describe('generateCandidates', () => {
+  it('should produce pending groups of four without a colour', () => {
+    const [candidate] = generateCandidates(CATALOGUE, {
+      strategies: ['wordplay'],
+      currentYear: 2025,
+    });
+
+    expect(candidate).toMatchObject({
+      connection: 'Titles containing "Dead"',
+      connectionType: 'wordplay',
+      status: 'pending',
+      color: null,
+      difficulty: null,
+      metadata: { generator: 'rules', matchCount: 5 },
+    });
+    expect(candidate.films.map((f) => f.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should explain title wordplay in metadata', () => {
+    const titles = ['Skyfall', 'Goldfinger', 'Moonlight', 'Braveheart', 'Starman'];
+
+    const candidates = generateCandidates(
+      titles.map((title, index) => film(index + 1, title, 2000)),
+      { strategies: ['wordplay'], currentYear: 2025 }
+    );
+
+    expect(candidates).toEqual([
+      expect.objectContaining({
+        connection: 'Titles that are compound words',
+        metadata: expect.objectContaining({
+          matchCount: 5,
+          explanation:
+            '"Skyfall" = sky + fall; "Goldfinger" = gold + finger; ' +
+            '"Moonlight" = moon + light; "Braveheart" = brave + heart',
+        }),
+      }),
+    ]);
+  });
+});
+
+describe('generateGroups', () => {
+  it('should save new candidates and skip existing connections', async () => {
+    const groupStorage = new LocalGroupStorage({ seed: [], persist: false });
+    await generateGroups(CATALOGUE, groupStorage, { strategies: ['director'] });
+
+    const result = await generateGroups(CATALOGUE, groupStorage);
+
+    expect(result.candidates.length).toBeGreaterThan(1);
+    expect(result.saved.map((group) => group.connection)).not.toContain(
+      'Directed by George A. Romero'
+    );
+    expect((await groupStorage.listGroups({ status: 'pending' })).total).toBe(
+      result.candidates.length
+    );
+  });
+});
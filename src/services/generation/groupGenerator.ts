@@ -0,0 +1,226 @@
+/**
+ * Rule-Based Group Generator
+ *
+ * Finds candidate connection groups in a film catalogue: four films sharing
+ * a director, lead actor, decade, release year or title word, plus the
+ * title wordplay found by the title analysis detectors. Candidates are
+ * scored and submitted as pending groups for editors to review.
+ */
+
+import type { Film, GroupingStrategy } from '../../types';
+import type { GroupInput, IGroupStorage, StoredGroup } from '../../lib/supabase/storage';
+import { findWordplayCandidates } from './titleAnalysis';
+
+export const GROUP_SIZE = 4;
+
+export const MIN_DIFFICULTY_SCORE = 0;
+export const MAX_DIFFICULTY_SCORE = 10000;
+
+// Billing positions that count as a lead role
+const LEAD_CAST_SIZE = 2;
+
+// Words too common to connect titles
+const TITLE_STOP_WORDS = new Set([
+  'a', 'an', 'and', 'at', 'for', 'from', 'in', 'of', 'on', 'or', 'the', 'to', 'with',
+]);
+
+/**
+ * Starting score per strategy: how hard the kind of connection is to spot
+ */
+const BASE_SCORES: Record<Exclude<GroupingStrategy, 'theme'>, number> = {
+  director: 2000,
+  actor: 3500,
+  decade: 5500,
+  year: 6500,
+  wordplay: 7500,
+};
+
+export type GeneratorStrategy = keyof typeof BASE_SCORES;
+
+export const GENERATOR_STRATEGIES = Object.keys(BASE_SCORES) as GeneratorStrategy[];
+
+/**
+ * Films sharing a value under one strategy
+ */
+export interface FilmCluster {
+  strategy: GeneratorStrategy;
+  connection: string;
+  films: Film[];
+  // Why each film fits, by film id, where it isn't obvious
+  explanations?: Record<number, string>;
+}
+
+export interface GeneratorOptions {
+  strategies?: GeneratorStrategy[];
+  // Used to judge how old the films are (defaults to this year)
+  currentYear?: number;
+}
+
+export interface GenerationResult {
+  candidates: GroupInput[];
+  // Candidates saved; the rest already existed
+  saved: StoredGroup[];
+}
+
+/**
+ * Bucket films by the values a key function returns
+ */
+function clusterBy(
+  films: Film[],
+  strategy: GeneratorStrategy,
+  getKeys: (film: Film) => string[],
+  describe: (key: string) => string
+): FilmCluster[] {
+  const buckets = new Map<string, Film[]>();
+
+  for (const film of films) {
+    for (const key of new Set(getKeys(film))) {
+      buckets.set(key, [...(buckets.get(key) ?? []), film]);
+    }
+  }
+
+  return [...buckets]
+    .filter(([, bucket]) => bucket.length >= GROUP_SIZE)
+    .map(([key, bucket]) => ({ strategy, connection: describe(key), films: bucket }));
+}
+
+const titleWords = (title: string) =>
+  (title.toLowerCase().match(/[a-z0-9']+/g) ?? []).filter(
+    (word) => word.length > 2 && !TITLE_STOP_WORDS.has(word)
+  );
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const CLUSTER_RULES: Record<GeneratorStrategy, (films: Film[]) => FilmCluster[]> = {
+  director: (films) =>
+    clusterBy(
+      films,
+      'director',
+      (film) => (film.director ? [film.director] : []),
+      (director) => `Directed by ${director}`
+    ),
+  actor: (films) =>
+    clusterBy(
+      films,
+      'actor',
+      (film) => film.cast?.slice(0, LEAD_CAST_SIZE) ?? [],
+      (actor) => `Starring ${actor}`
+    ),
+  decade: (films) =>
+    clusterBy(
+      films,
+      'decade',
+      (film) => (film.year ? [`${Math.floor(film.year / 10) * 10}`] : []),
+      (decade) => `Released in the ${decade}s`
+    ),
+  year: (films) =>
+    clusterBy(
+      films,
+      'year',
+      (film) => (film.year ? [String(film.year)] : []),
+      (year) => `Released in ${year}`
+    ),
+  wordplay: (films) => [
+    ...clusterBy(
+      films,
+      'wordplay',
+      (film) => titleWords(film.title),
+      (word) => `Titles containing "${capitalize(word)}"`
+    ),
+    ...findWordplayCandidates(films, GROUP_SIZE).map((candidate) => ({
+      strategy: 'wordplay' as const,
+      connection: candidate.connection,
+      films: candidate.matches.map((match) => match.film),
+      explanations: Object.fromEntries(
+        candidate.matches.map((match) => [match.film.id, match.explanation])
+      ),
+    })),
+  ],
+};
+
+/**
+ * Find clusters of at least four films for each strategy
+ */
+export function findClusters(
+  films: Film[],
+  strategies: GeneratorStrategy[] = GENERATOR_STRATEGIES
+): FilmCluster[] {
+  return strategies.flatMap((strategy) => CLUSTER_RULES[strategy](films));
+}
+
+/**
+ * Score a group from 0 (trivial) to 10000 (hardest).
+ * Starts from the strategy's base score, then adds for spare matches in the
+ * catalogue (more films fit the connection, so it's harder to pin down) and
+ * for older films, which players are less likely to know.
+ *
+ * @param matchCount - Films in the catalogue sharing the connection
+ */
+export function scoreGroup(
+  strategy: GeneratorStrategy,
+  films: Film[],
+  matchCount: number,
+  currentYear: number
+): number {
+  const spareMatches = Math.min(1500, (matchCount - films.length) * 250);
+
+  const averageAge =
+    films.reduce((total, film) => total + (currentYear - film.year), 0) / films.length;
+  const agePenalty = Math.min(1000, Math.max(0, averageAge - 30) * 40);
+
+  const score = BASE_SCORES[strategy] + spareMatches + agePenalty;
+  return Math.round(Math.min(MAX_DIFFICULTY_SCORE, Math.max(MIN_DIFFICULTY_SCORE, score)));
+}
+
+/**
+ * Turn a cluster into a pending group of its first four films.
+ * Colour and difficulty are left for editors to assign; explanations are
+ * kept in metadata for the review queue.
+ */
+export function toCandidateGroup(cluster: FilmCluster, currentYear: number): GroupInput {
+  const films = cluster.films.slice(0, GROUP_SIZE);
+  const explanations = cluster.explanations;
+
+  return {
+    films,
+    connection: cluster.connection,
+    connectionType: cluster.strategy,
+    difficultyScore: scoreGroup(cluster.strategy, films, cluster.films.length, currentYear),
+    color: null,
+    difficulty: null,
+    status: 'pending',
+    metadata: {
+      generator: 'rules',
+      matchCount: cluster.films.length,
+      ...(explanations && {
+        explanation: films.map((film) => explanations[film.id]).join('; '),
+      }),
+    },
+  };
+}
+
+/**
+ * Generate candidate groups from a film catalogue, in catalogue order
+ * within each cluster (put the best-known films first)
+ */
+export function generateCandidates(films: Film[], options: GeneratorOptions = {}): GroupInput[] {
+  const currentYear = options.currentYear ?? new Date().getUTCFullYear();
+
+  return findClusters(films, options.strategies).map((cluster) =>
+    toCandidateGroup(cluster, currentYear)
+  );
+}
+
+/**
+ * Generate candidate groups and submit them for review.
+ * Connections that already exist are skipped by saveBatch.
+ */
+export async function generateGroups(
+  films: Film[],
+  groupStorage: IGroupStorage,
+  options: GeneratorOptions = {}
+): Promise<GenerationResult> {
+  const candidates = generateCandidates(films, options);
+  const saved = candidates.length > 0 ? await groupStorage.saveBatch(candidates) : [];
+  return { candidates, saved };
+}
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import { findWordplayCandidates, getTitleWords } from './titleAnalysis';
+import type { Film } from '../../types';
+
+const films = (...titles: string[]): Film[] =>
+  titles.map((title, index) => ({ id: index + 1, title, year: 2000 }));
+
+const titlesOf = (candidate: { matches: { film: Film }[] }) =>
+  candidate.matches.map((match) => match.film.title);
+
+describe('getTitleWords', () => {
+  it('should lowercase and drop accents and punctuation', () => {
+    expect(getTitleWords('Amélie: The World’s End!')).toEqual([
+      'amelie',
+      'the',
+      'worlds',
+      'end',
+    ]);
+  });
+});
+
+describe('findWordplayCandidates', () => {
+  it('should find words hidden across letters but not whole words', () => {
+    const [candidate] = findWordplayCandidates(
+      films('Educated', 'Scatter', 'Location Unknown', 'The Cat Returns', 'Concatenate'),
+      3,
+      ['hidden-word']
+    );
+
+    expect(candidate.connection).toBe('Titles hiding "Cat"');
+    expect(titlesOf(candidate)).toEqual([
+      'Educated',
+      'Scatter',
+      'Location Unknown',
+      'Concatenate',
+    ]);
+    expect(candidate.matches[0].explanation).toBe('"Educated" hides "cat"');
+  });
+
+  it('should find anagrams but not the same word repeated', () => {
+    const candidates = findWordplayCandidates(
+      films('Silent Running', 'Listen', 'Enlist Today', 'Tinsel Town', 'Silent Hill'),
+      4,
+      ['anagram']
+    );
+
+    expect(candidates).toHaveLength(1);
+    expect(titlesOf(candidates[0])).toHaveLength(5);
+    expect(candidates[0].matches[1].explanation).toBe(
+      '"Listen" rearranges to "silent" or "enlist" or "tinsel"'
+    );
+  });
+
+  it('should find anagrams of three-letter words', () => {
+    const candidates = findWordplayCandidates(
+      films('Rat Race', 'Art School Confidential', 'Tár'),
+      3,
+      ['anagram']
+    );
+
+    expect(candidates.map((candidate) => candidate.connection)).toEqual([
+      'Titles with anagrams of "Rat"',
+    ]);
+    expect(titlesOf(candidates[0])).toHaveLength(3);
+  });
+
+  it('should find titles starting with a number, color or animal', () => {
+    const catalogue = films(
+      '12 Angry Men',
+      'Seven',
+      'Three Kings',
+      'Two for the Road',
+      'Red River',
+      'Blue Velvet',
+      'Black Swan',
+      'Green Room',
+      'Jaws'
+    );
+
+    const candidates = findWordplayCandidates(catalogue, 4, [
+      'starts-with-number',
+      'starts-with-color',
+      'starts-with-animal',
+    ]);
+
+    expect(candidates.map((candidate) => candidate.connection)).toEqual([
+      'Titles starting with a number',
+      'Titles starting with a color',
+    ]);
+    expect(titlesOf(candidates[0])).toContain('12 Angry Men');
+  });
+
+  it('should explain homophones', () => {
+    const [candidate] = findWordplayCandidates(
+      films('The Dark Knight', 'Jurassic Park', 'Deer Hunter', 'Whole Nine Yards', 'Red Dawn'),
+      4,
+      ['homophone']
+    );
+
+    expect(titlesOf(candidate)).not.toContain('Jurassic Park');
+    expect(candidate.matches[0].explanation).toBe('"Knight" sounds like "night"');
+  });
+
+  it('should split one-word titles into compound words', () => {
+    const [candidate] = findWordplayCandidates(
+      films('Skyfall', 'Goldfinger', 'Moonlight', 'Braveheart', 'Titanic', 'Top Gun'),
+      4,
+      ['compound-word']
+    );
+
+    expect(titlesOf(candidate)).toEqual(['Skyfall', 'Goldfinger', 'Moonlight', 'Braveheart']);
+    expect(candidate.matches[0].explanation).toBe('"Skyfall" = sky + fall');
+  });
+
+  it('should leave out connections with too few films', () => {
+    expect(findWordplayCandidates(films('Skyfall', 'Moonlight', 'Jaws'), 4)).toEqual([]);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Title Analysis
+ *
+ * Detectors for wordplay connections between film titles: hidden words,
+ * anagrams, titles starting with a number, color or animal, homophones and
+ * compound words. Each candidate explains why every film fits, so editors
+ * can check the connection in the review queue.
+ */
+
+import type { Film } from '../../types';
+import {
+  ANIMAL_WORDS,
+  COLOR_WORDS,
+  COMPOUND_PARTS,
+  HIDDEN_WORDS,
+  HOMOPHONE_SETS,
+  NUMBER_WORDS,
+} from './wordLists';
+
+export type WordplayDetector =
+  | 'hidden-word'
+  | 'anagram'
+  | 'starts-with-number'
+  | 'starts-with-color'
+  | 'starts-with-animal'
+  | 'homophone'
+  | 'compound-word';
+
+/**
+ * A film that fits a wordplay connection, and why
+ */
+export interface TitleMatch {
+  film: Film;
+  explanation: string;
+}
+
+export interface WordplayCandidate {
+  detector: WordplayDetector;
+  connection: string;
+  matches: TitleMatch[];
+}
+
+// Shortest word considered for anagrams and compound parts
+const MIN_WORD_LENGTH = 3;
+
+/**
+ * Lowercase words of a title, without accents or punctuation
+ */
+export function getTitleWords(title: string): string[] {
+  return (
+    title
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/['’]/g, '')
+      .match(/[a-z0-9]+/g) ?? []
+  );
+}
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+/**
+ * Collect matches under a key, one match per film per key
+ */
+class MatchCollector {
+  private buckets = new Map<string, Map<number, TitleMatch>>();
+
+  add(key: string, film: Film, explanation: string) {
+    const bucket = this.buckets.get(key) ?? new Map<number, TitleMatch>();
+    if (!bucket.has(film.id)) {
+      bucket.set(film.id, { film, explanation });
+    }
+    this.buckets.set(key, bucket);
+  }
+
+  toCandidates(detector: WordplayDetector, describe: (key: string) => string): WordplayCandidate[] {
+    return [...this.buckets].map(([key, bucket]) => ({
+      detector,
+      connection: describe(key),
+      matches: [...bucket.values()],
+    }));
+  }
+}
+
+function detectHiddenWords(films: Film[]): WordplayCandidate[] {
+  const collector = new MatchCollector();
+
+  for (const film of films) {
+    const words = getTitleWords(film.title);
+    const squashed = words.join('');
+    for (const hidden of HIDDEN_WORDS) {
+      // A whole word isn't hidden
+      if (squashed.includes(hidden) && !words.includes(hidden)) {
+        collector.add(hidden, film, `"${film.title}" hides "${hidden}"`);
+      }
+    }
+  }
+
+  return collector.toCandidates('hidden-word', (hidden) => `Titles hiding "${capitalize(hidden)}"`);
+}
+
+function detectAnagrams(films: Film[]): WordplayCandidate[] {
+  // Sorted letters -> film id -> the film's word with those letters
+  const byLetters = new Map<string, Map<number, { film: Film; word: string }>>();
+
+  for (const film of films) {
+    for (const word of getTitleWords(film.title)) {
+      if (word.length < MIN_WORD_LENGTH || /\d/.test(word)) continue;
+
+      const letters = [...word].sort().join('');
+      const entries = byLetters.get(letters) ?? new Map();
+      if (!entries.has(film.id)) {
+        entries.set(film.id, { film, word });
+      }
+      byLetters.set(letters, entries);
+    }
+  }
+
+  const candidates: WordplayCandidate[] = [];
+  for (const entries of byLetters.values()) {
+    const words = [...new Set([...entries.values()].map((entry) => entry.word))];
+    // One spelling is just a shared word, not an anagram
+    if (words.length < 2) continue;
+
+    candidates.push({
+      detector: 'anagram',
+      connection: `Titles with anagrams of "${capitalize(words[0])}"`,
+      matches: [...entries.values()].map(({ film, word }) => ({
+        film,
+        explanation: `"${capitalize(word)}" rearranges to ${words
+          .filter((other) => other !== word)
+          .map((other) => `"${other}"`)
+          .join(' or ')}`,
+      })),
+    });
+  }
+  return candidates;
+}
+
+function detectFirstWord(
+  films: Film[],
+  detector: WordplayDetector,
+  vocabulary: Set<string>,
+  label: string
+): WordplayCandidate[] {
+  const collector = new MatchCollector();
+
+  for (const film of films) {
+    const [first] = getTitleWords(film.title);
+    const isNumeral = detector === 'starts-with-number' && /^\d+$/.test(first ?? '');
+    if (first && (vocabulary.has(first) || isNumeral)) {
+      collector.add(detector, film, `"${film.title}" starts with "${first}"`);
+    }
+  }
+
+  return collector.toCandidates(detector, () => `Titles starting with ${label}`);
+}
+
+const HOMOPHONES = new Map(
+  HOMOPHONE_SETS.flatMap((set) =>
+    set.map((word) => [word, set.filter((other) => other !== word)] as const)
+  )
+);
+
+function detectHomophones(films: Film[]): WordplayCandidate[] {
+  const collector = new MatchCollector();
+
+  for (const film of films) {
+    for (const word of getTitleWords(film.title)) {
+      const soundsLike = HOMOPHONES.get(word)?.map((other) => `"${other}"`);
+      if (soundsLike) {
+        const explanation = `"${capitalize(word)}" sounds like ${soundsLike.join(' or ')}`;
+        collector.add('homophone', film, explanation);
+      }
+    }
+  }
+
+  return collector.toCandidates('homophone', () => 'Titles with a word that sounds like another');
+}
+
+/**
+ * Split a word into two compound parts, if it can be
+ */
+function splitCompound(word: string): [string, string] | null {
+  for (let index = MIN_WORD_LENGTH; index <= word.length - MIN_WORD_LENGTH; index++) {
+    const head = word.slice(0, index);
+    const tail = word.slice(index);
+    if (COMPOUND_PARTS.has(head) && COMPOUND_PARTS.has(tail)) {
+      return [head, tail];
+    }
+  }
+  return null;
+}
+
+function detectCompoundWords(films: Film[]): WordplayCandidate[] {
+  const collector = new MatchCollector();
+
+  for (const film of films) {
+    const words = getTitleWords(film.title);
+    const parts = words.length === 1 ? splitCompound(words[0]) : null;
+    if (parts) {
+      collector.add('compound-word', film, `"${film.title}" = ${parts.join(' + ')}`);
+    }
+  }
+
+  return collector.toCandidates('compound-word', () => 'Titles that are compound words');
+}
+
+const DETECTORS: Record<WordplayDetector, (films: Film[]) => WordplayCandidate[]> = {
+  'hidden-word': detectHiddenWords,
+  anagram: detectAnagrams,
+  'starts-with-number': (films) =>
+    detectFirstWord(films, 'starts-with-number', NUMBER_WORDS, 'a number'),
+  'starts-with-color': (films) =>
+    detectFirstWord(films, 'starts-with-color', COLOR_WORDS, 'a color'),
+  'starts-with-animal': (films) =>
+    detectFirstWord(films, 'starts-with-animal', ANIMAL_WORDS, 'an animal'),
+  homophone: detectHomophones,
+  'compound-word': detectCompoundWords,
+};
+
+export const WORDPLAY_DETECTORS = Object.keys(DETECTORS) as WordplayDetector[];
+
+/**
+ * Find wordplay connections shared by enough films to make a group
+ *
+ * @param minFilms - Fewest matching films for a candidate
+ * @param detectors - Detectors to run (defaults to all)
+ */
+export function findWordplayCandidates(
+  films: Film[],
+  minFilms: number,
+  detectors: WordplayDetector[] = WORDPLAY_DETECTORS
+): WordplayCandidate[] {
+  return detectors
+    .flatMap((detector) => DETECTORS[detector](films))
+    .filter((candidate) => candidate.matches.length >= minFilms);
+}
@@ -0,0 +1,95 @@
+/**
+ * Word Lists
+ *
+ * Small hand-picked vocabularies for the title wordplay detectors.
+ * All entries are lowercase.
+ */
+
+export const NUMBER_WORDS = new Set([
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fifteen', 'twenty', 'forty', 'fifty', 'hundred',
+  'thousand', 'million', 'first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh',
+  'eighth', 'ninth', 'tenth', 'single', 'double', 'triple', 'dozen',
+]);
+
+export const COLOR_WORDS = new Set([
+  'black', 'white', 'red', 'blue', 'green', 'yellow', 'orange', 'purple', 'pink', 'brown',
+  'grey', 'gray', 'gold', 'golden', 'silver', 'scarlet', 'crimson', 'violet', 'indigo',
+  'amber', 'ivory', 'jade', 'lavender', 'magenta',
+]);
+
+export const ANIMAL_WORDS = new Set([
+  'ant', 'ape', 'bat', 'bear', 'bee', 'bird', 'bull', 'cat', 'cats', 'cow', 'crow', 'deer',
+  'dog', 'dogs', 'dolphin', 'dove', 'dragon', 'duck', 'eagle', 'elephant', 'falcon', 'fish',
+  'fox', 'frog', 'goat', 'goose', 'gorilla', 'hawk', 'horse', 'jackal', 'jaguar', 'kong',
+  'lamb', 'lambs', 'lion', 'lions', 'monkey', 'moth', 'mouse', 'owl', 'panther', 'pig',
+  'rabbit', 'rat', 'raven', 'shark', 'sheep', 'snake', 'spider', 'swan', 'tiger', 'toad',
+  'whale', 'wolf', 'wolves', 'zebra',
+]);
+
+/**
+ * Short words worth finding hidden inside a title, across word breaks
+ * (e.g. "cat" in "Educated", "art" in "Heart of Glass")
+ */
+export const HIDDEN_WORDS = [
+  'ant', 'ape', 'art', 'bat', 'bee', 'cat', 'cow', 'dog', 'ear', 'eel', 'elk', 'emu', 'eye',
+  'fox', 'gnu', 'hen', 'ice', 'owl', 'pea', 'pig', 'ram', 'rat', 'sun', 'tea', 'tin', 'yak',
+  'gold', 'lion', 'moth', 'star', 'toad', 'wasp',
+];
+
+/**
+ * Sets of words that sound alike
+ */
+export const HOMOPHONE_SETS = [
+  ['air', 'heir'],
+  ['bare', 'bear'],
+  ['blew', 'blue'],
+  ['brake', 'break'],
+  ['dear', 'deer'],
+  ['die', 'dye'],
+  ['eight', 'ate'],
+  ['flour', 'flower'],
+  ['for', 'four', 'fore'],
+  ['hair', 'hare'],
+  ['heal', 'heel'],
+  ['hole', 'whole'],
+  ['hour', 'our'],
+  ['knight', 'night'],
+  ['knot', 'not'],
+  ['knows', 'nose'],
+  ['mail', 'male'],
+  ['meat', 'meet'],
+  ['one', 'won'],
+  ['pair', 'pear'],
+  ['peace', 'piece'],
+  ['plain', 'plane'],
+  ['rain', 'reign', 'rein'],
+  ['read', 'red'],
+  ['right', 'write', 'rite'],
+  ['road', 'rode'],
+  ['sea', 'see'],
+  ['sole', 'soul'],
+  ['son', 'sun'],
+  ['stair', 'stare'],
+  ['steal', 'steel'],
+  ['tail', 'tale'],
+  ['to', 'too', 'two'],
+  ['wait', 'weight'],
+  ['way', 'weigh'],
+  ['weak', 'week'],
+  ['wood', 'would'],
+];
+
+/**
+ * Words that combine into compound titles (e.g. "sky" + "fall")
+ */
+export const COMPOUND_PARTS = new Set([
+  'back', 'ball', 'bird', 'black', 'blade', 'blood', 'book', 'born', 'brave', 'break',
+  'buster', 'busters', 'day', 'dead', 'door', 'down', 'dream', 'eye', 'fall', 'father',
+  'fight', 'finger', 'fire', 'fly', 'foot', 'ghost', 'girl', 'gold', 'good', 'guard',
+  'gun', 'hand', 'head', 'heart', 'home', 'house', 'land', 'light', 'line', 'man', 'men',
+  'moon', 'night', 'out', 'over', 'play', 'pool', 'power', 'rain', 'raker', 'ride',
+  'road', 'runner', 'rush', 'sea', 'shine', 'ship', 'side', 'sky', 'snow', 'speed',
+  'star', 'storm', 'stone', 'sun', 'super', 'time', 'top', 'town', 'walk', 'walker',
+  'water', 'way', 'wood', 'work', 'world',
+]);
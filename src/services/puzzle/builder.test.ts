@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canPlaceGroup,
+  createEmptySlots,
+  getSlotColorUpdates,
+  getSlotGroupIds,
+  placeGroup,
+} from './builder';
+import type { DifficultyColor, StoredGroup } from '../../lib/supabase/storage';
+
+const createGroup = (id: string, color: DifficultyColor | null): StoredGroup => ({
+  id,
+  createdAt: 0,
+  films: [],
+  connection: `Connection ${id}`,
+  connectionType: 'director',
+  difficultyScore: 5000,
+  color,
+  difficulty: null,
+  status: 'approved',
+  usageCount: 0,
+  lastUsedAt: null,
+});
+
+describe('puzzle builder', () => {
+  it('should only place groups in a slot of their color', () => {
+    expect(canPlaceGroup(createGroup('a', 'yellow'), 'yellow')).toBe(true);
+    expect(canPlaceGroup(createGroup('a', 'yellow'), 'purple')).toBe(false);
+    expect(canPlaceGroup(createGroup('a', null), 'purple')).toBe(true);
+  });
+
+  it('should move a group rather than duplicate it', () => {
+    const group = createGroup('a', null);
+    let slots = placeGroup(createEmptySlots(), 'yellow', group);
+    slots = placeGroup(slots, 'green', group);
+
+    expect(slots.yellow).toBeNull();
+    expect(slots.green?.id).toBe('a');
+  });
+
+  it('should return group ids in slot order only when complete', () => {
+    let slots = createEmptySlots();
+    slots = placeGroup(slots, 'purple', createGroup('d', 'purple'));
+    slots = placeGroup(slots, 'yellow', createGroup('a', 'yellow'));
+    slots = placeGroup(slots, 'blue', createGroup('c', 'blue'));
+
+    expect(getSlotGroupIds(slots)).toBeNull();
+
+    slots = placeGroup(slots, 'green', createGroup('b', 'green'));
+
+    expect(getSlotGroupIds(slots)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('should give uncolored groups the color and difficulty of their slot', () => {
+    let slots = createEmptySlots();
+    slots = placeGroup(slots, 'yellow', createGroup('a', 'yellow'));
+    slots = placeGroup(slots, 'blue', createGroup('c', null));
+
+    expect(getSlotColorUpdates(slots)).toEqual([
+      { id: 'c', updates: { color: 'blue', difficulty: 'hard' } },
+    ]);
+  });
+});
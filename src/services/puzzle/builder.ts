@@ -0,0 +1,90 @@
+/**
+ * Puzzle Builder
+ *
+ * Slot model for composing a puzzle from approved connection groups:
+ * one group per difficulty color.
+ */
+
+import type { Group } from '../../types';
+import type { DifficultyColor, GroupUpdate, StoredGroup } from '../../lib/supabase/storage';
+import { COLOR_TO_DIFFICULTY } from '../../constants/difficulty';
+
+/**
+ * Drag data type carrying a group id
+ */
+export const GROUP_DRAG_TYPE = 'application/x-filmclues-group';
+
+/**
+ * Slot colors in puzzle order, easiest first
+ */
+export const PUZZLE_SLOT_COLORS: DifficultyColor[] = ['yellow', 'green', 'blue', 'purple'];
+
+/**
+ * Group placed in each slot, or null if the slot is empty
+ */
+export type PuzzleSlots = Record<DifficultyColor, StoredGroup | null>;
+
+export function createEmptySlots(): PuzzleSlots {
+  return { yellow: null, green: null, blue: null, purple: null };
+}
+
+/**
+ * Whether a group may go in a slot. Groups keep their stored color in the
+ * published puzzle, so only uncolored groups or groups of the slot's color fit.
+ */
+export function canPlaceGroup(group: StoredGroup, color: DifficultyColor): boolean {
+  return group.color === null || group.color === color;
+}
+
+/**
+ * Place a group in a slot, removing it from any other slot it was in.
+ */
+export function placeGroup(
+  slots: PuzzleSlots,
+  color: DifficultyColor,
+  group: StoredGroup
+): PuzzleSlots {
+  const next = { ...slots };
+  for (const slotColor of PUZZLE_SLOT_COLORS) {
+    if (next[slotColor]?.id === group.id) {
+      next[slotColor] = null;
+    }
+  }
+  next[color] = group;
+  return next;
+}
+
+/**
+ * Group ids in slot order, or null until every slot is filled.
+ */
+export function getSlotGroupIds(slots: PuzzleSlots): string[] | null {
+  const groups = PUZZLE_SLOT_COLORS.map((color) => slots[color]);
+  return groups.every((group) => group !== null) ? groups.map((group) => group!.id) : null;
+}
+
+/**
+ * Color and difficulty to store on each uncolored group, taken from its slot,
+ * so the saved puzzle plays the way the preview shows it.
+ */
+export function getSlotColorUpdates(
+  slots: PuzzleSlots
+): Array<{ id: string; updates: GroupUpdate }> {
+  return PUZZLE_SLOT_COLORS.flatMap((color) => {
+    const group = slots[color];
+    if (!group || group.color !== null) return [];
+    return [{ id: group.id, updates: { color, difficulty: COLOR_TO_DIFFICULTY[color] } }];
+  });
+}
+
+/**
+ * Convert a stored group to the game's Group shape, colored by its slot.
+ */
+export function toGameGroup(group: StoredGroup, color: DifficultyColor): Group {
+  return {
+    id: group.id,
+    films: group.films,
+    connection: group.connection,
+    difficulty: COLOR_TO_DIFFICULTY[color],
+    color,
+  };
+}
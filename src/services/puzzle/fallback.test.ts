@@ -0,0 +1,81 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { findFallbackPuzzle, pickFallbackPuzzle } from './fallback';
+import type { IPuzzleStorage } from '../../lib/supabase/storage';
+
+const createStorage = (evergreenDates: string[], archiveDates: string[]) => {
+  const getEvergreenDates = vi.fn().mockResolvedValue(evergreenDates);
+  const getPublishedDates = vi.fn().mockResolvedValue(archiveDates);
+  const storage = { getEvergreenDates, getPublishedDates } as unknown as IPuzzleStorage;
+  return { storage, getEvergreenDates, getPublishedDates };
+};
+
+describe('pickFallbackPuzzle', () => {
+  it('should prefer an unplayed evergreen puzzle', () => {
+    const fallback = pickFallbackPuzzle(
+      ['2025-02-01', '2025-01-01'],
+      ['2025-03-09', '2025-02-01', '2025-01-01'],
+      new Set(['2025-02-01'])
+    );
+
+    expect(fallback).toEqual({ date: '2025-01-01', source: 'evergreen' });
+  });
+
+  it('should fall back to the most recent unplayed archive puzzle', () => {
+    const fallback = pickFallbackPuzzle(
+      ['2025-01-01'],
+      ['2025-03-09', '2025-03-08', '2025-01-01'],
+      new Set(['2025-01-01', '2025-03-09'])
+    );
+
+    expect(fallback).toEqual({ date: '2025-03-08', source: 'archive' });
+  });
+
+  it('should return null once everything has been played', () => {
+    expect(pickFallbackPuzzle([], ['2025-03-09'], new Set(['2025-03-09']))).toBeNull();
+  });
+});
+
+describe('findFallbackPuzzle', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should look up dates up to yesterday', async () => {
+    const { storage, getEvergreenDates, getPublishedDates } = createStorage([], ['2025-03-09']);
+
+    const fallback = await findFallbackPuzzle(storage, new Set(), '2025-03-10', '2025-03-09');
+
+    expect(fallback).toEqual({ date: '2025-03-09', source: 'archive' });
+    expect(getEvergreenDates).toHaveBeenCalledWith('2025-03-09');
+    expect(getPublishedDates).toHaveBeenCalledWith('2025-03-09');
+  });
+
+  it('should keep serving the same puzzle for the rest of the day', async () => {
+    const { storage } = createStorage([], ['2025-03-09', '2025-03-08']);
+    await findFallbackPuzzle(storage, new Set(), '2025-03-10', '2025-03-09');
+
+    // Playing it marks it played, but a reload shouldn't move on to another puzzle
+    const again = await findFallbackPuzzle(
+      storage,
+      new Set(['2025-03-09']),
+      '2025-03-10',
+      '2025-03-09'
+    );
+
+    expect(again).toEqual({ date: '2025-03-09', source: 'archive' });
+  });
+
+  it('should pick again on a new day', async () => {
+    const { storage } = createStorage([], ['2025-03-09', '2025-03-08']);
+    await findFallbackPuzzle(storage, new Set(), '2025-03-10', '2025-03-09');
+
+    const next = await findFallbackPuzzle(
+      storage,
+      new Set(['2025-03-09']),
+      '2025-03-11',
+      '2025-03-10'
+    );
+
+    expect(next).toEqual({ date: '2025-03-08', source: 'archive' });
+  });
+});
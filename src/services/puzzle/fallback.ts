@@ -0,0 +1,101 @@
+/**
+ * Fallback Puzzle
+ *
+ * Picks a past puzzle to play when no daily puzzle is published, so the
+ * day isn't a dead end. Evergreen puzzles come first, then the most recent
+ * archive puzzle the player hasn't played. The pick is remembered for the
+ * rest of the day so a reload doesn't swap it for another puzzle.
+ */
+
+import type { IPuzzleStorage } from '../../lib/supabase/storage';
+
+const STORAGE_KEY = 'filmclues-fallback';
+
+export interface FallbackPuzzle {
+  // Date of the past puzzle being served (YYYY-MM-DD format)
+  date: string;
+  source: 'evergreen' | 'archive';
+}
+
+interface StoredFallback extends FallbackPuzzle {
+  // Day the fallback was picked for
+  servedOn: string;
+}
+
+/**
+ * Choose a fallback from published dates, newest first
+ *
+ * @param evergreenDates - Dates of evergreen puzzles
+ * @param archiveDates - Dates of all past published puzzles
+ * @param playedDates - Dates the player has already played
+ * @returns The fallback, or null if every puzzle has been played
+ */
+export function pickFallbackPuzzle(
+  evergreenDates: string[],
+  archiveDates: string[],
+  playedDates: Set<string>
+): FallbackPuzzle | null {
+  const evergreen = evergreenDates.find((date) => !playedDates.has(date));
+  if (evergreen) {
+    return { date: evergreen, source: 'evergreen' };
+  }
+
+  const archive = archiveDates.find((date) => !playedDates.has(date));
+  return archive ? { date: archive, source: 'archive' } : null;
+}
+
+function getStoredFallback(today: string): FallbackPuzzle | null {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) {
+      return null;
+    }
+
+    const { servedOn, date, source } = JSON.parse(stored) as StoredFallback;
+    return servedOn === today ? { date, source } : null;
+  } catch (error) {
+    console.error('Failed to read fallback puzzle from localStorage:', error);
+    return null;
+  }
+}
+
+function storeFallback(today: string, fallback: FallbackPuzzle): void {
+  try {
+    const stored: StoredFallback = { ...fallback, servedOn: today };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(stored));
+  } catch (error) {
+    console.error('Failed to save fallback puzzle to localStorage:', error);
+  }
+}
+
+/**
+ * Find the puzzle to serve today in place of the missing daily puzzle
+ *
+ * @param storage - Puzzle storage
+ * @param playedDates - Dates the player has already played, daily or archive
+ * @param today - Today's date (YYYY-MM-DD)
+ * @param yesterday - Latest archive date (YYYY-MM-DD)
+ */
+export async function findFallbackPuzzle(
+  storage: IPuzzleStorage,
+  playedDates: Set<string>,
+  today: string,
+  yesterday: string
+): Promise<FallbackPuzzle | null> {
+  const stored = getStoredFallback(today);
+  if (stored) {
+    return stored;
+  }
+
+  const [evergreenDates, archiveDates] = await Promise.all([
+    storage.getEvergreenDates(yesterday),
+    storage.getPublishedDates(yesterday),
+  ]);
+
+  const fallback = pickFallbackPuzzle(evergreenDates, archiveDates, playedDates);
+  if (fallback) {
+    storeFallback(today, fallback);
+  }
+
+  return fallback;
+}
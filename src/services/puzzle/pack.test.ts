@@ -0,0 +1,203 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { exportPuzzlePack, importPuzzlePack, parsePuzzlePack, PUZZLE_PACK_VERSION } from './pack';
+import { LocalGroupStorage } from '../LocalGroupStorage';
+import { LocalPuzzleStorage } from '../LocalPuzzleStorage';
+
+const createFixtureStorage = () => {
+  const groupStorage = new LocalGroupStorage({ persist: false });
+  return {
+    groupStorage,
+    puzzleStorage: new LocalPuzzleStorage(groupStorage, { persist: false }),
+  };
+};
+
+const createEmptyStorage = () => {
+  const groupStorage = new LocalGroupStorage({ seed: [], persist: false });
+  return {
+    groupStorage,
+    puzzleStorage: new LocalPuzzleStorage(groupStorage, { seed: [], persist: false }),
+  };
+};
+
+describe('puzzle packs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('exportPuzzlePack', () => {
+    it('should export every puzzle with its groups and workflow state', async () => {
+      const source = createFixtureStorage();
+
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage);
+
+      expect(pack.version).toBe(PUZZLE_PACK_VERSION);
+      expect(pack.puzzles).toHaveLength(4);
+      expect(pack.puzzles.map((puzzle) => puzzle.status).sort()).toEqual([
+        'approved',
+        'published',
+        'published',
+        'published',
+      ]);
+      for (const puzzle of pack.puzzles) {
+        expect(puzzle.groups).toHaveLength(4);
+        expect(puzzle.films).toHaveLength(16);
+        expect(puzzle.groups[0].connectionType).not.toBe('unknown');
+      }
+    });
+
+    it('should export the snapshot of a published puzzle', async () => {
+      const source = createFixtureStorage();
+      const [approved] = (await source.puzzleStorage.listPuzzles({ status: 'approved' })).puzzles;
+      await source.puzzleStorage.updatePuzzle(approved.id, {
+        status: 'published',
+        puzzleDate: '2025-06-05',
+      });
+      await source.groupStorage.updateGroup(approved.groupIds[0], { connection: 'Edited later' });
+
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage, {
+        status: 'published',
+      });
+
+      const exported = pack.puzzles.find((puzzle) => puzzle.id === approved.id);
+      expect(exported?.groups[0].connection).toBe(approved.groups?.[0].connection);
+    });
+  });
+
+  describe('parsePuzzlePack', () => {
+    it('should reject packs from another version', () => {
+      expect(() => parsePuzzlePack({ version: 99, puzzles: [] })).toThrow(
+        'Invalid puzzle pack: version 99'
+      );
+    });
+
+    it('should reject puzzles with malformed groups', () => {
+      expect(() =>
+        parsePuzzlePack({
+          version: PUZZLE_PACK_VERSION,
+          puzzles: [{ status: 'approved', groups: [{ films: [] }] }],
+        })
+      ).toThrow('puzzle 1 has malformed groups');
+    });
+  });
+
+  describe('importPuzzlePack', () => {
+    it('should recreate puzzles with their status and date', async () => {
+      const source = createFixtureStorage();
+      const target = createEmptyStorage();
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage);
+
+      const report = await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      expect(report.created).toHaveLength(4);
+      expect(report.skipped).toEqual([]);
+      expect(report.conflicts).toEqual([]);
+      expect(report.groupsCreated).toBe(16);
+      expect(await target.puzzleStorage.getPublishedDates('2025-06-02')).toEqual(
+        await source.puzzleStorage.getPublishedDates('2025-06-02')
+      );
+      expect((await target.puzzleStorage.listPuzzles({ status: 'approved' })).total).toBe(1);
+    });
+
+    it('should skip puzzles and reuse groups that already exist', async () => {
+      const source = createFixtureStorage();
+      const target = createEmptyStorage();
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage);
+      await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      const report = await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      expect(report.created).toEqual([]);
+      expect(report.skipped).toHaveLength(4);
+      expect(report.groupsCreated).toBe(0);
+      expect(report.groupsReused).toBe(16);
+    });
+
+    it('should find an existing group among many similar connections', async () => {
+      const source = createFixtureStorage();
+      const target = createEmptyStorage();
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage);
+      await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+      const original = pack.puzzles[0].groups[0];
+      for (let i = 0; i < 60; i++) {
+        await target.groupStorage.saveGroup({
+          ...original,
+          connection: `${original.connection} (${i}%)`,
+          status: 'approved',
+        });
+      }
+
+      const report = await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      expect(report.conflicts).toEqual([]);
+      expect(report.groupsReused).toBe(16);
+    });
+
+    it('should report a conflict when a connection exists with other films', async () => {
+      const source = createFixtureStorage();
+      const target = createEmptyStorage();
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage, {
+        status: 'approved',
+      });
+      const clash = pack.puzzles[0].groups[0];
+      await target.groupStorage.saveGroup({
+        ...clash,
+        films: clash.films.map((film) => ({ ...film, id: film.id + 1000 })),
+        status: 'approved',
+      });
+
+      const report = await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      expect(report.conflicts).toEqual([
+        expect.objectContaining({ sourceId: pack.puzzles[0].id, reason: expect.any(String) }),
+      ]);
+      expect(report.conflicts[0].puzzleId).toBeUndefined();
+      expect((await target.puzzleStorage.listPuzzles()).total).toBe(0);
+    });
+
+    it('should import a puzzle undated when its date is taken', async () => {
+      const source = createFixtureStorage();
+      const target = createFixtureStorage();
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage);
+      const today = pack.puzzles.find((puzzle) => puzzle.puzzleDate === '2025-06-01');
+      const existing = await target.puzzleStorage.getDailyPuzzle('2025-06-01');
+      await target.puzzleStorage.deletePuzzle(existing?.id as string);
+      await target.puzzleStorage.savePuzzle({
+        groupIds: (await target.puzzleStorage.listPuzzles({ status: 'approved' })).puzzles[0]
+          .groupIds,
+      });
+      const [pending] = (await target.puzzleStorage.listPuzzles({ status: 'pending' })).puzzles;
+      await target.puzzleStorage.updatePuzzle(pending.id, {
+        status: 'published',
+        puzzleDate: '2025-06-01',
+      });
+
+      const report = await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      expect(report.conflicts).toEqual([
+        expect.objectContaining({ sourceId: today?.id, puzzleId: expect.any(String) }),
+      ]);
+      const importedId = report.conflicts[0].puzzleId as string;
+      expect(await target.puzzleStorage.getPuzzle(importedId)).toMatchObject({ status: 'approved', puzzleDate: null });
+    });
+
+    it('should keep importing when a puzzle cannot be unscheduled', async () => {
+      const source = createFixtureStorage();
+      const target = createEmptyStorage();
+      const pack = await exportPuzzlePack(source.puzzleStorage, source.groupStorage);
+      vi.spyOn(target.puzzleStorage, 'updatePuzzle').mockRejectedValue(new Error('offline'));
+
+      const report = await importPuzzlePack(pack, target.puzzleStorage, target.groupStorage);
+
+      const scheduled = pack.puzzles.filter((puzzle) => puzzle.status !== 'pending');
+      expect(report.conflicts).toHaveLength(scheduled.length);
+      expect(report.conflicts.every((conflict) => conflict.reason?.includes('offline'))).toBe(true);
+      expect(report.created).toHaveLength(pack.puzzles.length - scheduled.length);
+      expect((await target.puzzleStorage.listPuzzles()).total).toBe(pack.puzzles.length);
+    });
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Puzzle Packs
+ *
+ * Versioned JSON export of puzzles with their group snapshots, and an
+ * importer that recreates them in another environment. Groups are matched
+ * by connection, which is unique, so importing twice reuses what's there.
+ */
+
+import type { Group, SavedPuzzle } from '../../types';
+import type {
+  GroupInput,
+  IGroupStorage,
+  IPuzzleStorage,
+  PuzzleListFilters,
+  PuzzleStatus,
+  StoredGroup,
+  StoredPuzzle,
+} from '../../lib/supabase/storage';
+import { validatePuzzleGroups } from './validation';
+
+/**
+ * Bump when the pack shape changes. Packs with a different version are rejected.
+ */
+export const PUZZLE_PACK_VERSION = 1;
+
+// Puzzles fetched per page while exporting
+const EXPORT_PAGE_SIZE = 50;
+
+const PUZZLE_STATUSES: PuzzleStatus[] = ['pending', 'approved', 'published', 'rejected'];
+
+/**
+ * Group snapshot plus the fields needed to recreate the stored group
+ */
+export interface PackGroup extends Group {
+  connectionType: string;
+  difficultyScore: number;
+}
+
+/**
+ * A puzzle as exported: the playable puzzle plus its workflow state
+ */
+export interface PackPuzzle extends Omit<SavedPuzzle, 'groups'> {
+  groups: PackGroup[];
+  title: string | null;
+  status: PuzzleStatus;
+  puzzleDate: string | null;
+}
+
+export interface PuzzlePack {
+  version: number;
+  exportedAt: string;
+  puzzles: PackPuzzle[];
+}
+
+/**
+ * Outcome for one puzzle in a pack
+ */
+export interface PackImportEntry {
+  // Id of the puzzle in the environment it was exported from
+  sourceId: string;
+  title: string | null;
+  // Id of the puzzle created by the import, if any
+  puzzleId?: string;
+  reason?: string;
+}
+
+export interface PackImportReport {
+  created: PackImportEntry[];
+  // Invalid puzzles and puzzles that already exist
+  skipped: PackImportEntry[];
+  // Puzzles clashing with existing data; created without a date if possible
+  conflicts: PackImportEntry[];
+  groupsCreated: number;
+  groupsReused: number;
+}
+
+/**
+ * Fetch every puzzle matching the filters, a page at a time
+ */
+async function listAllPuzzles(
+  storage: IPuzzleStorage,
+  filters: Omit<PuzzleListFilters, 'limit' | 'offset'> = {}
+): Promise<StoredPuzzle[]> {
+  const puzzles: StoredPuzzle[] = [];
+
+  for (;;) {
+    const page = await storage.listPuzzles({
+      ...filters,
+      limit: EXPORT_PAGE_SIZE,
+      offset: puzzles.length,
+    });
+    puzzles.push(...page.puzzles);
+
+    if (page.puzzles.length === 0 || puzzles.length >= page.total) {
+      return puzzles;
+    }
+  }
+}
+
+const filmKey = (films: { id: number }[]) =>
+  films
+    .map((film) => film.id)
+    .sort((a, b) => a - b)
+    .join(',');
+
+const groupIdsKey = (groupIds: string[]) => [...groupIds].sort().join(',');
+
+/**
+ * Export puzzles to a pack. Published puzzles use the group snapshot
+ * players see; others use the current groups.
+ *
+ * @param filters - Which puzzles to export (defaults to all)
+ */
+export async function exportPuzzlePack(
+  puzzleStorage: IPuzzleStorage,
+  groupStorage: IGroupStorage,
+  filters: Omit<PuzzleListFilters, 'limit' | 'offset'> = {}
+): Promise<PuzzlePack> {
+  const puzzles = await listAllPuzzles(puzzleStorage, filters);
+  const storedGroups = await groupStorage.getGroupsByIds([
+    ...new Set(puzzles.flatMap((puzzle) => puzzle.groupIds)),
+  ]);
+  const storedById = new Map(storedGroups.map((group) => [group.id, group]));
+
+  const packPuzzles = await Promise.all(
+    puzzles.map(async (puzzle): Promise<PackPuzzle> => {
+      const snapshot =
+        puzzle.status === 'published' && puzzle.puzzleDate
+          ? await puzzleStorage.getDailyPuzzle(puzzle.puzzleDate)
+          : null;
+      const groups = (snapshot?.groups ?? puzzle.groups ?? []).map((group) => ({
+        ...group,
+        connectionType: storedById.get(group.id)?.connectionType ?? 'unknown',
+        difficultyScore: storedById.get(group.id)?.difficultyScore ?? 0,
+      }));
+
+      return {
+        id: puzzle.id,
+        title: puzzle.title,
+        status: puzzle.status,
+        puzzleDate: puzzle.puzzleDate,
+        createdAt: puzzle.createdAt,
+        metadata: puzzle.metadata,
+        groups,
+        films: groups.flatMap((group) => group.films),
+      };
+    })
+  );
+
+  return {
+    version: PUZZLE_PACK_VERSION,
+    exportedAt: new Date().toISOString(),
+    puzzles: packPuzzles,
+  };
+}
+
+/**
+ * Check that parsed JSON is a pack this version can import
+ *
+ * @throws Error describing the first problem found
+ */
+export function parsePuzzlePack(data: unknown): PuzzlePack {
+  const pack = data as Partial<PuzzlePack> | null;
+
+  if (!pack || typeof pack !== 'object') {
+    throw new Error('Invalid puzzle pack: not a JSON object');
+  }
+  if (pack.version !== PUZZLE_PACK_VERSION) {
+    throw new Error(
+      `Invalid puzzle pack: version ${pack.version} is not supported ` +
+        `(expected ${PUZZLE_PACK_VERSION})`
+    );
+  }
+  if (!Array.isArray(pack.puzzles)) {
+    throw new Error('Invalid puzzle pack: missing puzzles');
+  }
+
+  pack.puzzles.forEach((puzzle, index) => {
+    if (!PUZZLE_STATUSES.includes(puzzle?.status)) {
+      throw new Error(`Invalid puzzle pack: puzzle ${index + 1} has an unknown status`);
+    }
+    const groupsOk =
+      Array.isArray(puzzle.groups) &&
+      puzzle.groups.every(
+        (group) => typeof group?.connection === 'string' && Array.isArray(group.films)
+      );
+    if (!groupsOk) {
+      throw new Error(`Invalid puzzle pack: puzzle ${index + 1} has malformed groups`);
+    }
+  });
+
+  return pack as PuzzlePack;
+}
+
+const toGroupInput = (group: PackGroup): GroupInput => ({
+  films: group.films,
+  connection: group.connection,
+  connectionType: group.connectionType,
+  difficultyScore: group.difficultyScore,
+  color: group.color,
+  difficulty: group.difficulty,
+  status: 'approved',
+});
+
+/**
+ * Import a pack, recreating its groups and puzzles.
+ * Existing groups with the same connection and films are reused; puzzles
+ * made of the same groups as an existing puzzle are skipped.
+ *
+ * @param data - Parsed pack JSON
+ * @throws Error if the pack itself is malformed
+ */
+export async function importPuzzlePack(
+  data: unknown,
+  puzzleStorage: IPuzzleStorage,
+  groupStorage: IGroupStorage
+): Promise<PackImportReport> {
+  const pack = parsePuzzlePack(data);
+  const report: PackImportReport = {
+    created: [],
+    skipped: [],
+    conflicts: [],
+    groupsCreated: 0,
+    groupsReused: 0,
+  };
+  const entry = (puzzle: PackPuzzle, extra: Partial<PackImportEntry> = {}): PackImportEntry => ({
+    sourceId: puzzle.id,
+    title: puzzle.title,
+    ...extra,
+  });
+
+  const valid = pack.puzzles.filter((puzzle) => {
+    const issues = validatePuzzleGroups(puzzle.groups);
+    if (issues.length > 0) {
+      report.skipped.push(entry(puzzle, { reason: issues.map((i) => i.message).join('; ') }));
+    }
+    return issues.length === 0;
+  });
+
+  // One input per connection; duplicates of existing groups are skipped by saveBatch
+  const inputs = new Map<string, GroupInput>();
+  for (const group of valid.flatMap((puzzle) => puzzle.groups)) {
+    if (!inputs.has(group.connection)) {
+      inputs.set(group.connection, toGroupInput(group));
+    }
+  }
+
+  const created = await groupStorage.saveBatch([...inputs.values()]);
+  const byConnection = new Map<string, StoredGroup>(
+    created.map((group) => [group.connection, group])
+  );
+  report.groupsCreated = created.length;
+
+  const missing = [...inputs.keys()].filter((connection) => !byConnection.has(connection));
+  for (const existing of await groupStorage.getGroupsByConnections(missing)) {
+    byConnection.set(existing.connection, existing);
+    report.groupsReused++;
+  }
+
+  const existingPuzzles = await listAllPuzzles(puzzleStorage);
+  const existingKeys = new Set(existingPuzzles.map((puzzle) => groupIdsKey(puzzle.groupIds)));
+
+  for (const puzzle of valid) {
+    const mismatch = puzzle.groups.find((group) => {
+      const stored = byConnection.get(group.connection);
+      return !stored || filmKey(stored.films) !== filmKey(group.films);
+    });
+    if (mismatch) {
+      report.conflicts.push(
+        entry(puzzle, { reason: `"${mismatch.connection}" already exists with different films` })
+      );
+      continue;
+    }
+
+    const groupIds = puzzle.groups.map(
+      (group) => (byConnection.get(group.connection) as StoredGroup).id
+    );
+    if (existingKeys.has(groupIdsKey(groupIds))) {
+      report.skipped.push(entry(puzzle, { reason: 'Puzzle already exists' }));
+      continue;
+    }
+    existingKeys.add(groupIdsKey(groupIds));
+
+    const saved = await puzzleStorage.savePuzzle({
+      groupIds,
+      title: puzzle.title,
+      metadata: puzzle.metadata,
+    });
+
+    if (puzzle.status === 'pending') {
+      report.created.push(entry(puzzle, { puzzleId: saved.id }));
+      continue;
+    }
+
+    try {
+      await puzzleStorage.updatePuzzle(saved.id, {
+        status: puzzle.status,
+        puzzleDate: puzzle.status === 'published' ? puzzle.puzzleDate : null,
+      });
+      report.created.push(entry(puzzle, { puzzleId: saved.id }));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+
+      // Usually the date is taken; keep the puzzle, unscheduled
+      try {
+        await puzzleStorage.updatePuzzle(saved.id, { status: 'approved', puzzleDate: null });
+        report.conflicts.push(
+          entry(puzzle, { puzzleId: saved.id, reason: `Imported as approved: ${message}` })
+        );
+      } catch (fallbackError) {
+        const fallbackMessage =
+          fallbackError instanceof Error ? fallbackError.message : String(fallbackError);
+        report.conflicts.push(
+          entry(puzzle, {
+            puzzleId: saved.id,
+            reason: `Imported as pending: ${message}; ${fallbackMessage}`,
+          })
+        );
+      }
+    }
+  }
+
+  return report;
+}
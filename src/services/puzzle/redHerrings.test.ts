@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { findAttributeOverlaps, type AnalyzableGroup } from './redHerrings';
+import type { Film } from '../../types';
+
+let nextId = 1;
+const film = (overrides: Partial<Film> = {}): Film => ({
+  id: nextId++,
+  title: `Film ${nextId}`,
+  year: 1995,
+  ...overrides,
+});
+
+const nolanGroup = (connectionType?: string): AnalyzableGroup => ({
+  id: 'nolan',
+  connection: 'Directed by Christopher Nolan',
+  connectionType,
+  films: [
+    film({ director: 'Christopher Nolan', year: 2010 }),
+    film({ director: 'Christopher Nolan', year: 2014 }),
+    film({ director: 'Christopher Nolan', year: 2000 }),
+    film({ director: 'Christopher Nolan', year: 2020 }),
+  ],
+});
+
+describe('findAttributeOverlaps', () => {
+  it('should report nothing when groups share no traits', () => {
+    const other: AnalyzableGroup = {
+      id: 'other',
+      connection: 'Westerns',
+      films: [film({ year: 1961 }), film({ year: 1972 }), film({ year: 1985 }), film({ year: 1999 })],
+    };
+
+    expect(findAttributeOverlaps([nolanGroup(), other])).toEqual([]);
+  });
+
+  it('should flag a film matching another group connection as ambiguous', () => {
+    const heist: AnalyzableGroup = {
+      id: 'heist',
+      connection: 'Heist films',
+      films: [
+        film({ director: 'Christopher Nolan', title: 'Inception' }),
+        film(),
+        film(),
+        film(),
+      ],
+    };
+
+    const overlaps = findAttributeOverlaps([nolanGroup('director'), heist]);
+
+    expect(overlaps).toHaveLength(1);
+    expect(overlaps[0]).toMatchObject({
+      groupId: 'heist',
+      otherGroupId: 'nolan',
+      attribute: 'director',
+      value: 'Christopher Nolan',
+      matchCount: 4,
+      kind: 'ambiguity',
+    });
+  });
+
+  it('should treat a shared trait outside the connection as a red herring', () => {
+    const nineties: AnalyzableGroup = {
+      id: 'nineties',
+      connection: 'Films with a twist ending',
+      connectionType: 'theme',
+      films: [film({ year: 1995 }), film({ year: 1997 }), film({ year: 1999 }), film({ year: 1996 })],
+    };
+    const other: AnalyzableGroup = {
+      id: 'other',
+      connection: 'Sequels',
+      films: [film({ year: 1994 }), film({ year: 2005 }), film({ year: 2011 }), film({ year: 2019 })],
+    };
+
+    const overlaps = findAttributeOverlaps([nineties, other]);
+
+    expect(overlaps).toHaveLength(1);
+    expect(overlaps[0]).toMatchObject({ attribute: 'decade', value: '1990s', kind: 'red-herring' });
+  });
+
+  it('should list ambiguities before red herrings', () => {
+    const actors: AnalyzableGroup = {
+      id: 'actors',
+      connection: 'Starring Tom Hanks',
+      connectionType: 'actor',
+      films: [
+        film({ cast: ['Tom Hanks'], year: 2011 }),
+        film({ cast: ['Tom Hanks'], year: 2012 }),
+        film({ cast: ['Tom Hanks'], year: 2013 }),
+        film({ cast: ['Tom Hanks', 'Meg Ryan'], year: 1993 }),
+      ],
+    };
+    const mixed: AnalyzableGroup = {
+      id: 'mixed',
+      connection: 'Mixed',
+      films: [
+        film({ year: 2010 }),
+        film({ cast: ['Tom Hanks'], year: 1980 }),
+        film({ year: 1970 }),
+        film({ year: 1960 }),
+      ],
+    };
+
+    const kinds = findAttributeOverlaps([mixed, actors]).map((overlap) => overlap.kind);
+
+    expect(kinds[0]).toBe('ambiguity');
+    expect(kinds).toContain('red-herring');
+  });
+});
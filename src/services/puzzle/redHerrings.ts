@@ -0,0 +1,166 @@
+/**
+ * Red Herring Analysis
+ *
+ * Finds films that could plausibly belong to another group of the same
+ * puzzle because they share that group's director, cast member, genre or
+ * decade. Editors use the report to tune difficulty: some overlap makes a
+ * puzzle interesting, too much makes it ambiguous.
+ */
+
+import type { Film, GroupingStrategy } from '../../types';
+
+/**
+ * Film metadata compared across groups
+ */
+export type OverlapAttribute = 'director' | 'cast' | 'genre' | 'decade';
+
+/**
+ * How an overlap is likely to play:
+ * - red-herring: shares a trait with another group, but not its connection
+ * - ambiguity: matches another group's connection, so a guess could be argued either way
+ */
+export type OverlapKind = 'red-herring' | 'ambiguity';
+
+/**
+ * A film from one group that shares a common trait of another group
+ */
+export interface AttributeOverlap {
+  film: Film;
+  /** Group the film belongs to */
+  groupId: string;
+  /** Group whose trait the film shares */
+  otherGroupId: string;
+  otherConnection: string;
+  attribute: OverlapAttribute;
+  value: string;
+  /** Films in the other group with the same value */
+  matchCount: number;
+  kind: OverlapKind;
+}
+
+/**
+ * The group fields the analysis needs.
+ * connectionType is known for stored groups but not for published ones.
+ */
+export interface AnalyzableGroup {
+  id: string;
+  connection: string;
+  films: Film[];
+  connectionType?: string;
+}
+
+/**
+ * Share of a group's films that must have a value for it to count as a trait
+ * of the group. Lower thresholds flag too many coincidences (e.g. "Drama").
+ */
+const TRAIT_THRESHOLD = 0.75;
+
+/**
+ * Grouping strategies that connect films through each attribute
+ */
+const ATTRIBUTE_STRATEGIES: Record<OverlapAttribute, GroupingStrategy[]> = {
+  director: ['director'],
+  cast: ['actor'],
+  genre: ['theme'],
+  decade: ['decade', 'year'],
+};
+
+const ATTRIBUTES = Object.keys(ATTRIBUTE_STRATEGIES) as OverlapAttribute[];
+
+/**
+ * Get a film's values for an attribute
+ */
+function getAttributeValues(film: Film, attribute: OverlapAttribute): string[] {
+  switch (attribute) {
+    case 'director':
+      return film.director ? [film.director] : [];
+    case 'cast':
+      return film.cast ?? [];
+    case 'genre':
+      return film.genres ?? [];
+    case 'decade':
+      return film.year ? [`${Math.floor(film.year / 10) * 10}s`] : [];
+  }
+}
+
+/**
+ * Values of an attribute shared by enough of a group's films to be a trait,
+ * with the number of films that have each
+ */
+function getGroupTraits(group: AnalyzableGroup, attribute: OverlapAttribute): Map<string, number> {
+  const counts = new Map<string, number>();
+
+  for (const film of group.films) {
+    for (const value of new Set(getAttributeValues(film, attribute))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  const minCount = Math.max(2, Math.ceil(group.films.length * TRAIT_THRESHOLD));
+  return new Map([...counts].filter(([, count]) => count >= minCount));
+}
+
+/**
+ * Decide whether an overlap matches the other group's actual connection.
+ * A trait every film shares is most likely the connection itself, unless the
+ * group's connection type says it's about something else.
+ */
+function classifyOverlap(
+  otherGroup: AnalyzableGroup,
+  attribute: OverlapAttribute,
+  matchCount: number
+): OverlapKind {
+  if (matchCount < otherGroup.films.length) {
+    return 'red-herring';
+  }
+
+  if (
+    otherGroup.connectionType &&
+    !ATTRIBUTE_STRATEGIES[attribute].includes(otherGroup.connectionType as GroupingStrategy)
+  ) {
+    return 'red-herring';
+  }
+
+  return 'ambiguity';
+}
+
+/**
+ * Find films that share a trait of another group in the same puzzle.
+ *
+ * @param groups - Groups of the candidate puzzle
+ * @returns Overlaps, ambiguities first
+ */
+export function findAttributeOverlaps(groups: AnalyzableGroup[]): AttributeOverlap[] {
+  const overlaps: AttributeOverlap[] = [];
+
+  for (const otherGroup of groups) {
+    for (const attribute of ATTRIBUTES) {
+      const traits = getGroupTraits(otherGroup, attribute);
+      if (traits.size === 0) continue;
+
+      for (const group of groups) {
+        if (group.id === otherGroup.id) continue;
+
+        for (const film of group.films) {
+          for (const value of getAttributeValues(film, attribute)) {
+            const matchCount = traits.get(value);
+            if (matchCount === undefined) continue;
+
+            overlaps.push({
+              film,
+              groupId: group.id,
+              otherGroupId: otherGroup.id,
+              otherConnection: otherGroup.connection,
+              attribute,
+              value,
+              matchCount,
+              kind: classifyOverlap(otherGroup, attribute, matchCount),
+            });
+          }
+        }
+      }
+    }
+  }
+
+  return overlaps.sort((a, b) => (a.kind === b.kind ? 0 : a.kind === 'ambiguity' ? -1 : 1));
+}
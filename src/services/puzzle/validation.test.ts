@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { assertValidPuzzle, validatePuzzleGroups, type ValidatableGroup } from './validation';
+import type { DifficultyColor } from '../../types';
+
+const createGroup = (
+  id: string,
+  color: DifficultyColor | null,
+  filmIds: number[],
+  titles: string[] = filmIds.map((filmId) => `Film ${filmId}`)
+): ValidatableGroup => ({
+  id,
+  connection: `Connection ${id}`,
+  color,
+  films: filmIds.map((filmId, index) => ({ id: filmId, title: titles[index], year: 2000 })),
+});
+
+const createValidGroups = (): ValidatableGroup[] => [
+  createGroup('a', 'yellow', [1, 2, 3, 4]),
+  createGroup('b', 'green', [5, 6, 7, 8]),
+  createGroup('c', 'blue', [9, 10, 11, 12]),
+  createGroup('d', 'purple', [13, 14, 15, 16]),
+];
+
+const codes = (groups: ValidatableGroup[]) =>
+  validatePuzzleGroups(groups).map((issue) => issue.code);
+
+describe('validatePuzzleGroups', () => {
+  it('should accept a valid puzzle', () => {
+    expect(validatePuzzleGroups(createValidGroups())).toEqual([]);
+  });
+
+  it('should flag the wrong number of groups', () => {
+    expect(codes(createValidGroups().slice(0, 3))).toEqual(['wrong-group-count']);
+  });
+
+  it('should flag groups without four films', () => {
+    const groups = createValidGroups();
+    groups[0] = createGroup('a', 'yellow', [1, 2, 3]);
+
+    expect(codes(groups)).toEqual(['wrong-film-count']);
+  });
+
+  it('should flag a film id shared by two groups', () => {
+    const groups = createValidGroups();
+    groups[1] = createGroup('b', 'green', [5, 6, 7, 1]);
+
+    const issues = validatePuzzleGroups(groups);
+
+    expect(issues).toHaveLength(1);
+    expect(issues[0]).toMatchObject({ code: 'duplicate-film-id', groupIds: ['a', 'b'] });
+  });
+
+  it('should flag the same title under different ids', () => {
+    const groups = createValidGroups();
+    groups[2] = createGroup('c', 'blue', [9, 10, 11, 99], ['Film 9', 'Film 10', 'Film 11', ' film 1 ']);
+
+    expect(codes(groups)).toEqual(['duplicate-film-title']);
+  });
+
+  it('should flag missing and duplicate colors', () => {
+    const groups = createValidGroups();
+    groups[2] = createGroup('c', 'green', [9, 10, 11, 12]);
+    groups[3] = createGroup('d', null, [13, 14, 15, 16]);
+
+    expect(codes(groups)).toEqual(['missing-color', 'duplicate-color']);
+  });
+});
+
+describe('assertValidPuzzle', () => {
+  it('should list every issue in the error', () => {
+    const groups = createValidGroups();
+    groups[3] = createGroup('d', null, [13, 14, 15]);
+
+    expect(() => assertValidPuzzle(groups)).toThrow(/Invalid puzzle: .*3 films.*no difficulty color/);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Puzzle Validation
+ *
+ * Checks that a set of connection groups makes a solvable puzzle.
+ * Guesses are matched by sorted film ids, so a film shared by two groups
+ * would make one of them impossible to find.
+ */
+
+import type { DifficultyColor, Film } from '../../types';
+
+/**
+ * Number of groups in a puzzle
+ */
+export const PUZZLE_GROUP_COUNT = 4;
+
+/**
+ * Number of films in each group
+ */
+export const GROUP_FILM_COUNT = 4;
+
+export type PuzzleValidationCode =
+  | 'wrong-group-count'
+  | 'wrong-film-count'
+  | 'duplicate-film-id'
+  | 'duplicate-film-title'
+  | 'missing-color'
+  | 'duplicate-color';
+
+/**
+ * A single problem found in a puzzle
+ */
+export interface PuzzleValidationIssue {
+  code: PuzzleValidationCode;
+  message: string;
+  /** Groups involved in the problem */
+  groupIds: string[];
+}
+
+/**
+ * The group fields the validator needs. Accepts both game groups and
+ * stored groups, whose color may not be set yet.
+ */
+export interface ValidatableGroup {
+  id: string;
+  connection: string;
+  films: Film[];
+  color: DifficultyColor | null;
+}
+
+/**
+ * Normalize a title for duplicate detection
+ */
+function normalizeTitle(title: string): string {
+  return title.trim().toLowerCase();
+}
+
+/**
+ * Find keys that appear in more than one group.
+ * Returns each duplicated key with the groups it appears in.
+ */
+function findSharedKeys<K>(
+  groups: ValidatableGroup[],
+  getKeys: (group: ValidatableGroup) => K[]
+): Map<K, ValidatableGroup[]> {
+  const groupsByKey = new Map<K, ValidatableGroup[]>();
+
+  for (const group of groups) {
+    for (const key of new Set(getKeys(group))) {
+      groupsByKey.set(key, [...(groupsByKey.get(key) ?? []), group]);
+    }
+  }
+
+  return new Map([...groupsByKey].filter(([, keyGroups]) => keyGroups.length > 1));
+}
+
+/**
+ * Validate the groups of a puzzle.
+ *
+ * @param groups - Groups of the puzzle, in any order
+ * @returns Problems found; empty if the puzzle is valid
+ */
+export function validatePuzzleGroups(groups: ValidatableGroup[]): PuzzleValidationIssue[] {
+  const issues: PuzzleValidationIssue[] = [];
+
+  if (groups.length !== PUZZLE_GROUP_COUNT) {
+    issues.push({
+      code: 'wrong-group-count',
+      message: `Puzzle has ${groups.length} groups; expected ${PUZZLE_GROUP_COUNT}`,
+      groupIds: groups.map((group) => group.id),
+    });
+  }
+
+  for (const group of groups) {
+    if (group.films.length !== GROUP_FILM_COUNT) {
+      issues.push({
+        code: 'wrong-film-count',
+        message: `"${group.connection}" has ${group.films.length} films; expected ${GROUP_FILM_COUNT}`,
+        groupIds: [group.id],
+      });
+    }
+
+    if (!group.color) {
+      issues.push({
+        code: 'missing-color',
+        message: `"${group.connection}" has no difficulty color`,
+        groupIds: [group.id],
+      });
+    }
+  }
+
+  const filmsById = new Map(groups.flatMap((group) => group.films.map((film) => [film.id, film])));
+  const sharedFilmIds = findSharedKeys(groups, (group) => group.films.map((film) => film.id));
+  for (const [filmId, filmGroups] of sharedFilmIds) {
+    issues.push({
+      code: 'duplicate-film-id',
+      message: `"${filmsById.get(filmId)?.title}" appears in ${filmGroups
+        .map((group) => `"${group.connection}"`)
+        .join(' and ')}`,
+      groupIds: filmGroups.map((group) => group.id),
+    });
+  }
+
+  // Different ids with the same title (e.g. remakes) still confuse players
+  for (const [title, titleGroups] of findSharedKeys(groups, (group) =>
+    group.films
+      .filter((film) => !sharedFilmIds.has(film.id))
+      .map((film) => normalizeTitle(film.title))
+  )) {
+    issues.push({
+      code: 'duplicate-film-title',
+      message: `A film titled "${title}" appears in ${titleGroups
+        .map((group) => `"${group.connection}"`)
+        .join(' and ')}`,
+      groupIds: titleGroups.map((group) => group.id),
+    });
+  }
+
+  for (const [color, colorGroups] of findSharedKeys(groups, (group) =>
+    group.color ? [group.color] : []
+  )) {
+    issues.push({
+      code: 'duplicate-color',
+      message: `${colorGroups.length} groups are ${color}: ${colorGroups
+        .map((group) => `"${group.connection}"`)
+        .join(', ')}`,
+      groupIds: colorGroups.map((group) => group.id),
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Throw if the groups don't make a valid puzzle.
+ *
+ * @param groups - Groups of the puzzle
+ * @throws Error listing every problem found
+ */
+export function assertValidPuzzle(groups: ValidatableGroup[]): void {
+  const issues = validatePuzzleGroups(groups);
+
+  if (issues.length > 0) {
+    throw new Error(`Invalid puzzle: ${issues.map((issue) => issue.message).join('; ')}`);
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { findCommonWrongGuesses } from './wrongGuesses';
+import type { GameplayRecord } from '../../lib/supabase/storage';
+import type { Film, Group, GuessRecord } from '../../types';
+
+const films: Film[] = Array.from({ length: 16 }, (_, i) => ({
+  id: i + 1,
+  title: `Film ${i + 1}`,
+  year: 2000,
+}));
+
+const groups: Group[] = [
+  { id: 'g1', films: films.slice(0, 4), connection: 'One', difficulty: 'easy', color: 'yellow' },
+  { id: 'g2', films: films.slice(4, 8), connection: 'Two', difficulty: 'medium', color: 'green' },
+  { id: 'g3', films: films.slice(8, 12), connection: 'Three', difficulty: 'hard', color: 'blue' },
+  { id: 'g4', films: films.slice(12, 16), connection: 'Four', difficulty: 'hardest', color: 'purple' },
+];
+
+const wrong = (filmIds: number[]): GuessRecord => ({ filmIds, correct: false, groupId: null });
+const correct = (group: Group): GuessRecord => ({
+  filmIds: group.films.map((f) => f.id),
+  correct: true,
+  groupId: group.id,
+});
+
+const game = (guesses: GuessRecord[] | null): GameplayRecord => ({
+  puzzleId: 'p1',
+  puzzleDate: '2025-06-01',
+  completed: true,
+  mistakes: guesses ? guesses.filter((guess) => !guess.correct).length : 0,
+  guesses,
+});
+
+describe('findCommonWrongGuesses', () => {
+  it('should rank wrong combinations by how many games tried them', () => {
+    const report = findCommonWrongGuesses(
+      [
+        game([wrong([1, 2, 3, 5]), correct(groups[0])]),
+        game([wrong([5, 3, 2, 1]), wrong([1, 5, 9, 13])]),
+        game([wrong([1, 5, 9, 13]), wrong([1, 2, 3, 5])]),
+        game([correct(groups[1])]),
+      ],
+      groups
+    );
+
+    expect(report.gamesAnalyzed).toBe(4);
+    expect(report.totalWrongGuesses).toBe(5);
+    expect(report.commonGuesses).toEqual([
+      { filmIds: [1, 2, 3, 5], count: 3, share: 0.75, oneAwayGroupId: 'g1' },
+      { filmIds: [1, 5, 9, 13], count: 2, share: 0.5, oneAwayGroupId: null },
+    ]);
+  });
+
+  it('should skip games recorded without a guess log', () => {
+    const report = findCommonWrongGuesses([game(null), game([wrong([1, 2, 3, 5])])], groups);
+
+    expect(report.gamesAnalyzed).toBe(1);
+    expect(report.commonGuesses[0].share).toBe(1);
+  });
+
+  it('should limit the number of combinations returned', () => {
+    const report = findCommonWrongGuesses(
+      [game([wrong([1, 2, 3, 5]), wrong([1, 2, 3, 6]), wrong([1, 2, 3, 7])])],
+      groups,
+      2
+    );
+
+    expect(report.commonGuesses.map((guess) => guess.filmIds)).toEqual([
+      [1, 2, 3, 5],
+      [1, 2, 3, 6],
+    ]);
+  });
+
+  it('should report nothing when no games were played', () => {
+    expect(findCommonWrongGuesses([], groups)).toEqual({
+      gamesAnalyzed: 0,
+      totalWrongGuesses: 0,
+      commonGuesses: [],
+    });
+  });
+});
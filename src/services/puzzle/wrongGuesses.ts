@@ -0,0 +1,91 @@
+/**
+ * Wrong Guess Analysis
+ *
+ * Ranks the wrong combinations players tried on a puzzle, using the guess
+ * log stored with each completed game. Editors use the report to spot
+ * unintended overlaps that trip up most players.
+ */
+
+import type { Group } from '../../types';
+import type { GameplayRecord } from '../../lib/supabase/storage';
+import { findOneAwayGroup, sortFilmIds } from '../../utils/guesses';
+
+/** Number of combinations listed when no limit is given */
+export const DEFAULT_WRONG_GUESS_LIMIT = 5;
+
+/**
+ * A wrong combination and how many players tried it
+ */
+export interface CommonWrongGuess {
+  /** Film ids of the guess, sorted ascending */
+  filmIds: number[];
+  /** Games in which the combination was guessed */
+  count: number;
+  /** Share of analysed games that guessed it (0-1) */
+  share: number;
+  /** Group the guess had three films of, or null */
+  oneAwayGroupId: string | null;
+}
+
+/**
+ * Wrong guesses of one puzzle across all players
+ */
+export interface WrongGuessReport {
+  /** Games with a guess log */
+  gamesAnalyzed: number;
+  /** Wrong guesses across those games */
+  totalWrongGuesses: number;
+  /** Most common combinations, most frequent first */
+  commonGuesses: CommonWrongGuess[];
+}
+
+/**
+ * Rank the wrong combinations guessed on a puzzle.
+ * Games recorded before guesses were stored are skipped.
+ *
+ * @param games - Completed games of the puzzle
+ * @param groups - Groups of the puzzle
+ * @param limit - Maximum number of combinations to return
+ */
+export function findCommonWrongGuesses(
+  games: GameplayRecord[],
+  groups: Group[],
+  limit: number = DEFAULT_WRONG_GUESS_LIMIT
+): WrongGuessReport {
+  const counts = new Map<string, { filmIds: number[]; count: number }>();
+  let gamesAnalyzed = 0;
+  let totalWrongGuesses = 0;
+
+  for (const game of games) {
+    if (!game.guesses) continue;
+    gamesAnalyzed++;
+
+    // A combination counts once per game
+    const seen = new Set<string>();
+    for (const guess of game.guesses) {
+      if (guess.correct) continue;
+      totalWrongGuesses++;
+
+      const filmIds = sortFilmIds(guess.filmIds);
+      const key = filmIds.join(',');
+      if (seen.has(key)) continue;
+      seen.add(key);
+
+      const entry = counts.get(key) ?? { filmIds, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    }
+  }
+
+  const commonGuesses = [...counts.entries()]
+    .sort(([keyA, a], [keyB, b]) => b.count - a.count || keyA.localeCompare(keyB))
+    .slice(0, limit)
+    .map(([, { filmIds, count }]) => ({
+      filmIds,
+      count,
+      share: count / gamesAnalyzed,
+      oneAwayGroupId: findOneAwayGroup(filmIds, groups)?.id ?? null,
+    }));
+
+  return { gamesAnalyzed, totalWrongGuesses, commonGuesses };
+}
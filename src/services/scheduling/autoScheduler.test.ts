@@ -0,0 +1,169 @@
+import { describe, it, expect, vi } from 'vitest';
+import { autoSchedule, planAutoSchedule, type SchedulingCandidate } from './autoScheduler';
+import type {
+  IGroupStorage,
+  IPuzzleStorage,
+  PuzzleListFilters,
+  PuzzleStatus,
+  StoredPuzzle,
+} from '../../lib/supabase/storage';
+
+const TODAY = '2025-03-10';
+
+const createPuzzle = (
+  id: string,
+  groupIds: string[],
+  status: PuzzleStatus = 'approved',
+  puzzleDate: string | null = null,
+  createdAt = 0
+): StoredPuzzle => ({ id, createdAt, puzzleDate, title: null, groupIds, status });
+
+const candidate = (id: string, connectionTypes: string[]): SchedulingCandidate => ({
+  puzzle: createPuzzle(id, []),
+  connectionTypes,
+});
+
+describe('planAutoSchedule', () => {
+  it('should fill gaps with the oldest candidates in order', () => {
+    const plan = planAutoSchedule(
+      ['2025-03-10', '2025-03-11'],
+      [candidate('a', ['director']), candidate('b', ['actor'])],
+      new Map()
+    );
+
+    expect(plan.assignments.map((a) => [a.date, a.puzzleId])).toEqual([
+      ['2025-03-10', 'a'],
+      ['2025-03-11', 'b'],
+    ]);
+    expect(plan.unfilledDates).toEqual([]);
+  });
+
+  it('should skip candidates sharing a connection type with a neighbouring day', () => {
+    const plan = planAutoSchedule(
+      ['2025-03-10', '2025-03-11'],
+      [candidate('a', ['director']), candidate('b', ['actor']), candidate('c', ['genre'])],
+      new Map([['2025-03-12', ['actor']]])
+    );
+
+    expect(plan.assignments.map((a) => a.puzzleId)).toEqual(['a', 'c']);
+    expect(plan.assignments[1].repeatedConnectionTypes).toEqual([]);
+  });
+
+  it('should pick the least repetitive candidate when none avoids a repeat', () => {
+    const plan = planAutoSchedule(
+      ['2025-03-10'],
+      [candidate('a', ['director', 'actor']), candidate('b', ['director', 'genre'])],
+      new Map([['2025-03-09', ['director', 'actor']]])
+    );
+
+    expect(plan.assignments[0].puzzleId).toBe('b');
+    expect(plan.assignments[0].repeatedConnectionTypes).toEqual(['director']);
+  });
+
+  it('should report dates left once candidates run out', () => {
+    const plan = planAutoSchedule(['2025-03-10', '2025-03-11'], [candidate('a', [])], new Map());
+
+    expect(plan.unfilledDates).toEqual(['2025-03-11']);
+  });
+});
+
+describe('autoSchedule', () => {
+  const createStorages = () => {
+    const published = [
+      createPuzzle('yesterday', ['g1'], 'published', '2025-03-09'),
+      createPuzzle('tomorrow', ['g2'], 'published', '2025-03-11'),
+    ];
+    const approved = [
+      createPuzzle('newer', ['g3'], 'approved', null, 2),
+      createPuzzle('older', ['g1'], 'approved', null, 1),
+    ];
+    const types: Record<string, string> = { g1: 'director', g2: 'actor', g3: 'genre' };
+
+    const listPuzzles = vi.fn(async (filters?: PuzzleListFilters) => {
+      const puzzles = filters?.status === 'published' ? published : approved;
+      return { puzzles, total: puzzles.length };
+    });
+    const updatePuzzle = vi.fn(async (id: string) => createPuzzle(id, [], 'published'));
+    const puzzleStorage = { listPuzzles, updatePuzzle } as unknown as IPuzzleStorage;
+
+    const groupStorage = {
+      getGroupsByIds: vi.fn(async (ids: string[]) =>
+        ids.map((id) => ({ id, connectionType: types[id] }))
+      ),
+    } as unknown as IGroupStorage;
+
+    return { puzzleStorage, groupStorage, listPuzzles, updatePuzzle };
+  };
+
+  it('should return the plan without publishing on a dry run', async () => {
+    const { puzzleStorage, groupStorage, listPuzzles, updatePuzzle } = createStorages();
+
+    const result = await autoSchedule(puzzleStorage, groupStorage, {
+      today: TODAY,
+      bufferDays: 3,
+      dryRun: true,
+    });
+
+    // Today sits after a director puzzle, so the older director puzzle waits
+    expect(result.assignments.map((a) => [a.date, a.puzzleId])).toEqual([
+      ['2025-03-10', 'newer'],
+      ['2025-03-12', 'older'],
+    ]);
+    expect(result.dryRun).toBe(true);
+    expect(updatePuzzle).not.toHaveBeenCalled();
+    expect(listPuzzles).toHaveBeenCalledWith({
+      status: 'published',
+      dateFrom: '2025-03-09',
+      dateTo: '2025-03-12',
+      limit: 4,
+    });
+  });
+
+  it('should publish each assignment and collect failures', async () => {
+    const { puzzleStorage, groupStorage, updatePuzzle } = createStorages();
+    updatePuzzle.mockRejectedValueOnce(new Error('Invalid puzzle'));
+
+    const result = await autoSchedule(puzzleStorage, groupStorage, {
+      today: TODAY,
+      bufferDays: 3,
+    });
+
+    expect(updatePuzzle).toHaveBeenCalledWith('newer', {
+      status: 'published',
+      puzzleDate: '2025-03-10',
+    });
+    expect(updatePuzzle).toHaveBeenCalledWith('older', {
+      status: 'published',
+      puzzleDate: '2025-03-12',
+    });
+    expect(result.failures).toEqual([
+      { date: '2025-03-10', puzzleId: 'newer', message: 'Invalid puzzle' },
+    ]);
+  });
+
+  it('should consider the oldest approved puzzles beyond the first page', async () => {
+    const { puzzleStorage, groupStorage, listPuzzles } = createStorages();
+    // Newest first, like the storage implementations
+    const approved = Array.from({ length: 250 }, (_, i) =>
+      createPuzzle(`approved-${i}`, ['g3'], 'approved', null, 250 - i)
+    );
+    listPuzzles.mockImplementation(async (filters?: PuzzleListFilters) => {
+      if (filters?.status === 'published') {
+        return { puzzles: [], total: 0 };
+      }
+      const offset = filters?.offset ?? 0;
+      return {
+        puzzles: approved.slice(offset, offset + (filters?.limit ?? 50)),
+        total: approved.length,
+      };
+    });
+
+    const result = await autoSchedule(puzzleStorage, groupStorage, {
+      today: TODAY,
+      bufferDays: 1,
+      dryRun: true,
+    });
+
+    expect(result.assignments.map((a) => a.puzzleId)).toEqual(['approved-249']);
+  });
+});
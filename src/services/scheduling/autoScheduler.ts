@@ -0,0 +1,209 @@
+/**
+ * Auto Scheduler
+ *
+ * Keeps a rolling buffer of published puzzles by filling empty upcoming
+ * days with approved puzzles, spreading connection types so the same kind
+ * of connection doesn't come up two days running.
+ */
+
+import type {
+  IGroupStorage,
+  IPuzzleStorage,
+  StoredPuzzle,
+} from '../../lib/supabase/storage';
+import { addDays, buildSchedule } from './calendar';
+
+/**
+ * Default number of upcoming days (including today) to keep published
+ */
+export const DEFAULT_BUFFER_DAYS = 14;
+
+// Approved puzzles fetched per request
+const APPROVED_PAGE_SIZE = 200;
+
+export interface AutoScheduleOptions {
+  bufferDays?: number;
+  today: string;
+  // Return the plan without publishing anything
+  dryRun?: boolean;
+}
+
+/**
+ * An approved puzzle with the connection types of its groups
+ */
+export interface SchedulingCandidate {
+  puzzle: StoredPuzzle;
+  connectionTypes: string[];
+}
+
+/**
+ * A puzzle proposed for an empty day
+ */
+export interface ScheduledAssignment {
+  date: string;
+  puzzleId: string;
+  title: string | null;
+  connectionTypes: string[];
+  // Types shared with a neighbouring day, when no better puzzle was left
+  repeatedConnectionTypes: string[];
+}
+
+export interface ScheduleFailure {
+  date: string;
+  puzzleId: string;
+  message: string;
+}
+
+export interface AutoScheduleResult {
+  dryRun: boolean;
+  assignments: ScheduledAssignment[];
+  // Empty days left over once approved puzzles ran out
+  unfilledDates: string[];
+  failures: ScheduleFailure[];
+}
+
+const sharedTypes = (types: string[], neighbours: (string[] | undefined)[]) =>
+  types.filter((type) => neighbours.some((neighbour) => neighbour?.includes(type)));
+
+/**
+ * Plan which approved puzzle goes on each empty day.
+ * Days are filled in order; each takes the oldest candidate sharing no
+ * connection type with the day before or after, or failing that the one
+ * sharing the fewest.
+ *
+ * @param gaps - Empty dates to fill, in order (YYYY-MM-DD)
+ * @param candidates - Approved puzzles, oldest first
+ * @param scheduledTypes - Connection types of puzzles already on the calendar, by date
+ */
+export function planAutoSchedule(
+  gaps: string[],
+  candidates: SchedulingCandidate[],
+  scheduledTypes: Map<string, string[]>
+): Pick<AutoScheduleResult, 'assignments' | 'unfilledDates'> {
+  const typesByDate = new Map(scheduledTypes);
+  const remaining = [...candidates];
+  const assignments: ScheduledAssignment[] = [];
+  const unfilledDates: string[] = [];
+
+  for (const date of gaps) {
+    if (remaining.length === 0) {
+      unfilledDates.push(date);
+      continue;
+    }
+
+    const neighbours = [typesByDate.get(addDays(date, -1)), typesByDate.get(addDays(date, 1))];
+    let bestIndex = 0;
+    let bestShared = sharedTypes(remaining[0].connectionTypes, neighbours);
+
+    for (let index = 1; index < remaining.length && bestShared.length > 0; index++) {
+      const shared = sharedTypes(remaining[index].connectionTypes, neighbours);
+      if (shared.length < bestShared.length) {
+        bestIndex = index;
+        bestShared = shared;
+      }
+    }
+
+    const [chosen] = remaining.splice(bestIndex, 1);
+    typesByDate.set(date, chosen.connectionTypes);
+    assignments.push({
+      date,
+      puzzleId: chosen.puzzle.id,
+      title: chosen.puzzle.title,
+      connectionTypes: chosen.connectionTypes,
+      repeatedConnectionTypes: bestShared,
+    });
+  }
+
+  return { assignments, unfilledDates };
+}
+
+/**
+ * Fetch every approved puzzle, a page at a time
+ */
+async function listApprovedPuzzles(storage: IPuzzleStorage): Promise<StoredPuzzle[]> {
+  const puzzles: StoredPuzzle[] = [];
+
+  for (;;) {
+    const page = await storage.listPuzzles({
+      status: 'approved',
+      limit: APPROVED_PAGE_SIZE,
+      offset: puzzles.length,
+    });
+    puzzles.push(...page.puzzles);
+
+    if (page.puzzles.length === 0 || puzzles.length >= page.total) {
+      return puzzles;
+    }
+  }
+}
+
+/**
+ * Fill empty days in the upcoming buffer with approved puzzles and publish them.
+ * With `dryRun` the plan is returned without any updates.
+ */
+export async function autoSchedule(
+  puzzleStorage: IPuzzleStorage,
+  groupStorage: IGroupStorage,
+  { bufferDays = DEFAULT_BUFFER_DAYS, today, dryRun = false }: AutoScheduleOptions
+): Promise<AutoScheduleResult> {
+  // Start a day early so the first gap can be compared against yesterday
+  const startDate = addDays(today, -1);
+  const endDate = addDays(today, bufferDays - 1);
+
+  const [published, approved] = await Promise.all([
+    puzzleStorage.listPuzzles({
+      status: 'published',
+      dateFrom: startDate,
+      dateTo: endDate,
+      limit: bufferDays + 1,
+    }),
+    listApprovedPuzzles(puzzleStorage),
+  ]);
+
+  const groupIds = [
+    ...new Set([...published.puzzles, ...approved].flatMap((p) => p.groupIds)),
+  ];
+  const groups = await groupStorage.getGroupsByIds(groupIds);
+  const typeByGroup = new Map(groups.map((group) => [group.id, group.connectionType]));
+  const connectionTypesOf = (puzzle: StoredPuzzle) => [
+    ...new Set(
+      puzzle.groupIds
+        .map((id) => typeByGroup.get(id))
+        .filter((type): type is string => Boolean(type))
+    ),
+  ];
+
+  const schedule = buildSchedule(published.puzzles, startDate, bufferDays + 1, today);
+  const gaps = schedule.filter((day) => day.isGap).map((day) => day.date);
+  const scheduledTypes = new Map(
+    schedule
+      .filter((day) => day.puzzle)
+      .map((day) => [day.date, connectionTypesOf(day.puzzle as StoredPuzzle)])
+  );
+
+  const candidates = [...approved]
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((puzzle) => ({ puzzle, connectionTypes: connectionTypesOf(puzzle) }));
+
+  const plan = planAutoSchedule(gaps, candidates, scheduledTypes);
+  const failures: ScheduleFailure[] = [];
+
+  if (!dryRun) {
+    for (const assignment of plan.assignments) {
+      try {
+        await puzzleStorage.updatePuzzle(assignment.puzzleId, {
+          status: 'published',
+          puzzleDate: assignment.date,
+        });
+      } catch (error) {
+        failures.push({
+          date: assignment.date,
+          puzzleId: assignment.puzzleId,
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return { dryRun, ...plan, failures };
+}
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  addDays,
+  applySchedule,
+  buildSchedule,
+  isPuzzleLocked,
+  planAssignment,
+  planSwap,
+} from './calendar';
+import { LocalPuzzleStorage } from '../LocalPuzzleStorage';
+import { LocalGroupStorage } from '../LocalGroupStorage';
+import type { PuzzleStatus, StoredPuzzle } from '../../lib/supabase/storage';
+
+const TODAY = '2025-03-10';
+
+const createPuzzle = (
+  id: string,
+  puzzleDate: string | null,
+  status: PuzzleStatus = 'published'
+): StoredPuzzle => ({
+  id,
+  createdAt: 0,
+  puzzleDate,
+  title: null,
+  groupIds: [],
+  status,
+});
+
+describe('addDays', () => {
+  it('should cross month and year boundaries', () => {
+    expect(addDays('2025-01-31', 1)).toBe('2025-02-01');
+    expect(addDays('2025-12-31', 1)).toBe('2026-01-01');
+    expect(addDays('2025-03-01', -1)).toBe('2025-02-28');
+  });
+});
+
+describe('isPuzzleLocked', () => {
+  it('should lock published puzzles from their date onwards', () => {
+    expect(isPuzzleLocked(createPuzzle('a', '2025-03-09'), TODAY)).toBe(true);
+    expect(isPuzzleLocked(createPuzzle('a', TODAY), TODAY)).toBe(true);
+    expect(isPuzzleLocked(createPuzzle('a', '2025-03-11'), TODAY)).toBe(false);
+  });
+
+  it('should not lock unpublished puzzles', () => {
+    expect(isPuzzleLocked(createPuzzle('a', '2025-03-09', 'approved'), TODAY)).toBe(false);
+  });
+});
+
+describe('buildSchedule', () => {
+  it('should place published puzzles on their days and mark gaps', () => {
+    const puzzles = [createPuzzle('a', '2025-03-09'), createPuzzle('b', '2025-03-11')];
+
+    const days = buildSchedule(puzzles, '2025-03-08', 5, TODAY);
+
+    expect(days.map((day) => day.date)).toEqual([
+      '2025-03-08',
+      '2025-03-09',
+      '2025-03-10',
+      '2025-03-11',
+      '2025-03-12',
+    ]);
+    expect(days.map((day) => day.puzzle?.id ?? null)).toEqual([null, 'a', null, 'b', null]);
+    expect(days.map((day) => day.isGap)).toEqual([false, false, true, false, true]);
+    expect(days.map((day) => day.isLocked)).toEqual([true, true, false, false, false]);
+  });
+
+  it('should ignore puzzles that are not published', () => {
+    const days = buildSchedule([createPuzzle('a', TODAY, 'approved')], TODAY, 1, TODAY);
+
+    expect(days[0].puzzle).toBeNull();
+    expect(days[0].isGap).toBe(true);
+  });
+});
+
+describe('planAssignment', () => {
+  it('should publish an approved puzzle on a gap', () => {
+    const [day] = buildSchedule([], '2025-03-12', 1, TODAY);
+
+    expect(planAssignment(createPuzzle('a', null, 'approved'), day)).toEqual([
+      { id: 'a', updates: { status: 'published', puzzleDate: '2025-03-12' } },
+    ]);
+  });
+
+  it('should reject taken days and unapproved puzzles', () => {
+    const [taken] = buildSchedule([createPuzzle('b', '2025-03-12')], '2025-03-12', 1, TODAY);
+    const [gap] = buildSchedule([], '2025-03-12', 1, TODAY);
+
+    expect(() => planAssignment(createPuzzle('a', null, 'approved'), taken)).toThrow(
+      'not available'
+    );
+    expect(() => planAssignment(createPuzzle('a', null, 'pending'), gap)).toThrow(
+      'Only approved puzzles'
+    );
+  });
+});
+
+describe('planSwap', () => {
+  const puzzles = [
+    createPuzzle('past', TODAY),
+    createPuzzle('a', '2025-03-11'),
+    createPuzzle('b', '2025-03-12'),
+  ];
+  const [today, first, second, empty] = buildSchedule(puzzles, TODAY, 4, TODAY);
+
+  it('should swap two puzzles in a single step', () => {
+    expect(planSwap(first, second)).toEqual([{ firstId: 'a', secondId: 'b' }]);
+  });
+
+  it('should move a puzzle to an empty day in either direction', () => {
+    const move = [{ id: 'a', updates: { puzzleDate: '2025-03-13' } }];
+
+    expect(planSwap(first, empty)).toEqual(move);
+    expect(planSwap(empty, first)).toEqual(move);
+  });
+
+  it('should refuse to move locked puzzles', () => {
+    expect(() => planSwap(today, first)).toThrow('Cannot move a published puzzle');
+    expect(() => planSwap(first, today)).toThrow('Cannot move a published puzzle');
+  });
+});
+
+describe('applySchedule', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should swap two published puzzles without leaving either undated', async () => {
+    const storage = new LocalPuzzleStorage(new LocalGroupStorage());
+    const [a] = (await storage.listPuzzles({ status: 'approved' })).puzzles;
+    const b = await storage.savePuzzle({ groupIds: a.groupIds });
+    await storage.updatePuzzle(a.id, { status: 'published', puzzleDate: '2025-06-03' });
+    await storage.updatePuzzle(b.id, { status: 'published', puzzleDate: '2025-06-04' });
+    const { puzzles } = await storage.listPuzzles({ status: 'published' });
+    const [first, second] = buildSchedule(puzzles, '2025-06-03', 2, '2025-06-01');
+
+    await applySchedule(storage, planSwap(first, second));
+
+    expect((await storage.getPuzzle(a.id))?.puzzleDate).toBe('2025-06-04');
+    expect((await storage.getPuzzle(b.id))?.puzzleDate).toBe('2025-06-03');
+  });
+
+  it('should refuse to leave a published puzzle without a date', async () => {
+    const storage = new LocalPuzzleStorage(new LocalGroupStorage());
+    const [a] = (await storage.listPuzzles({ status: 'approved' })).puzzles;
+    await storage.updatePuzzle(a.id, { status: 'published', puzzleDate: '2025-06-03' });
+
+    await expect(
+      applySchedule(storage, [{ id: a.id, updates: { puzzleDate: null } }])
+    ).rejects.toThrow('published puzzles need a date');
+  });
+});
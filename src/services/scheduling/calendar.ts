@@ -0,0 +1,157 @@
+/**
+ * Puzzle Calendar
+ *
+ * Day-by-day view of the published schedule and the updates needed to
+ * assign or swap puzzles between dates.
+ */
+
+import type { IPuzzleStorage, PuzzleUpdate, StoredPuzzle } from '../../lib/supabase/storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * One day in the schedule
+ */
+export interface ScheduleDay {
+  date: string;
+  puzzle: StoredPuzzle | null;
+  // Published puzzles can't be moved on or after their date
+  isLocked: boolean;
+  // Empty upcoming day that still needs a puzzle
+  isGap: boolean;
+}
+
+/**
+ * A single puzzle update, applied in order
+ */
+export interface ScheduleUpdate {
+  id: string;
+  updates: PuzzleUpdate;
+}
+
+/**
+ * Two scheduled puzzles trading dates in one step
+ */
+export interface ScheduleSwap {
+  firstId: string;
+  secondId: string;
+}
+
+/**
+ * One step of a schedule change
+ */
+export type ScheduleStep = ScheduleUpdate | ScheduleSwap;
+
+/**
+ * Add days to a date string (YYYY-MM-DD, UTC)
+ */
+export function addDays(date: string, days: number): string {
+  const next = new Date(new Date(date + 'T00:00:00Z').getTime() + days * DAY_MS);
+  return next.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a published puzzle can no longer be moved from the calendar.
+ * Admins may still edit any puzzle directly; only swap_puzzle_dates
+ * refuses to move a puzzle dated today or earlier.
+ */
+export function isPuzzleLocked(puzzle: StoredPuzzle, today: string): boolean {
+  return (
+    puzzle.status === 'published' &&
+    puzzle.puzzleDate !== null &&
+    puzzle.puzzleDate <= today
+  );
+}
+
+/**
+ * Build the schedule for a range of days from the published puzzles in it
+ *
+ * @param puzzles - Published puzzles (others are ignored)
+ * @param startDate - First day of the range (YYYY-MM-DD)
+ * @param dayCount - Number of days to include
+ * @param today - Today's date (YYYY-MM-DD)
+ */
+export function buildSchedule(
+  puzzles: StoredPuzzle[],
+  startDate: string,
+  dayCount: number,
+  today: string
+): ScheduleDay[] {
+  const byDate = new Map(
+    puzzles
+      .filter((puzzle) => puzzle.status === 'published' && puzzle.puzzleDate)
+      .map((puzzle) => [puzzle.puzzleDate as string, puzzle])
+  );
+
+  return Array.from({ length: dayCount }, (_, index) => {
+    const date = addDays(startDate, index);
+    const puzzle = byDate.get(date) ?? null;
+
+    return {
+      date,
+      puzzle,
+      isLocked: puzzle ? isPuzzleLocked(puzzle, today) : date < today,
+      isGap: !puzzle && date >= today,
+    };
+  });
+}
+
+/**
+ * Updates that publish an approved puzzle on an empty day
+ *
+ * @throws Error if the day is locked, taken, or the puzzle isn't approved
+ */
+export function planAssignment(puzzle: StoredPuzzle, day: ScheduleDay): ScheduleUpdate[] {
+  if (puzzle.status !== 'approved') {
+    throw new Error('Only approved puzzles can be scheduled');
+  }
+  if (!day.isGap) {
+    throw new Error(`${day.date} is not available`);
+  }
+
+  return [{ id: puzzle.id, updates: { status: 'published', puzzleDate: day.date } }];
+}
+
+/**
+ * Steps that swap the puzzles of two days, or move a puzzle to an empty day.
+ * Two puzzles trade dates in a single swap step: clearing one date first
+ * would leave a published puzzle without a date.
+ *
+ * @throws Error if either day is locked or neither has a puzzle
+ */
+export function planSwap(from: ScheduleDay, to: ScheduleDay): ScheduleStep[] {
+  if (from.isLocked || to.isLocked) {
+    throw new Error('Cannot move a published puzzle on or after its scheduled date');
+  }
+  if (from.date === to.date) {
+    return [];
+  }
+
+  if (!from.puzzle && !to.puzzle) {
+    throw new Error('Nothing to swap');
+  }
+  if (!from.puzzle) {
+    return planSwap(to, from);
+  }
+  if (!to.puzzle) {
+    return [{ id: from.puzzle.id, updates: { puzzleDate: to.date } }];
+  }
+
+  return [{ firstId: from.puzzle.id, secondId: to.puzzle.id }];
+}
+
+/**
+ * Apply schedule steps in order
+ *
+ * @param storage - Puzzle storage to update
+ * @param steps - Steps from planAssignment or planSwap
+ */
+export async function applySchedule(storage: IPuzzleStorage, steps: ScheduleStep[]): Promise<void> {
+  for (const step of steps) {
+    if ('updates' in step) {
+      await storage.updatePuzzle(step.id, step.updates);
+    } else {
+      await storage.swapPuzzleDates(step.firstId, step.secondId);
+    }
+  }
+}
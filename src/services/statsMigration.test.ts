@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { migrateLocalStats, hasMigratedLocalStats, markLocalStatsMigrated } from './statsMigration';
+import type { IStatsStorage, GameResult, UserStats } from '../types/stats';
+import type { IPuzzleStorage, SupabaseStatsStorage } from '../lib/supabase/storage';
+
+const game = (date: string, won: boolean, mistakes: number, puzzleId?: string): GameResult => ({
+  date,
+  won,
+  mistakes,
+  completedAt: 0,
+  puzzleId,
+});
+
+const createStats = (gameHistory: GameResult[]): UserStats => ({
+  gamesPlayed: gameHistory.length,
+  gamesWon: gameHistory.filter((g) => g.won).length,
+  winRate: 0,
+  currentStreak: 0,
+  maxStreak: 0,
+  lastPlayedDate: null,
+  gameHistory,
+});
+
+const createLocal = (history: GameResult[]) =>
+  ({ getStats: vi.fn().mockResolvedValue(createStats(history)) }) as unknown as IStatsStorage;
+
+const createRemote = (history: GameResult[]) =>
+  ({
+    getStats: vi.fn().mockResolvedValue(createStats(history)),
+    importGames: vi.fn().mockResolvedValue(undefined),
+    saveStats: vi.fn().mockResolvedValue(undefined),
+  }) as unknown as SupabaseStatsStorage & Record<string, ReturnType<typeof vi.fn>>;
+
+const createPuzzleStorage = (ids: Record<string, string>) =>
+  ({
+    getDailyPuzzle: vi.fn(async (date: string) => (ids[date] ? { id: ids[date] } : null)),
+  }) as unknown as IPuzzleStorage;
+
+describe('migrateLocalStats', () => {
+  it('should do nothing without local history', async () => {
+    const remote = createRemote([]);
+
+    const result = await migrateLocalStats(createLocal([]), remote, createPuzzleStorage({}));
+
+    expect(result).toEqual({ uploaded: [], conflicts: [], unresolved: [] });
+    expect(remote.getStats).not.toHaveBeenCalled();
+  });
+
+  it('should upload only dates the account is missing', async () => {
+    const remote = createRemote([game('2025-01-01', true, 0, 'p1')]);
+    const local = createLocal([game('2025-01-01', true, 0, 'p1'), game('2025-01-02', true, 1, 'p2')]);
+
+    const result = await migrateLocalStats(local, remote, createPuzzleStorage({}));
+
+    expect(result.uploaded.map((g) => g.date)).toEqual(['2025-01-02']);
+    expect(remote.importGames).toHaveBeenCalledWith([game('2025-01-02', true, 1, 'p2')]);
+    expect(remote.saveStats).toHaveBeenCalledWith({
+      gamesPlayed: 2,
+      gamesWon: 2,
+      currentStreak: 2,
+      maxStreak: 2,
+      lastPlayedDate: '2025-01-02',
+    });
+  });
+
+  it('should report conflicting results and keep the account result', async () => {
+    const remote = createRemote([game('2025-01-01', false, 4, 'p1')]);
+    const local = createLocal([game('2025-01-01', true, 2, 'p1')]);
+
+    const result = await migrateLocalStats(local, remote, createPuzzleStorage({}));
+
+    expect(result.conflicts).toEqual([
+      { date: '2025-01-01', local: game('2025-01-01', true, 2, 'p1'), remote: game('2025-01-01', false, 4, 'p1') },
+    ]);
+    expect(remote.importGames).not.toHaveBeenCalled();
+  });
+
+  it('should look up puzzle ids for older results', async () => {
+    const remote = createRemote([]);
+    const local = createLocal([game('2025-01-01', true, 0), game('2025-01-02', true, 0)]);
+
+    const result = await migrateLocalStats(local, remote, createPuzzleStorage({ '2025-01-01': 'p1' }));
+
+    expect(result.uploaded).toEqual([game('2025-01-01', true, 0, 'p1')]);
+    expect(result.unresolved).toEqual([game('2025-01-02', true, 0)]);
+  });
+
+  it('should upload games finished while the merge was running', async () => {
+    const remote = createRemote([]);
+    const local = createLocal([game('2025-01-01', true, 0, 'p1'), game('2025-01-02', false, 4, 'p2')]);
+    // The second game lands in local stats while the first upload is in flight
+    vi.mocked(local.getStats).mockResolvedValueOnce(createStats([game('2025-01-01', true, 0, 'p1')]));
+
+    const result = await migrateLocalStats(local, remote, createPuzzleStorage({}));
+
+    expect(result.uploaded.map((g) => g.date)).toEqual(['2025-01-01', '2025-01-02']);
+    expect(remote.importGames).toHaveBeenNthCalledWith(2, [game('2025-01-02', false, 4, 'p2')]);
+    expect(remote.saveStats).toHaveBeenLastCalledWith(expect.objectContaining({ gamesPlayed: 2 }));
+  });
+});
+
+describe('migration flag', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should be tracked per user', () => {
+    markLocalStatsMigrated('user-1');
+
+    expect(hasMigratedLocalStats('user-1')).toBe(true);
+    expect(hasMigratedLocalStats('user-2')).toBe(false);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Stats Migration
+ *
+ * Merges the anonymous localStorage stats history into a player's account
+ * the first time they sign in on a device.
+ */
+
+import type { IStatsStorage, GameResult } from '../types/stats';
+import type { IPuzzleStorage, SupabaseStatsStorage } from '../lib/supabase/storage';
+import { computeStreaks } from '../utils/stats';
+
+const MIGRATED_KEY_PREFIX = 'filmclues-stats-migrated:';
+
+/**
+ * A date played both locally and on the account with different results.
+ * The account's result is kept.
+ */
+export interface StatsConflict {
+  date: string;
+  local: GameResult;
+  remote: GameResult;
+}
+
+/**
+ * Outcome of merging local stats into an account
+ */
+export interface StatsMigrationResult {
+  /** Local games uploaded to the account */
+  uploaded: GameResult[];
+  /** Dates played in both places with different results */
+  conflicts: StatsConflict[];
+  /** Local games whose puzzle could not be found, so were not uploaded */
+  unresolved: GameResult[];
+}
+
+/**
+ * Whether local stats have already been merged into this account on this device
+ */
+export function hasMigratedLocalStats(userId: string): boolean {
+  try {
+    return localStorage.getItem(`${MIGRATED_KEY_PREFIX}${userId}`) !== null;
+  } catch (error) {
+    console.error('Failed to read stats migration flag:', error);
+    return false;
+  }
+}
+
+/**
+ * Remember that local stats were merged into this account on this device
+ */
+export function markLocalStatsMigrated(userId: string): void {
+  try {
+    localStorage.setItem(`${MIGRATED_KEY_PREFIX}${userId}`, String(Date.now()));
+  } catch (error) {
+    console.error('Failed to save stats migration flag:', error);
+  }
+}
+
+/**
+ * Upload local games the account doesn't have yet and recompute streaks.
+ *
+ * Games are matched by puzzle date. A date on both sides with a different
+ * result is reported as a conflict and the account's result is kept.
+ * Local history is read again after each upload, so games finished while
+ * the merge runs are uploaded too.
+ *
+ * @param local - Anonymous stats storage
+ * @param remote - Stats storage of the signed-in player
+ * @param puzzleStorage - Used to look up puzzle ids for older local results
+ */
+export async function migrateLocalStats(
+  local: IStatsStorage,
+  remote: SupabaseStatsStorage,
+  puzzleStorage: IPuzzleStorage
+): Promise<StatsMigrationResult> {
+  const result: StatsMigrationResult = { uploaded: [], conflicts: [], unresolved: [] };
+
+  const checkedDates = new Set<string>();
+  let remoteHistory: GameResult[] | null = null;
+
+  for (;;) {
+    const { gameHistory: localHistory } = await local.getStats();
+    const unchecked = localHistory.filter((game) => !checkedDates.has(game.date));
+    if (unchecked.length === 0) {
+      return result;
+    }
+
+    remoteHistory ??= (await remote.getStats()).gameHistory;
+    const remoteByDate = new Map(remoteHistory.map((game) => [game.date, game]));
+    const uploads: GameResult[] = [];
+
+    for (const game of unchecked) {
+      checkedDates.add(game.date);
+      const remoteGame = remoteByDate.get(game.date);
+
+      if (remoteGame) {
+        if (remoteGame.won !== game.won || remoteGame.mistakes !== game.mistakes) {
+          result.conflicts.push({ date: game.date, local: game, remote: remoteGame });
+        }
+        continue;
+      }
+
+      // Results recorded before puzzle ids were stored need a lookup
+      const puzzleId = game.puzzleId ?? (await puzzleStorage.getDailyPuzzle(game.date))?.id;
+      if (!puzzleId) {
+        result.unresolved.push(game);
+        continue;
+      }
+
+      uploads.push({ ...game, puzzleId });
+    }
+
+    if (uploads.length === 0) {
+      continue;
+    }
+
+    await remote.importGames(uploads);
+    result.uploaded.push(...uploads);
+
+    remoteHistory = [...remoteHistory, ...uploads];
+    await remote.saveStats({
+      gamesPlayed: remoteHistory.length,
+      gamesWon: remoteHistory.filter((game) => game.won).length,
+      ...computeStreaks(remoteHistory),
+    });
+  }
+}
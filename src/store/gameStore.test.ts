@@ -0,0 +1,173 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { useGameStore } from './gameStore';
+import type { Film, GameResult, Group, GuessRecord } from '../types';
+
+const films: Film[] = Array.from({ length: 16 }, (_, i) => ({
+  id: i + 1,
+  title: `Film ${i + 1}`,
+  year: 2000,
+}));
+
+const groups: Group[] = [
+  { id: 'g1', films: films.slice(0, 4), connection: 'One', difficulty: 'easy', color: 'yellow' },
+  { id: 'g2', films: films.slice(4, 8), connection: 'Two', difficulty: 'medium', color: 'green' },
+  { id: 'g3', films: films.slice(8, 12), connection: 'Three', difficulty: 'hard', color: 'blue' },
+  { id: 'g4', films: films.slice(12, 16), connection: 'Four', difficulty: 'hardest', color: 'purple' },
+];
+
+const correct = (group: Group): GuessRecord => ({
+  filmIds: group.films.map((f) => f.id),
+  correct: true,
+  groupId: group.id,
+});
+
+const wrong = (filmIds: number[]): GuessRecord => ({
+  filmIds,
+  correct: false,
+  groupId: null,
+});
+
+const createResult = (won: boolean, mistakes: number, guesses?: GuessRecord[]): GameResult => ({
+  date: '2025-06-01',
+  won,
+  mistakes,
+  completedAt: 0,
+  guesses,
+});
+
+describe('gameStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    useGameStore.getState().resetGame();
+  });
+
+  describe('restoreCompletedGame', () => {
+    it('should rebuild solved groups in the order they were found', () => {
+      const guesses = [
+        correct(groups[2]),
+        wrong([1, 2, 3, 5]),
+        correct(groups[0]),
+        correct(groups[3]),
+        correct(groups[1]),
+      ];
+
+      useGameStore.getState().restoreCompletedGame(groups, createResult(true, 1, guesses));
+
+      const state = useGameStore.getState();
+      expect(state.foundGroups.map((g) => g.id)).toEqual(['g3', 'g1', 'g4', 'g2']);
+      expect(state.revealedGroupIds).toEqual([]);
+      expect(state.previousGuesses).toEqual(guesses.map((g) => g.filmIds));
+      expect(state.gameStatus).toBe('won');
+      expect(state.puzzleDate).toBe('2025-06-01');
+    });
+
+    it('should mark unsolved groups as revealed on a loss', () => {
+      const guesses = [
+        correct(groups[1]),
+        wrong([1, 2, 3, 9]),
+        wrong([1, 2, 3, 10]),
+        wrong([1, 2, 3, 11]),
+        wrong([1, 2, 3, 12]),
+      ];
+
+      useGameStore.getState().restoreCompletedGame(groups, createResult(false, 4, guesses));
+
+      const state = useGameStore.getState();
+      expect(state.foundGroups.map((g) => g.id)).toEqual(['g2', 'g1', 'g3', 'g4']);
+      expect(state.revealedGroupIds).toEqual(['g1', 'g3', 'g4']);
+      expect(state.gameStatus).toBe('lost');
+    });
+
+    it('should reveal every group as found when no history is stored', () => {
+      useGameStore.getState().restoreCompletedGame(groups, createResult(false, 4));
+
+      const state = useGameStore.getState();
+      expect(state.foundGroups).toEqual(groups);
+      expect(state.previousGuesses).toEqual([]);
+    });
+  });
+
+  describe('submitGuess', () => {
+    const guess = (filmIds: number[]) => {
+      useGameStore.getState().deselectAll();
+      filmIds.forEach((id) => useGameStore.getState().selectFilm(id));
+      useGameStore.getState().submitGuess();
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.setSystemTime(new Date('2025-06-01T12:00:00Z'));
+      useGameStore.getState().initializeGame(films, groups, '2025-06-01', 'archive');
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should log each guess with its outcome and time', () => {
+      guess([4, 2, 3, 5]);
+      vi.advanceTimersByTime(5000);
+      guess([1, 2, 3, 4]);
+
+      expect(useGameStore.getState().guessLog).toEqual([
+        {
+          filmIds: [2, 3, 4, 5],
+          correct: false,
+          groupId: null,
+          oneAway: true,
+          guessedAt: Date.parse('2025-06-01T12:00:00Z'),
+        },
+        {
+          filmIds: [1, 2, 3, 4],
+          correct: true,
+          groupId: 'g1',
+          oneAway: false,
+          guessedAt: Date.parse('2025-06-01T12:00:05Z'),
+        },
+      ]);
+    });
+
+    it('should not log a repeated guess', () => {
+      guess([1, 5, 9, 13]);
+      guess([13, 9, 5, 1]);
+
+      expect(useGameStore.getState().guessLog).toHaveLength(1);
+    });
+
+    it('should clear the log when a new game starts', () => {
+      guess([1, 5, 9, 13]);
+      useGameStore.getState().initializeGame(films, groups, '2025-06-02', 'archive');
+
+      expect(useGameStore.getState().guessLog).toEqual([]);
+    });
+
+    it('should stop the clock when the game is won', () => {
+      vi.advanceTimersByTime(30000);
+      groups.forEach((group) => guess(group.films.map((f) => f.id)));
+      vi.advanceTimersByTime(60000);
+
+      const state = useGameStore.getState();
+      expect(state.gameStatus).toBe('won');
+      expect(state.elapsedMs).toBe(30000);
+      expect(state.activeSince).toBeNull();
+    });
+
+    it('should not count time while the timer is paused', () => {
+      vi.advanceTimersByTime(10000);
+      useGameStore.getState().pauseTimer();
+      vi.advanceTimersByTime(120000);
+      useGameStore.getState().resumeTimer();
+      vi.advanceTimersByTime(5000);
+      groups.forEach((group) => guess(group.films.map((f) => f.id)));
+
+      expect(useGameStore.getState().elapsedMs).toBe(15000);
+    });
+
+    it('should not resume the timer after the game is over', () => {
+      groups.forEach((group) => guess(group.films.map((f) => f.id)));
+      useGameStore.getState().resumeTimer();
+
+      expect(useGameStore.getState().activeSince).toBeNull();
+    });
+  });
+});
@@ -1,17 +1,28 @@
 import { create } from 'zustand';
-import type { GameState, Group, Film } from '../types';
+import type { GameState, GameMode, GameResult, Group, Film, GuessRecord } from '../types';
 import { shuffleArray } from '../utils';
+import {
+  findMatchingGroup,
+  findOneAwayGroup,
+  sortFilmIds,
+  toGuessRecords,
+} from '../utils/guesses';
+import { getPlayTimeMs } from '../utils/playTime';
 import { trackEvent, EVENTS } from '../services/analytics';
+import { saveGameProgress, loadGameProgress, clearGameProgress } from '../services/gameProgress';
 
 interface GameActions {
   selectFilm: (filmId: number) => void;
   deselectAll: () => void;
   submitGuess: () => void;
   shuffleFilms: () => void;
-  initializeGame: (films: Film[], groups: Group[], puzzleDate: string) => void;
-  restoreCompletedGame: (groups: Group[], won: boolean, mistakes: number) => void;
+  initializeGame: (films: Film[], groups: Group[], puzzleDate: string, mode?: GameMode) => void;
+  resumeGame: (films: Film[], groups: Group[], puzzleDate: string) => boolean;
+  restoreCompletedGame: (groups: Group[], result: GameResult, mode?: GameMode) => void;
   resetGame: () => void;
   clearNotification: () => void;
+  pauseTimer: () => void;
+  resumeTimer: () => void;
 }
 
 type GameStore = GameState & GameActions;
@@ -19,6 +30,14 @@ type GameStore = GameState & GameActions;
 const MAX_MISTAKES = 4;
 const MAX_SELECTIONS = 4;
 
+/**
+ * Start of active play, or null if the tab is hidden and play time
+ * should wait for it to become visible.
+ */
+function startTimer(): number | null {
+  return document.visibilityState === 'hidden' ? null : Date.now();
+}
+
 export const useGameStore = create<GameStore>((set, get) => ({
   // Initial state
   films: [],
@@ -26,12 +45,17 @@ export const useGameStore = create<GameStore>((set, get) => ({
   selectedFilmIds: [],
   foundGroups: [],
   previousGuesses: [],
+  guessLog: [],
+  revealedGroupIds: [],
   mistakes: 0,
   gameStatus: 'playing',
   isLoading: false,
   notification: null,
   isShaking: false,
   puzzleDate: null,
+  mode: 'daily',
+  elapsedMs: 0,
+  activeSince: null,
 
   // Actions
   selectFilm: (filmId: number) => {
@@ -48,10 +72,13 @@ export const useGameStore = create<GameStore>((set, get) => ({
       if (selectedFilmIds.length >= MAX_SELECTIONS) return;
       set({ selectedFilmIds: [...selectedFilmIds, filmId] });
     }
+
+    saveGameProgress(get());
   },
 
   deselectAll: () => {
     set({ selectedFilmIds: [] });
+    saveGameProgress(get());
   },
 
   submitGuess: () => {
@@ -60,6 +87,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
       groups,
       foundGroups,
       previousGuesses,
+      guessLog,
       mistakes,
       films,
     } = get();
@@ -68,7 +96,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
     if (selectedFilmIds.length !== MAX_SELECTIONS) return;
 
     // Sort for comparison
-    const sortedGuess = [...selectedFilmIds].sort((a, b) => a - b);
+    const sortedGuess = sortFilmIds(selectedFilmIds);
 
     // Check if this exact combination was tried before
     const isDuplicate = previousGuesses.some(
@@ -84,34 +112,26 @@ export const useGameStore = create<GameStore>((set, get) => ({
     }
 
     // Check if guess matches any group
-    const matchedGroup = groups.find((group) => {
-      const groupFilmIds = group.films.map((f) => f.id).sort((a, b) => a - b);
-      return (
-        groupFilmIds.length === sortedGuess.length &&
-        groupFilmIds.every((id, index) => id === sortedGuess[index])
-      );
-    });
+    const matchedGroup = findMatchingGroup(sortedGuess, groups);
 
     // Check if user is "one away" (3 out of 4 correct)
-    if (!matchedGroup) {
-      const oneAwayGroup = groups.find((group) => {
-        const groupFilmIds = group.films.map((f) => f.id);
-        const matches = sortedGuess.filter((id) => groupFilmIds.includes(id));
-        return matches.length === 3;
-      });
+    const wasOneAway = !matchedGroup && !!findOneAwayGroup(sortedGuess, groups);
 
-      if (oneAwayGroup) {
-        set({ notification: 'One away!' });
-        setTimeout(() => set({ notification: null }), 2000);
-      }
+    if (wasOneAway) {
+      set({ notification: 'One away!' });
+      setTimeout(() => set({ notification: null }), 2000);
     }
 
     const { puzzleDate } = get();
-    const wasOneAway = !matchedGroup && groups.some((group) => {
-      const groupFilmIds = group.films.map((f) => f.id);
-      const matchCount = sortedGuess.filter((id) => groupFilmIds.includes(id)).length;
-      return matchCount === 3;
-    });
+
+    // Log the guess for completion records and editor reports
+    const guessRecord: GuessRecord = {
+      filmIds: sortedGuess,
+      correct: !!matchedGroup,
+      groupId: matchedGroup?.id ?? null,
+      oneAway: wasOneAway,
+      guessedAt: Date.now(),
+    };
 
     if (matchedGroup) {
       // Correct guess!
@@ -127,8 +147,12 @@ export const useGameStore = create<GameStore>((set, get) => ({
         films: remainingFilms,
         selectedFilmIds: [],
         previousGuesses: [...previousGuesses, sortedGuess],
+        guessLog: [...guessLog, guessRecord],
         gameStatus: isGameWon ? 'won' : 'playing',
+        // Stop the clock on the final guess
+        ...(isGameWon && { elapsedMs: getPlayTimeMs(get()), activeSince: null }),
       });
+      saveGameProgress(get());
 
       // Track events
       trackEvent(EVENTS.GUESS_SUBMITTED, {
@@ -157,15 +181,23 @@ export const useGameStore = create<GameStore>((set, get) => ({
       const newMistakes = mistakes + 1;
       const isGameLost = newMistakes >= MAX_MISTAKES;
 
+      // Reveal the remaining groups after the solved ones when game is lost
+      const unsolvedGroups = groups.filter(
+        (group) => !foundGroups.some((found) => found.id === group.id)
+      );
+
       set({
         mistakes: newMistakes,
         previousGuesses: [...previousGuesses, sortedGuess],
+        guessLog: [...guessLog, guessRecord],
         gameStatus: isGameLost ? 'lost' : 'playing',
-        // Reveal all groups when game is lost
-        foundGroups: isGameLost ? groups : foundGroups,
+        foundGroups: isGameLost ? [...foundGroups, ...unsolvedGroups] : foundGroups,
+        revealedGroupIds: isGameLost ? unsolvedGroups.map((group) => group.id) : [],
         films: isGameLost ? [] : films,
         isShaking: true,
+        ...(isGameLost && { elapsedMs: getPlayTimeMs(get()), activeSince: null }),
       });
+      saveGameProgress(get());
 
       // Track events
       trackEvent(EVENTS.GUESS_SUBMITTED, {
@@ -191,6 +223,7 @@ export const useGameStore = create<GameStore>((set, get) => ({
   shuffleFilms: () => {
     const { films, puzzleDate } = get();
     set({ films: shuffleArray(films) });
+    saveGameProgress(get());
     trackEvent(EVENTS.FILMS_SHUFFLED, { puzzleDate });
   },
 
@@ -201,41 +234,134 @@ export const useGameStore = create<GameStore>((set, get) => ({
    * @param films - Shuffled array of films
    * @param groups - Array of groups
    * @param puzzleDate - Date of puzzle in YYYY-MM-DD format
+   * @param mode - Whether this is today's puzzle, an archive puzzle or a fallback
    */
-  initializeGame: (films: Film[], groups: Group[], puzzleDate: string) => {
+  initializeGame: (
+    films: Film[],
+    groups: Group[],
+    puzzleDate: string,
+    mode: GameMode = 'daily'
+  ) => {
     set({
       films: shuffleArray(films),
       groups,
       selectedFilmIds: [],
       foundGroups: [],
       previousGuesses: [],
+      guessLog: [],
+      revealedGroupIds: [],
       mistakes: 0,
       gameStatus: 'playing',
       isLoading: false,
       puzzleDate,
+      mode,
+      elapsedMs: 0,
+      activeSince: startTimer(),
     });
   },
 
   /**
-   * Restore a completed game state (for users who already played today).
+   * Resume an in-progress game from the snapshot saved for this puzzle date.
+   * Snapshots that don't match the puzzle's films or groups are discarded.
+   *
+   * @param films - Array of films from the puzzle
+   * @param groups - Array of groups from the puzzle
+   * @param puzzleDate - Date of puzzle in YYYY-MM-DD format
+   * @returns True if a saved game was restored
+   */
+  resumeGame: (films: Film[], groups: Group[], puzzleDate: string) => {
+    const snapshot = loadGameProgress(puzzleDate);
+    if (!snapshot) return false;
+
+    const filmMap = new Map(films.map((film) => [film.id, film]));
+    const groupMap = new Map(groups.map((group) => [group.id, group]));
+    const remainingFilms = snapshot.filmIds.map((id) => filmMap.get(id));
+    const foundGroups = snapshot.foundGroupIds.map((id) => groupMap.get(id));
+
+    // Puzzle changed since the snapshot was taken
+    if (
+      remainingFilms.some((film) => film === undefined) ||
+      foundGroups.some((group) => group === undefined)
+    ) {
+      clearGameProgress();
+      return false;
+    }
+
+    // Groups revealed on loss are the found groups no guess matched
+    const revealedGroupIds = (foundGroups as Group[])
+      .filter(
+        (group) =>
+          !snapshot.previousGuesses.some(
+            (guess) => findMatchingGroup(guess, [group]) !== undefined
+          )
+      )
+      .map((group) => group.id);
+
+    set({
+      films: remainingFilms as Film[],
+      groups,
+      selectedFilmIds: snapshot.selectedFilmIds.filter((id) => filmMap.has(id)),
+      foundGroups: foundGroups as Group[],
+      previousGuesses: snapshot.previousGuesses,
+      // Snapshots saved before the guess log existed only have film ids
+      guessLog: snapshot.guessLog ?? toGuessRecords(snapshot.previousGuesses, groups),
+      revealedGroupIds,
+      mistakes: snapshot.mistakes,
+      gameStatus: snapshot.gameStatus,
+      isLoading: false,
+      notification: null,
+      isShaking: false,
+      puzzleDate,
+      mode: 'daily',
+      // Time spent while the page was closed doesn't count
+      elapsedMs: snapshot.elapsedMs ?? 0,
+      activeSince: snapshot.gameStatus === 'playing' ? startTimer() : null,
+    });
+
+    return true;
+  },
+
+  /**
+   * Restore a completed game state (for users who already played the puzzle).
    * Shows the final state without allowing replay.
    *
+   * When the guess history is available the board is rebuilt exactly:
+   * groups appear in the order they were solved, followed by the groups
+   * auto-revealed on a loss. Older results without history reveal all groups.
+   *
    * @param groups - Array of groups from the puzzle
-   * @param won - Whether user won
-   * @param mistakes - Number of mistakes made
+   * @param result - Recorded result of the game
+   * @param mode - Whether this is today's puzzle, an archive puzzle or a fallback
    */
-  restoreCompletedGame: (groups: Group[], won: boolean, mistakes: number) => {
+  restoreCompletedGame: (groups: Group[], result: GameResult, mode: GameMode = 'daily') => {
+    const { guesses } = result;
+    const solvedGroups = guesses
+      ? guesses
+          .filter((guess) => guess.correct)
+          .map((guess) => groups.find((group) => group.id === guess.groupId))
+          .filter((group): group is Group => group !== undefined)
+      : groups;
+    const revealedGroups = groups.filter(
+      (group) => !solvedGroups.some((solved) => solved.id === group.id)
+    );
+
     set({
       films: [],
       groups,
       selectedFilmIds: [],
-      foundGroups: groups,
-      previousGuesses: [],
-      mistakes,
-      gameStatus: won ? 'won' : 'lost',
+      foundGroups: [...solvedGroups, ...revealedGroups],
+      previousGuesses: guesses ? guesses.map((guess) => guess.filmIds) : [],
+      guessLog: guesses ?? [],
+      revealedGroupIds: revealedGroups.map((group) => group.id),
+      mistakes: result.mistakes,
+      gameStatus: result.won ? 'won' : 'lost',
       isLoading: false,
       notification: null,
       isShaking: false,
+      puzzleDate: result.date,
+      mode,
+      elapsedMs: (result.timeTakenSeconds ?? 0) * 1000,
+      activeSince: null,
     });
   },
 
@@ -246,16 +372,42 @@ export const useGameStore = create<GameStore>((set, get) => ({
       selectedFilmIds: [],
       foundGroups: [],
       previousGuesses: [],
+      guessLog: [],
+      revealedGroupIds: [],
       mistakes: 0,
       gameStatus: 'playing',
       isLoading: false,
       notification: null,
       isShaking: false,
       puzzleDate: null,
+      mode: 'daily',
+      elapsedMs: 0,
+      activeSince: null,
     });
   },
 
   clearNotification: () => {
     set({ notification: null });
   },
+
+  /**
+   * Stop counting play time, e.g. while the tab is hidden.
+   */
+  pauseTimer: () => {
+    const state = get();
+    if (state.activeSince === null) return;
+
+    set({ elapsedMs: getPlayTimeMs(state), activeSince: null });
+    saveGameProgress(get());
+  },
+
+  /**
+   * Continue counting play time for a game still in progress.
+   */
+  resumeTimer: () => {
+    const { activeSince, gameStatus, puzzleDate } = get();
+    if (activeSince !== null || gameStatus !== 'playing' || !puzzleDate) return;
+
+    set({ activeSince: Date.now() });
+  },
 }));
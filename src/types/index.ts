@@ -1,3 +1,5 @@
+import type { GuessRecord } from './stats';
+
 export interface Film {
   id: number;
   title: string;
@@ -19,18 +21,31 @@ export interface Group {
   color: DifficultyColor;
 }
 
+/**
+ * How the current puzzle is being played:
+ * - daily: today's puzzle, counts towards stats and streaks
+ * - archive: a past puzzle, recorded separately
+ * - fallback: a past puzzle standing in for a missing daily puzzle, recorded like archive
+ */
+export type GameMode = 'daily' | 'archive' | 'fallback';
+
 export interface GameState {
   films: Film[];
   groups: Group[];
   selectedFilmIds: number[];
   foundGroups: Group[];
   previousGuesses: number[][]; // Track attempted combinations
+  guessLog: GuessRecord[]; // Every guess with its outcome, in the order made
+  revealedGroupIds: string[]; // Groups shown automatically after a loss
   mistakes: number;
   gameStatus: 'playing' | 'won' | 'lost';
   isLoading: boolean;
   notification: string | null; // For "One away!" and other messages
   isShaking: boolean; // Trigger shake animation on wrong guess
   puzzleDate: string | null; // YYYY-MM-DD format of current puzzle
+  mode: GameMode;
+  elapsedMs: number; // Active play time before the current stretch
+  activeSince: number | null; // Start of the current stretch, null while paused or over
 }
 
 export type GroupingStrategy =
@@ -100,4 +115,10 @@ export interface SavedPuzzle {
 }
 
 // Re-export stats types
-export type { GameResult, UserStats, IStatsStorage } from './stats';
+export type {
+  GameResult,
+  GuessRecord,
+  UserStats,
+  IStatsStorage,
+  IArchiveStorage,
+} from './stats';
@@ -4,6 +4,22 @@
  * Type definitions for user stats and game results.
  */
 
+/**
+ * A single guess made during a game
+ */
+export interface GuessRecord {
+  /** Film ids of the guess, sorted ascending */
+  filmIds: number[];
+  /** Whether the guess matched a group */
+  correct: boolean;
+  /** Id of the matched group, or null for a wrong guess */
+  groupId: string | null;
+  /** Whether a wrong guess had three films of one group (missing for older results) */
+  oneAway?: boolean;
+  /** Timestamp when the guess was submitted (missing for older results) */
+  guessedAt?: number;
+}
+
 /**
  * Result of a completed game
  */
@@ -16,6 +32,12 @@ export interface GameResult {
   mistakes: number;
   /** Timestamp when game was completed */
   completedAt: number;
+  /** Id of the puzzle played (missing for older results) */
+  puzzleId?: string;
+  /** Ordered guesses made during the game (missing for older results) */
+  guesses?: GuessRecord[];
+  /** Active play time in seconds, excluding time the tab was hidden (missing for older results) */
+  timeTakenSeconds?: number;
 }
 
 /**
@@ -57,3 +79,19 @@ export interface IStatsStorage {
    */
   resetStats(): Promise<void>;
 }
+
+/**
+ * Interface for archive game storage.
+ * Archive games are kept apart from daily stats so they never affect streaks.
+ */
+export interface IArchiveStorage {
+  /**
+   * Get results of all archive puzzles played
+   */
+  getArchiveHistory(): Promise<GameResult[]>;
+
+  /**
+   * Record a completed archive game
+   */
+  recordArchiveCompletion(result: GameResult): Promise<GameResult[]>;
+}
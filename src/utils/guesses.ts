@@ -0,0 +1,70 @@
+import type { Group, GuessRecord } from '../types';
+
+/**
+ * Guess Utilities
+ *
+ * Helpers for comparing guesses against puzzle groups.
+ */
+
+/**
+ * Sort film ids ascending so guesses can be compared by position.
+ *
+ * @param filmIds - Film ids in any order
+ * @returns New sorted array
+ */
+export function sortFilmIds(filmIds: number[]): number[] {
+  return [...filmIds].sort((a, b) => a - b);
+}
+
+/**
+ * Find the group whose films exactly match a guess.
+ *
+ * @param filmIds - Film ids of the guess
+ * @param groups - Groups of the puzzle
+ * @returns Matching group, or undefined if the guess is wrong
+ */
+export function findMatchingGroup(filmIds: number[], groups: Group[]): Group | undefined {
+  const sortedGuess = sortFilmIds(filmIds);
+  return groups.find((group) => {
+    const groupFilmIds = sortFilmIds(group.films.map((f) => f.id));
+    return (
+      groupFilmIds.length === sortedGuess.length &&
+      groupFilmIds.every((id, index) => id === sortedGuess[index])
+    );
+  });
+}
+
+/**
+ * Check whether a wrong guess has three of the four films of some group.
+ *
+ * @param filmIds - Film ids of the guess
+ * @param groups - Groups of the puzzle
+ * @returns Group the guess was one away from, or undefined
+ */
+export function findOneAwayGroup(filmIds: number[], groups: Group[]): Group | undefined {
+  return groups.find((group) => {
+    const groupFilmIds = group.films.map((f) => f.id);
+    const matchCount = filmIds.filter((id) => groupFilmIds.includes(id)).length;
+    return matchCount === 3;
+  });
+}
+
+/**
+ * Convert the ordered guess list of a game into records with outcomes.
+ * Used when no guess log was kept, so the records carry no timestamps.
+ *
+ * @param previousGuesses - Sorted film ids of each guess, in order
+ * @param groups - Groups of the puzzle
+ * @returns Guess records in the order they were made
+ */
+export function toGuessRecords(previousGuesses: number[][], groups: Group[]): GuessRecord[] {
+  return previousGuesses.map((filmIds) => {
+    const matchedGroup = findMatchingGroup(filmIds, groups);
+    return {
+      filmIds,
+      correct: !!matchedGroup,
+      groupId: matchedGroup?.id ?? null,
+      oneAway: !matchedGroup && !!findOneAwayGroup(filmIds, groups),
+    };
+  });
+}
@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { formatDuration, getPlayTimeMs } from './playTime';
+
+describe('getPlayTimeMs', () => {
+  it('should add the running stretch to the elapsed time', () => {
+    expect(getPlayTimeMs({ elapsedMs: 5000, activeSince: 1000 }, 4000)).toBe(8000);
+  });
+
+  it('should return the elapsed time while paused', () => {
+    expect(getPlayTimeMs({ elapsedMs: 5000, activeSince: null }, 4000)).toBe(5000);
+  });
+});
+
+describe('formatDuration', () => {
+  it('should format minutes and seconds', () => {
+    expect(formatDuration(0)).toBe('0:00');
+    expect(formatDuration(187)).toBe('3:07');
+  });
+
+  it('should include hours for long games', () => {
+    expect(formatDuration(3725)).toBe('1:02:05');
+  });
+});
@@ -0,0 +1,38 @@
+import type { GameState } from '../types';
+
+/**
+ * Play Time Utilities
+ *
+ * Helpers for measuring and displaying how long a game was actively played.
+ */
+
+/**
+ * Active play time of a game, including the stretch still running.
+ *
+ * @param state - Timer fields of the game state
+ * @param now - Current timestamp
+ * @returns Milliseconds of active play
+ */
+export function getPlayTimeMs(
+  state: Pick<GameState, 'elapsedMs' | 'activeSince'>,
+  now: number = Date.now()
+): number {
+  return state.elapsedMs + (state.activeSince !== null ? Math.max(0, now - state.activeSince) : 0);
+}
+
+/**
+ * Format a duration as m:ss, or h:mm:ss from an hour up.
+ *
+ * @param totalSeconds - Duration in seconds
+ * @returns Formatted duration, e.g. "3:07"
+ */
+export function formatDuration(totalSeconds: number): string {
+  const seconds = Math.max(0, Math.round(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = String(seconds % 60).padStart(2, '0');
+
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}`
+    : `${minutes}:${secs}`;
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { buildEmojiGrid, generateShareText, shareText } from './share';
+import type { Film, Group } from '../types';
+
+const films: Film[] = Array.from({ length: 16 }, (_, i) => ({
+  id: i + 1,
+  title: `Film ${i + 1}`,
+  year: 2000,
+}));
+
+const groups: Group[] = [
+  { id: 'g1', films: films.slice(0, 4), connection: 'One', difficulty: 'easy', color: 'yellow' },
+  { id: 'g2', films: films.slice(4, 8), connection: 'Two', difficulty: 'medium', color: 'green' },
+  { id: 'g3', films: films.slice(8, 12), connection: 'Three', difficulty: 'hard', color: 'blue' },
+  { id: 'g4', films: films.slice(12, 16), connection: 'Four', difficulty: 'hardest', color: 'purple' },
+];
+
+describe('share', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('buildEmojiGrid', () => {
+    it('should color each film by its group', () => {
+      const grid = buildEmojiGrid([[1, 2, 3, 5], [1, 2, 3, 4]], groups);
+
+      expect(grid).toBe('🟨🟨🟨🟩\n🟨🟨🟨🟨');
+    });
+  });
+
+  describe('generateShareText', () => {
+    it('should prefix the grid with the puzzle header', () => {
+      const text = generateShareText('2025-01-02', [[13, 14, 15, 16]], groups);
+
+      expect(text).toBe('Filmclues #2 - January 2, 2025\n🟪🟪🟪🟪');
+    });
+
+    it('should not include titles or connections', () => {
+      const text = generateShareText('2025-01-02', [[1, 2, 3, 4]], groups, 'text');
+
+      expect(text).not.toContain('Film 1');
+      expect(text).not.toContain('One');
+    });
+
+    it('should summarise a loss in text format', () => {
+      const guesses = [[1, 2, 3, 4], [5, 6, 7, 9], [5, 6, 7, 10], [5, 6, 7, 11], [5, 6, 7, 12]];
+
+      const text = generateShareText('2025-01-02', guesses, groups, 'text');
+
+      expect(text).toBe('Filmclues #2 - January 2, 2025\nFound 1/4 groups with 4 mistakes');
+    });
+  });
+
+  describe('shareText', () => {
+    it('should use the Web Share API when available', async () => {
+      const share = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { share });
+
+      await expect(shareText('hello')).resolves.toBe('shared');
+      expect(share).toHaveBeenCalledWith({ text: 'hello' });
+    });
+
+    it('should fall back to the clipboard', async () => {
+      const writeText = vi.fn().mockResolvedValue(undefined);
+      vi.stubGlobal('navigator', { clipboard: { writeText } });
+
+      await expect(shareText('hello')).resolves.toBe('copied');
+      expect(writeText).toHaveBeenCalledWith('hello');
+    });
+
+    it('should report a cancelled share sheet', async () => {
+      const abortError = Object.assign(new Error('Share cancelled'), { name: 'AbortError' });
+      const share = vi.fn().mockRejectedValue(abortError);
+      vi.stubGlobal('navigator', { share });
+
+      await expect(shareText('hello')).resolves.toBe('cancelled');
+    });
+  });
+});
@@ -0,0 +1,136 @@
+import type { Group } from '../types';
+import { DIFFICULTY_EMOJIS } from '../constants/difficulty';
+import { formatPuzzleHeader } from './index';
+import { findMatchingGroup } from './guesses';
+
+/**
+ * Share Utilities
+ *
+ * Builds shareable result text and hands it to the Web Share API or clipboard.
+ * Shared text never contains film titles or connections.
+ */
+
+/**
+ * Share formats:
+ * - grid: header plus one row of colored squares per guess
+ * - text: header plus a one-line summary, no board at all
+ */
+export type ShareFormat = 'grid' | 'text';
+
+/**
+ * How the result ended up being shared.
+ * 'cancelled' means the user dismissed the native share sheet.
+ */
+export type ShareOutcome = 'shared' | 'copied' | 'cancelled' | 'failed';
+
+/**
+ * Build the emoji grid for a game: one row per guess, one square per film,
+ * colored by the group each film actually belongs to.
+ *
+ * @param previousGuesses - Film ids of each guess, in order
+ * @param groups - Groups of the puzzle
+ * @returns Grid rows joined by newlines
+ */
+export function buildEmojiGrid(previousGuesses: number[][], groups: Group[]): string {
+  const colorByFilmId = new Map(
+    groups.flatMap((group) => group.films.map((film) => [film.id, group.color] as const))
+  );
+
+  return previousGuesses
+    .map((guess) =>
+      guess
+        .map((filmId) => {
+          const color = colorByFilmId.get(filmId);
+          return color ? DIFFICULTY_EMOJIS[color] : '⬜';
+        })
+        .join('')
+    )
+    .join('\n');
+}
+
+/**
+ * Generate the text to share for a finished game.
+ *
+ * @param puzzleDate - Date of the puzzle (YYYY-MM-DD)
+ * @param previousGuesses - Film ids of each guess, in order
+ * @param groups - Groups of the puzzle
+ * @param format - Share format (defaults to 'grid')
+ * @returns Share text
+ */
+export function generateShareText(
+  puzzleDate: string,
+  previousGuesses: number[][],
+  groups: Group[],
+  format: ShareFormat = 'grid'
+): string {
+  const header = formatPuzzleHeader(puzzleDate);
+
+  if (format === 'grid') {
+    return `${header}\n${buildEmojiGrid(previousGuesses, groups)}`;
+  }
+
+  const solvedCount = previousGuesses.filter(
+    (guess) => findMatchingGroup(guess, groups) !== undefined
+  ).length;
+  const mistakes = previousGuesses.length - solvedCount;
+  const mistakeLabel = `${mistakes} mistake${mistakes !== 1 ? 's' : ''}`;
+  const summary =
+    solvedCount === groups.length
+      ? `Solved with ${mistakeLabel}`
+      : `Found ${solvedCount}/${groups.length} groups with ${mistakeLabel}`;
+
+  return `${header}\n${summary}`;
+}
+
+/**
+ * Copy text using a hidden textarea, for browsers without the Clipboard API.
+ */
+function copyWithTextarea(text: string): boolean {
+  const textarea = document.createElement('textarea');
+  textarea.value = text;
+  textarea.setAttribute('readonly', '');
+  textarea.style.position = 'fixed';
+  textarea.style.opacity = '0';
+  document.body.appendChild(textarea);
+  textarea.select();
+
+  try {
+    return document.execCommand('copy');
+  } catch {
+    return false;
+  } finally {
+    document.body.removeChild(textarea);
+  }
+}
+
+/**
+ * Share text with the native share sheet when available,
+ * falling back to the clipboard.
+ *
+ * @param text - Text to share
+ * @returns How the text was shared
+ */
+export async function shareText(text: string): Promise<ShareOutcome> {
+  if (typeof navigator.share === 'function' && (navigator.canShare?.({ text }) ?? true)) {
+    try {
+      await navigator.share({ text });
+      return 'shared';
+    } catch (error) {
+      if (error instanceof Error && error.name === 'AbortError') {
+        return 'cancelled';
+      }
+      // Fall through to clipboard when sharing is blocked
+    }
+  }
+
+  if (navigator.clipboard?.writeText) {
+    try {
+      await navigator.clipboard.writeText(text);
+      return 'copied';
+    } catch {
+      // Fall through to the legacy copy path
+    }
+  }
+
+  return copyWithTextarea(text) ? 'copied' : 'failed';
+}
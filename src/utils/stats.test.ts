@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { computeStreaks, getMistakeDistribution, getSolveTimes, getWinRate } from './stats';
+import type { GameResult } from '../types';
+
+const game = (date: string, won: boolean, mistakes: number): GameResult => ({
+  date,
+  won,
+  mistakes,
+  completedAt: 0,
+});
+
+describe('getMistakeDistribution', () => {
+  it('should return empty buckets for no games', () => {
+    expect(getMistakeDistribution([]).map((b) => b.count)).toEqual([0, 0, 0, 0, 0]);
+  });
+
+  it('should count wins by mistakes and losses separately', () => {
+    const history = [
+      game('2025-01-01', true, 0),
+      game('2025-01-02', true, 1),
+      game('2025-01-03', true, 1),
+      game('2025-01-04', true, 3),
+      game('2025-01-05', false, 4),
+    ];
+
+    const buckets = getMistakeDistribution(history);
+
+    expect(buckets.map((b) => b.key)).toEqual([0, 1, 2, 3, 'lost']);
+    expect(buckets.map((b) => b.count)).toEqual([1, 2, 0, 1, 1]);
+  });
+});
+
+describe('getWinRate', () => {
+  it('should return 0 for no games', () => {
+    expect(getWinRate([])).toBe(0);
+  });
+
+  it('should round to a whole percentage', () => {
+    const history = [game('2025-01-01', true, 0), game('2025-01-02', true, 2), game('2025-01-03', false, 4)];
+    expect(getWinRate(history)).toBe(67);
+  });
+});
+
+describe('getSolveTimes', () => {
+  it('should average and pick the fastest timed win', () => {
+    const history = [
+      { ...game('2025-01-01', true, 0), timeTakenSeconds: 100 },
+      { ...game('2025-01-02', true, 1), timeTakenSeconds: 215 },
+      { ...game('2025-01-03', false, 4), timeTakenSeconds: 30 },
+      game('2025-01-04', true, 2),
+    ];
+
+    expect(getSolveTimes(history)).toEqual({ averageSeconds: 158, bestSeconds: 100 });
+  });
+
+  it('should return nulls without any timed wins', () => {
+    expect(getSolveTimes([game('2025-01-01', true, 0)])).toEqual({
+      averageSeconds: null,
+      bestSeconds: null,
+    });
+  });
+});
+
+describe('computeStreaks', () => {
+  it('should return zero streaks for no games', () => {
+    expect(computeStreaks([])).toEqual({ currentStreak: 0, maxStreak: 0, lastPlayedDate: null });
+  });
+
+  it('should extend streaks on consecutive wins regardless of input order', () => {
+    const history = [
+      game('2025-01-03', true, 0),
+      game('2025-01-01', true, 0),
+      game('2025-01-02', true, 1),
+      game('2025-01-05', true, 2),
+    ];
+
+    expect(computeStreaks(history)).toEqual({
+      currentStreak: 1,
+      maxStreak: 3,
+      lastPlayedDate: '2025-01-05',
+    });
+  });
+
+  it('should reset the streak on a loss', () => {
+    const history = [game('2025-01-01', true, 0), game('2025-01-02', false, 4)];
+
+    expect(computeStreaks(history).currentStreak).toBe(0);
+    expect(computeStreaks(history).maxStreak).toBe(1);
+  });
+
+  it('should extend streaks across month boundaries', () => {
+    const history = [game('2025-01-31', true, 0), game('2025-02-01', true, 0)];
+
+    expect(computeStreaks(history).currentStreak).toBe(2);
+  });
+});
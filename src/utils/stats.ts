@@ -0,0 +1,150 @@
+import type { GameResult } from '../types';
+
+/**
+ * Stats Utilities
+ *
+ * Derives display data from a player's game history.
+ */
+
+/**
+ * Most mistakes a player can make and still win.
+ */
+export const MAX_WINNING_MISTAKES = 3;
+
+/**
+ * One bar of the mistake distribution.
+ */
+export interface DistributionBucket {
+  /** Bucket key: mistake count for wins, 'lost' for losses */
+  key: number | 'lost';
+  /** Label shown next to the bar */
+  label: string;
+  /** Number of games in this bucket */
+  count: number;
+}
+
+/**
+ * Get the distribution bucket key for a single game.
+ */
+export function getBucketKey(game: GameResult): DistributionBucket['key'] {
+  return game.won ? Math.min(game.mistakes, MAX_WINNING_MISTAKES) : 'lost';
+}
+
+/**
+ * Count wins by mistake count (0-3) plus losses.
+ *
+ * @param gameHistory - Completed games
+ * @returns Buckets in display order: 0, 1, 2, 3 mistakes, then losses
+ */
+export function getMistakeDistribution(gameHistory: GameResult[]): DistributionBucket[] {
+  const buckets: DistributionBucket[] = [
+    ...Array.from({ length: MAX_WINNING_MISTAKES + 1 }, (_, mistakes) => ({
+      key: mistakes,
+      label: String(mistakes),
+      count: 0,
+    })),
+    { key: 'lost', label: 'X', count: 0 },
+  ];
+
+  for (const game of gameHistory) {
+    const bucket = buckets.find((b) => b.key === getBucketKey(game));
+    if (bucket) {
+      bucket.count += 1;
+    }
+  }
+
+  return buckets;
+}
+
+/**
+ * Win rate as a whole percentage (0-100).
+ *
+ * @param gameHistory - Completed games
+ */
+export function getWinRate(gameHistory: GameResult[]): number {
+  if (gameHistory.length === 0) {
+    return 0;
+  }
+  const wins = gameHistory.filter((game) => game.won).length;
+  return Math.round((wins / gameHistory.length) * 100);
+}
+
+/**
+ * Solve times derived from a game history.
+ */
+export interface SolveTimeSummary {
+  /** Mean time of timed wins in whole seconds, or null without any */
+  averageSeconds: number | null;
+  /** Fastest timed win in seconds, or null without any */
+  bestSeconds: number | null;
+}
+
+/**
+ * Average and best solve time across won games.
+ * Losses and games recorded before play time was tracked are ignored.
+ *
+ * @param gameHistory - Completed games
+ */
+export function getSolveTimes(gameHistory: GameResult[]): SolveTimeSummary {
+  const times = gameHistory
+    .filter((game) => game.won && game.timeTakenSeconds !== undefined)
+    .map((game) => game.timeTakenSeconds as number);
+
+  if (times.length === 0) {
+    return { averageSeconds: null, bestSeconds: null };
+  }
+
+  const total = times.reduce((sum, seconds) => sum + seconds, 0);
+  return {
+    averageSeconds: Math.round(total / times.length),
+    bestSeconds: Math.min(...times),
+  };
+}
+
+/**
+ * Streaks derived from a game history.
+ */
+export interface StreakSummary {
+  currentStreak: number;
+  maxStreak: number;
+  lastPlayedDate: string | null;
+}
+
+/**
+ * Get the day after a YYYY-MM-DD date.
+ */
+function getNextDate(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString().split('T')[0];
+}
+
+/**
+ * Recompute streaks from a full game history.
+ *
+ * Follows the same rules as recording games one at a time: a win on the day
+ * after the previous game extends the streak, any other win starts a new
+ * streak, and a loss resets it to 0.
+ *
+ * @param gameHistory - Completed games, in any order
+ */
+export function computeStreaks(gameHistory: GameResult[]): StreakSummary {
+  const sorted = [...gameHistory].sort((a, b) => a.date.localeCompare(b.date));
+  let currentStreak = 0;
+  let maxStreak = 0;
+  let lastPlayedDate: string | null = null;
+
+  for (const game of sorted) {
+    if (!game.won) {
+      currentStreak = 0;
+    } else if (lastPlayedDate && getNextDate(lastPlayedDate) === game.date) {
+      currentStreak += 1;
+    } else {
+      currentStreak = 1;
+    }
+    maxStreak = Math.max(maxStreak, currentStreak);
+    lastPlayedDate = game.date;
+  }
+
+  return { currentStreak, maxStreak, lastPlayedDate };
+}
@@ -4,6 +4,7 @@ interface ImportMetaEnv {
   readonly VITE_SUPABASE_URL: string;
   readonly VITE_SUPABASE_ANON_KEY: string;
   readonly VITE_AMPLITUDE_API_KEY?: string;
+  readonly VITE_STORAGE_BACKEND?: 'supabase' | 'local';
 }
 
 interface ImportMeta {
@@ -0,0 +1,14 @@
+-- Gameplay Guess Log Migration
+-- Stores every guess of a completed game, so editors can report the most
+-- common wrong guesses per puzzle and group difficulty can be calibrated
+
+-- Ordered guesses: [{ filmIds, correct, groupId, oneAway, guessedAt }]
+ALTER TABLE gameplay ADD COLUMN IF NOT EXISTS guesses JSONB;
+
+-- Admins read every player's games for guess reports and calibration
+CREATE POLICY "Admins can read all gameplay"
+  ON gameplay FOR SELECT
+  TO authenticated
+  USING (is_admin(auth.uid()));
+
+COMMENT ON COLUMN gameplay.guesses IS 'Ordered guess log: film ids, matched group, one-away flag and timestamp of each guess (null for games recorded before guesses were stored)';
@@ -0,0 +1,40 @@
+-- Swap Puzzle Dates
+--
+-- Exchanges the dates of two scheduled puzzles in a single statement.
+-- Swapping through a NULL date breaks check_published_has_date, and
+-- swapping row by row breaks the unique date constraint, so the unique
+-- constraint is made deferrable and checked once the swap is done.
+-- Puzzles dated today or earlier have already been played and stay put.
+
+ALTER TABLE puzzles DROP CONSTRAINT IF EXISTS puzzles_puzzle_date_key;
+ALTER TABLE puzzles ADD CONSTRAINT puzzles_puzzle_date_key
+  UNIQUE (puzzle_date) DEFERRABLE INITIALLY IMMEDIATE;
+
+-- Runs with the caller's permissions so the admin update policies still apply
+CREATE OR REPLACE FUNCTION swap_puzzle_dates(first_id UUID, second_id UUID)
+RETURNS void AS $$
+DECLARE
+  first_date DATE;
+  second_date DATE;
+BEGIN
+  SELECT puzzle_date INTO first_date FROM puzzles WHERE id = first_id;
+  SELECT puzzle_date INTO second_date FROM puzzles WHERE id = second_id;
+
+  IF first_date IS NULL OR second_date IS NULL THEN
+    RAISE EXCEPTION 'Both puzzles must be scheduled to swap dates';
+  END IF;
+
+  IF first_date <= CURRENT_DATE OR second_date <= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Puzzles dated today or earlier cannot be moved';
+  END IF;
+
+  SET CONSTRAINTS puzzles_puzzle_date_key DEFERRED;
+
+  UPDATE puzzles
+  SET puzzle_date = CASE WHEN id = first_id THEN second_date ELSE first_date END
+  WHERE id IN (first_id, second_id);
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON FUNCTION swap_puzzle_dates(UUID, UUID) IS
+  'Atomically exchanges the dates of two puzzles scheduled after today.';
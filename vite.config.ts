@@ -11,6 +11,9 @@ export default defineConfig({
     environment: 'jsdom',
     setupFiles: ['./src/test/setup.ts'],
     css: false,
+    env: {
+      VITE_STORAGE_BACKEND: 'local',
+    },
     server: {
       deps: {
         inline: ['@mond-design-system/theme'],